@@ -4,55 +4,136 @@ import { ChatInterface } from './components/ChatInterface';
 import { FileViewer } from './components/FileViewer';
 import { FileDiffViewer } from './components/FileDiffViewer';
 import { MemoryEditor } from './components/MemoryEditor';
-import type { UploadedFile, ChatMessage, ProposedChange, GeminiModel } from './types';
-import { AVAILABLE_MODELS } from './types';
-import { streamChatResponse, generateContextResponse } from './services/geminiService';
+import { WorkspaceManager } from './components/WorkspaceManager';
+import { UploadReviewDialog } from './components/UploadReviewDialog';
+import { HistoryTimeline } from './components/HistoryTimeline';
+import { ThreadTabs } from './components/ThreadTabs';
+import { SearchPanel } from './components/SearchPanel';
+import { ModelSettingsDialog } from './components/ModelSettingsDialog';
+import { MergeConflictDialog } from './components/MergeConflictDialog';
+import { UsagePanel } from './components/UsagePanel';
+import type { UploadedFile, ChatMessage, ProposedChange, ProposalResolution, UnmatchedEdit, ModelId, ModelOption, SavedWorkspace, WorkspaceState, WorkspaceSummary, ZipExportScope, FileTimeline, StreamingResponse, ChatBranchPoint, ChatThread, DiffOptions, GenerationSettings, GenerationPreset, UsageRecord, UsageCallKind, TokenUsage, PriceTable } from './types';
+import { AVAILABLE_MODELS, GEMINI_MODEL_LIMITS } from './types';
+import { streamChatResponse, generateContextResponse, buildSystemInstruction } from './services/geminiService';
+import { listAvailableModels, toModelId, GEMINI_PROVIDER_ID } from './services/providers';
+import { validateProposedChanges } from './services/fileValidation';
+import type { LocalFolder, DiskFileState, ChangedDiskFile } from './services/localFolder';
+import { isLocalFolderSupported, pickLocalFolder, listLocalFolderFiles, isInLocalFolder, readLocalFile, writeLocalFile, deleteLocalFile, readChangedLocalFiles } from './services/localFolder';
+import {
+  createWorkspaceId, getActiveWorkspaceId, setActiveWorkspaceId, deriveWorkspaceName,
+  saveWorkspace, loadWorkspace, listWorkspaces, deleteWorkspace
+} from './services/workspaceStorage';
+import type { ModelLimits } from './utils/contextBudget';
+import { estimateTokens, computeContextBudget, pruneHistoryToBudget, formatTokenCount, getProjectContextBudget } from './utils/contextBudget';
+import { selectContextFiles } from './utils/fileRetrieval';
+import { extractFileMentions } from './utils/fileMentions';
+import { resolveGenerationSettings, createGenerationPreset, DEFAULT_SUMMARY_TEMPERATURE } from './utils/generationSettings';
+import { DEFAULT_PRICE_TABLE } from './utils/usageCost';
+import { formatDiagnosticsCorrection } from './utils/syntaxChecks';
+import type { FileMerge } from './utils/threeWayMerge';
+import { findStaleChanges, resolveMerge } from './utils/threeWayMerge';
+import type { UploadPlan } from './utils/uploadFilter';
+import { planUpload, getUploadPath, createIgnoredFolderMatcher, createPathMatcher, DEFAULT_IGNORE_PATTERNS } from './utils/uploadFilter';
+import { loadSetting, saveSetting } from './services/settingsStorage';
+import { createZip } from './utils/zip';
+import { createTimeline, pushSnapshot, getPreviousSnapshot } from './utils/fileTimeline';
+import { downloadBlob, formatFileTimestamp } from './utils/download';
+import type { PatchFileChange } from './utils/patch';
+import { createGitPatch, diffFileSets, getAppliedProposalChanges, getSharedTopFolder, relativizePatchChanges } from './utils/patch';
+import { branchConversation, switchBranch, collectAppliedChanges } from './utils/chatBranches';
+import type { SlashCommandContext, SlashCommandName } from './utils/slashCommands';
+import { formatSlashCommandHelp } from './utils/slashCommands';
+import { createThread, getNextThreadName, isSessionSummaryFile, isOtherThreadSummary, switchThread, DEFAULT_THREAD_NAME } from './utils/chatThreads';
 
 const MAX_HISTORY_LENGTH = 20; // Keep the last 20 file states
-const CONTEXT_CHAR_LIMIT = 25000; // Character limit for chat history before pruning
 const MEMORY_FILE_PATH = 'AI_Memory/GEMINI.md';
 const CODE_BLOCK_LINE_THRESHOLD = 10; // Lines allowed in chat before collapsing
 const CONVERSATIONAL_TEXT_CHAR_LIMIT = 2500; // Character limit for conversational text before flagging as a violation.
+const AUTOSAVE_DELAY_MS = 500; // Debounce for persisting the workspace to IndexedDB
+const IGNORE_PATTERNS_SETTING = 'ignorePatterns';
+const DIFF_OPTIONS_SETTING = 'diffOptions';
+const GENERATION_SETTINGS_SETTING = 'generationSettings';
+const GENERATION_PRESETS_SETTING = 'generationPresets';
+const SUMMARY_MODEL_SETTING = 'summaryModel';
+const SUMMARY_TEMPERATURE_SETTING = 'summaryTemperature';
+const PRICE_TABLE_SETTING = 'priceTable';
+const DEFAULT_DIFF_OPTIONS: DiffOptions = { layout: 'split', ignoreWhitespace: false };
+const INITIAL_SNAPSHOT_LABEL = 'Session started';
+const STREAM_RENDER_INTERVAL_MS = 50; // Throttle for re-rendering the chat while a response streams in
+const EXTERNAL_CHANGE_POLL_MS = 5000; // How often an open local folder is checked for changes made outside the session
 
 
 /**
- * Prunes the chat history if it exceeds a character limit to prevent context overflow.
- * It always keeps the first message (initial welcome/context) and the most recent messages
- * that fit within the limit.
- * @param history The full chat history.
- * @returns A potentially pruned version of the chat history.
+ * Extracts the text of a tag such as <search> or <replace>, unwrapping an optional CDATA section.
+ * Like the main parser, it tolerates an unclosed CDATA section by falling back to the closing tag.
+ * @param block The XML fragment to search in.
+ * @param tagName The name of the tag to extract.
+ * @returns The tag's text, or null if the tag is missing or unterminated.
  */
-const pruneChatHistory = (history: ChatMessage[]): ChatMessage[] => {
-    const totalChars = history.reduce((acc, msg) => acc + (msg.content?.length || 0) + (msg.warning?.length || 0), 0);
-
-    if (totalChars <= CONTEXT_CHAR_LIMIT) {
-        return history; // No pruning needed
+const extractTagText = (block: string, tagName: string): string | null => {
+    const openTag = `<${tagName}>`;
+    const closeTag = `</${tagName}>`;
+    const openIndex = block.indexOf(openTag);
+    if (openIndex === -1) {
+        return block.includes(`<${tagName}/>`) ? '' : null;
     }
 
-    let runningChars = 0;
-    const keptMessages: ChatMessage[] = [];
+    const bodyStart = openIndex + openTag.length;
+    const closeIndex = block.indexOf(closeTag, bodyStart);
+    const cdataStartIndex = block.indexOf('<![CDATA[', bodyStart);
 
-    // Iterate backwards from the end to keep the most recent messages.
-    for (let i = history.length - 1; i >= 0; i--) {
-        const message = history[i];
-        const messageLength = (message.content?.length || 0) + (message.warning?.length || 0);
-        
-        // Stop if adding the next message would exceed the limit.
-        if (runningChars + messageLength > CONTEXT_CHAR_LIMIT) {
-            break;
+    if (cdataStartIndex !== -1 && (closeIndex === -1 || cdataStartIndex < closeIndex)) {
+        const contentStart = cdataStartIndex + '<![CDATA['.length;
+        let contentEnd = block.indexOf(']]>', contentStart);
+        if (contentEnd === -1) {
+            contentEnd = block.indexOf(closeTag, contentStart);
         }
-        
-        runningChars += messageLength;
-        keptMessages.unshift(message); // Add to the beginning to maintain order
+        return contentEnd === -1 ? null : block.substring(contentStart, contentEnd);
     }
-    
-    // Ensure the very first message is always included if it's not already.
-    const firstMessage = history[0];
-    if (firstMessage && !keptMessages.includes(firstMessage)) {
-        keptMessages.unshift(firstMessage);
+
+    return closeIndex === -1 ? null : block.substring(bodyStart, closeIndex);
+};
+
+/**
+ * Applies a single search/replace edit to a file's content.
+ * An exact match is tried first. If that fails, the search is retried line by line
+ * while ignoring indentation and runs of whitespace, which covers the most common
+ * way the AI misquotes code (re-indented or with trailing spaces stripped).
+ * @param content The current file content.
+ * @param search The text to find.
+ * @param replace The text to put in its place.
+ * @returns The edited content, or null if the search text could not be found.
+ */
+const applySearchReplaceEdit = (content: string, search: string, replace: string): string | null => {
+    if (search.trim() === '') {
+        return null;
     }
-    
-    return keptMessages;
+
+    const exactIndex = content.indexOf(search);
+    if (exactIndex !== -1) {
+        return content.slice(0, exactIndex) + replace + content.slice(exactIndex + search.length);
+    }
+
+    const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+    const trimBlankLines = (text: string) => text.replace(/^(?:[ \t]*\r?\n)+/, '').replace(/(?:\r?\n[ \t]*)+$/, '');
+
+    const contentLines = content.split('\n');
+    const searchLines = trimBlankLines(search).split('\n').map(normalizeLine);
+
+    for (let i = 0; i + searchLines.length <= contentLines.length; i++) {
+        const isMatch = searchLines.every((line, j) => normalizeLine(contentLines[i + j]) === line);
+        if (isMatch) {
+            const trimmedReplace = trimBlankLines(replace);
+            const replaceLines = trimmedReplace === '' ? [] : trimmedReplace.split('\n');
+            return [
+                ...contentLines.slice(0, i),
+                ...replaceLines,
+                ...contentLines.slice(i + searchLines.length),
+            ].join('\n');
+        }
+    }
+
+    return null;
 };
 
 /**
@@ -61,18 +142,25 @@ const pruneChatHistory = (history: ChatMessage[]): ChatMessage[] => {
  * to handle potentially malformed or incomplete XML from the AI.
  * It looks for <change> blocks and extracts file paths and content,
  * with a fallback for unclosed CDATA sections.
+ * A <change> block either carries the full new file in <content>, or one or more
+ * <edit> blocks with <search>/<replace> pairs that are applied to the current file.
+ * A `from` attribute renames (moves) that file to the block's path; on its own, without
+ * <content> or <edit>, the file is moved unchanged. An earlier change to the old path in the
+ * same response moves along with the file.
  * @param xmlString The XML string part of the AI's response.
  * @param existingFiles The current list of files to determine old content for diffs.
- * @returns An array of proposed file changes.
+ * @returns The proposed file changes, plus any edits whose search text could not be found.
  */
-const parseFileChangesFromXml = (xmlString: string, existingFiles: UploadedFile[]): ProposedChange[] => {
+const parseFileChangesFromXml = (xmlString: string, existingFiles: UploadedFile[]): { changes: ProposedChange[]; unmatchedEdits: UnmatchedEdit[] } => {
     const changes: ProposedChange[] = [];
+    const unmatchedEdits: UnmatchedEdit[] = [];
     
     // Using [\s\S]*? makes the match non-greedy.
-    const changeBlocks = xmlString.match(/<change file=".*?">[\s\S]*?<\/change>/g);
+    // A rename without content or edits may be written as a self-closing tag.
+    const changeBlocks = xmlString.match(/<change file="[^"]*"[^>]*?(?:\/>|>[\s\S]*?<\/change>)/g);
 
     if (!changeBlocks) {
-        return [];
+        return { changes, unmatchedEdits };
     }
 
     for (const block of changeBlocks) {
@@ -82,6 +170,85 @@ const parseFileChangesFromXml = (xmlString: string, existingFiles: UploadedFile[
             continue;
         }
         const filePath = filePathMatch[1];
+        const fromMatch = block.match(/^<change [^>]*?\bfrom="(.*?)"/);
+        const renamedFrom = fromMatch?.[1] && fromMatch[1] !== filePath ? fromMatch[1] : undefined;
+        // A renamed file's current content is at its old path.
+        const oldFile = existingFiles.find(f => f.path === (renamedFrom ?? filePath));
+        // The block builds on an earlier change to the same file in this response, if there is one;
+        // a renamed file whose old path an earlier change deleted is gone.
+        const previousChange = changes.find(c => c.filePath === (renamedFrom ?? filePath));
+        const currentContent = renamedFrom && previousChange?.newContent === '' ? undefined : previousChange?.newContent ?? oldFile?.content;
+
+        if (renamedFrom) {
+            const targetChange = changes.find(c => c.filePath === filePath);
+            if (targetChange ? targetChange.newContent !== '' : existingFiles.some(f => f.path === filePath)) {
+                console.warn(`Cannot rename ${renamedFrom} to ${filePath}: that file already exists. Skipping.`);
+                continue;
+            }
+        }
+
+        // Adds the block's change. A rename takes the place of an earlier change to its old
+        // path, so that the earlier change moves along with the file.
+        const addChange = (newContent: string) => {
+            if (!renamedFrom || !previousChange) {
+                changes.push({ filePath, oldContent: oldFile?.content ?? '', newContent, ...(renamedFrom && { renamedFrom }) });
+                return;
+            }
+            changes.splice(changes.indexOf(previousChange), 1);
+            // A file created earlier in this response is simply created at the new path instead.
+            const originalPath = previousChange.renamedFrom ?? (oldFile ? renamedFrom : undefined);
+            changes.push({ filePath, oldContent: previousChange.oldContent, newContent, ...(originalPath && { renamedFrom: originalPath }) });
+        };
+
+        const editBlocks = block.match(/<edit>[\s\S]*?<\/edit>/g);
+        if (editBlocks) {
+            if (currentContent === undefined) {
+                editBlocks.forEach(editBlock => {
+                    unmatchedEdits.push({ filePath: renamedFrom ?? filePath, search: extractTagText(editBlock, 'search') ?? '', reason: 'missing-file' });
+                });
+                continue;
+            }
+
+            let editedContent = currentContent;
+            let hasFailedEdit = false;
+            for (const editBlock of editBlocks) {
+                const search = extractTagText(editBlock, 'search');
+                const replace = extractTagText(editBlock, 'replace');
+                const result = search !== null && replace !== null
+                    ? applySearchReplaceEdit(editedContent, search, replace)
+                    : null;
+
+                if (result === null) {
+                    unmatchedEdits.push({ filePath, search: search ?? '', reason: search === null || replace === null ? 'malformed' : 'not-found' });
+                    hasFailedEdit = true;
+                } else {
+                    editedContent = result;
+                }
+            }
+
+            // A partially applied set of edits would leave the file in an inconsistent state.
+            if (hasFailedEdit) {
+                continue;
+            }
+
+            // An empty file means a deletion, which edits must not cause by accident.
+            if (editedContent === '' && currentContent !== '') {
+                unmatchedEdits.push({ filePath, search: '', reason: 'empties-file' });
+                continue;
+            }
+
+            if (previousChange && !renamedFrom) {
+                previousChange.newContent = editedContent;
+            } else {
+                addChange(editedContent);
+            }
+            continue;
+        }
+
+        if (renamedFrom && currentContent === undefined) {
+            console.warn(`Cannot rename ${renamedFrom} to ${filePath}: there is no such file. Skipping.`);
+            continue;
+        }
 
         const cdataStartTag = '<![CDATA[';
         const cdataEndTag = ']]>';
@@ -90,12 +257,18 @@ const parseFileChangesFromXml = (xmlString: string, existingFiles: UploadedFile[
         const cdataStartIndex = block.indexOf(cdataStartTag);
 
         if (cdataStartIndex === -1) {
-            // If no CDATA, it's likely a file deletion.
+            // If no CDATA, it's likely a file deletion, or a rename that keeps the content.
             // Check for an empty content tag to be sure.
-            if (block.includes('<content/>') || block.includes('<content></content>') || block.includes('<content><![CDATA[]]></content>')) {
+            const isDeletion = block.includes('<content/>') || block.includes('<content></content>') || block.includes('<content><![CDATA[]]></content>');
+            if (renamedFrom && currentContent !== undefined && !block.includes('<content')) {
+                // A plain move: the file keeps its content.
+                addChange(currentContent);
+            } else if (renamedFrom) {
+                console.warn(`Cannot rename ${renamedFrom} to ${filePath} with empty content. Skipping.`);
+            } else if (isDeletion) {
                 changes.push({
                     filePath,
-                    oldContent: existingFiles.find(f => f.path === filePath)?.content ?? '',
+                    oldContent: oldFile?.content ?? '',
                     newContent: '',
                 });
             } else {
@@ -121,16 +294,15 @@ const parseFileChangesFromXml = (xmlString: string, existingFiles: UploadedFile[
         }
 
         const newContent = block.substring(contentStartIndex, contentEndIndex);
-        const oldFile = existingFiles.find(f => f.path === filePath);
+        if (renamedFrom && newContent === '') {
+            console.warn(`Cannot rename ${renamedFrom} to ${filePath} with empty content. Skipping.`);
+            continue;
+        }
 
-        changes.push({
-            filePath,
-            oldContent: oldFile?.content ?? '',
-            newContent,
-        });
+        addChange(newContent);
     }
 
-    return changes;
+    return { changes, unmatchedEdits };
 };
 
 /**
@@ -173,113 +345,405 @@ const sanitizeAndDetectViolations = (text: string): { sanitizedText: string; vio
 };
 
 /**
- * A simple utility to guess if a file is text-based from its MIME type.
- * This helps prevent trying to read binary files as text.
- * @param file The file to check.
- * @returns True if the file is likely text-based, false otherwise.
+ * Files that are always sent to the model in full: the memory file and session summaries.
  */
-const isLikelyTextFile = (file: File): boolean => {
-    const type = file.type;
+const isPinnedContextFile = (path: string): boolean => {
+    return path === MEMORY_FILE_PATH || isSessionSummaryFile(path);
+};
 
-    // Allow all standard text types
-    if (type.startsWith('text/')) return true;
-    
-    // Explicitly block known binary types/supertypes
-    if (type.startsWith('image/') ||
-        type.startsWith('audio/') ||
-        type.startsWith('video/') ||
-        type.startsWith('font/')) {
-        // Make an exception for SVG, which is XML/text.
-        return type === 'image/svg+xml';
-    }
-    
-    // Block other common binary application types
-    if (['application/pdf', 'application/zip', 'application/octet-stream'].some(b => type.startsWith(b))) {
-      return false;
-    }
-    
-    // For other types like application/json, application/javascript, or unknown types (''),
-    // we optimistically assume they are text and attempt to read them.
-    return true;
+/**
+ * Records on a message which parts of its proposal were applied or discarded.
+ * @param history The current chat history.
+ * @param messageIndex The index of the message that carries the proposal.
+ * @param resolution What happened to each file and hunk of the proposal.
+ * @returns A new chat history with the resolution attached to the message.
+ */
+const recordProposalResolution = (history: ChatMessage[], messageIndex: number, resolution: ProposalResolution): ChatMessage[] => {
+    return history.map((message, i) => i === messageIndex ? { ...message, proposalResolution: resolution } : message);
 };
 
+/**
+ * Updates the "modified" badges for a jump to another state of the files (undo, redo,
+ * switching conversation branch): every file whose content changes gets its count bumped,
+ * and files that no longer exist lose their badge.
+ * @param modifiedFiles The current badge counts.
+ * @param currentFiles The files before the jump.
+ * @param nextFiles The files after it.
+ */
+const markChangedFiles = (modifiedFiles: Record<string, number>, currentFiles: UploadedFile[], nextFiles: UploadedFile[]): Record<string, number> => {
+    const currentMap = new Map(currentFiles.map(f => [f.path, f.content]));
+    const nextPaths = new Set(nextFiles.map(f => f.path));
+    const updatedModified = { ...modifiedFiles };
+    nextFiles.forEach(file => {
+      if (currentMap.get(file.path) !== file.content) {
+        updatedModified[file.path] = (updatedModified[file.path] || 0) + 1;
+      }
+    });
+    Object.keys(updatedModified).forEach(path => {
+      if (!nextPaths.has(path)) delete updatedModified[path];
+    });
+    return updatedModified;
+};
 
 export default function App(): React.ReactElement {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [modifiedFiles, setModifiedFiles] = useState<Record<string, number>>({});
+  const [baselineFiles, setBaselineFiles] = useState<UploadedFile[]>([]);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
-  const [fileHistory, setFileHistory] = useState<UploadedFile[][]>([]); // Holds previous states of the 'files' array
+  const [branchPoints, setBranchPoints] = useState<ChatBranchPoint[]>([]);
+  const [threads, setThreads] = useState<ChatThread[]>(() => [createThread(DEFAULT_THREAD_NAME, [])]);
+  const [activeThreadId, setActiveThreadId] = useState<string>(() => threads[0].id);
+  const [fileTimeline, setFileTimeline] = useState<FileTimeline>(() => createTimeline([], INITIAL_SNAPSHOT_LABEL));
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [model, setModel] = useState<GeminiModel>(AVAILABLE_MODELS[0]);
+  const [streamingResponse, setStreamingResponse] = useState<StreamingResponse | null>(null);
+  const [model, setModel] = useState<ModelId>(toModelId(GEMINI_PROVIDER_ID, AVAILABLE_MODELS[0]));
+  const [availableModels, setAvailableModels] = useState<ModelOption[]>([]);
+  const [modelListErrors, setModelListErrors] = useState<string[]>([]);
+  // Each model's generation settings, as the user last changed them.
+  const [generationSettingsByModel, setGenerationSettingsByModel] = useState<Record<ModelId, Partial<GenerationSettings>>>(() => loadSetting(GENERATION_SETTINGS_SETTING, {}));
+  const [generationPresets, setGenerationPresets] = useState<GenerationPreset[]>(() => loadSetting(GENERATION_PRESETS_SETTING, []));
+  // The model that writes session summaries; null to use the chat model.
+  const [summaryModel, setSummaryModel] = useState<ModelId | null>(() => loadSetting<ModelId | null>(SUMMARY_MODEL_SETTING, null));
+  const [summaryTemperature, setSummaryTemperature] = useState<number>(() => loadSetting(SUMMARY_TEMPERATURE_SETTING, DEFAULT_SUMMARY_TEMPERATURE));
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+  const [priceTable, setPriceTable] = useState<PriceTable>(() => loadSetting(PRICE_TABLE_SETTING, DEFAULT_PRICE_TABLE));
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
   const [viewingFile, setViewingFile] = useState<UploadedFile | null>(null);
+  // The line to show when the viewed file was opened from a search result.
+  const [viewingLine, setViewingLine] = useState<number | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [viewingDiff, setViewingDiff] = useState<{ oldFile: UploadedFile; newFile: UploadedFile } | null>(null);
   const [isMemoryEditorOpen, setIsMemoryEditorOpen] = useState(false);
+  const [workspaceId, setWorkspaceId] = useState<string>(() => getActiveWorkspaceId() ?? createWorkspaceId());
+  const [isWorkspaceReady, setIsWorkspaceReady] = useState(false);
+  const [isWorkspaceManagerOpen, setIsWorkspaceManagerOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [ignorePatterns, setIgnorePatterns] = useState<string[]>(() => loadSetting(IGNORE_PATTERNS_SETTING, DEFAULT_IGNORE_PATTERNS));
+  const [diffOptions, setDiffOptions] = useState<DiffOptions>(() => ({ ...DEFAULT_DIFF_OPTIONS, ...loadSetting<Partial<DiffOptions>>(DIFF_OPTIONS_SETTING, {}) }));
+  // A folder upload waiting for the user to review which folders to include. For a
+  // folder opened from disk, `folder` is the folder to keep in sync once it is read.
+  const [pendingUpload, setPendingUpload] = useState<{ files: File[]; plan: UploadPlan; folder?: LocalFolder } | null>(null);
+  // Changes waiting to be applied until the user resolves their conflicts with newer project changes.
+  const [pendingMerge, setPendingMerge] = useState<{ changes: ProposedChange[]; merges: FileMerge[]; mergedPaths: string[]; messageIndex?: number; resolution?: ProposalResolution } | null>(null);
+  const [localFolder, setLocalFolder] = useState<LocalFolder | null>(null);
+  const [savedWorkspaces, setSavedWorkspaces] = useState<WorkspaceSummary[]>([]);
   
   const stopGenerationRef = useRef(false);
+  // The state that was last read from or written to storage, used to skip redundant autosaves.
+  const lastPersistedStateRef = useRef<WorkspaceState | null>(null);
+  const hasReportedAutosaveErrorRef = useRef(false);
+  // What the session last read from or wrote to the open local folder, per file.
+  const diskStateRef = useRef(new Map<string, DiskFileState>());
+  // The files (and folder) the disk sync last saw, to work out what changed since.
+  const syncedFilesRef = useRef<UploadedFile[]>([]);
+  const syncedFolderRef = useRef<LocalFolder | null>(null);
+  // Disk reads and writes run one after another, so two quick changes to a file land in
+  // order and a check for external changes never sees a half-finished write.
+  const diskQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // External edits that were already reported as conflicting with the session, by path and modification time.
+  const reportedDiskConflictsRef = useRef(new Set<string>());
+  // The latest files, for disk tasks that finish after the files changed again (e.g. an
+  // applied proposal while a check for external changes was reading the folder).
+  const filesRef = useRef(files);
+  filesRef.current = files;
 
   // Derive long-term memory directly from the project file content.
   // This ensures that the memory is always in sync with the project state.
   const longTermMemory = useMemo(() => {
     return files.find(f => f.path === MEMORY_FILE_PATH)?.content ?? '';
   }, [files]);
+
+  const activeThread = useMemo(
+    () => threads.find(thread => thread.id === activeThreadId) ?? threads[0],
+    [threads, activeThreadId]
+  );
+
+  // The files the AI sees in this thread: everything except other threads' session summaries.
+  const threadFiles = useMemo(
+    () => files.filter(f => !isOtherThreadSummary(f.path, activeThread)),
+    [files, activeThread]
+  );
+
+  const modelOption = useMemo(() => availableModels.find(m => m.id === model), [availableModels, model]);
+
+  const generationSettings = useMemo(
+    () => resolveGenerationSettings(generationSettingsByModel[model], modelOption),
+    [generationSettingsByModel, model, modelOption]
+  );
+
+  const modelLimits = useMemo<ModelLimits>(() => {
+    if (modelOption) {
+      // A lower output limit set by the user leaves more of the window for the request.
+      return { contextWindow: modelOption.contextWindow, maxOutputTokens: generationSettings.maxOutputTokens ?? modelOption.maxOutputTokens };
+    }
+    // Until the model list has loaded, assume the default Gemini model's limits.
+    return GEMINI_MODEL_LIMITS[AVAILABLE_MODELS[0]];
+  }, [modelOption, generationSettings]);
+
+  // The system instruction carries the project files, so it is usually the largest part of the context.
+  // Without a prompt the selection simply fills the project budget, which is what a typical turn sends.
+  const systemInstructionTokens = useMemo(() => {
+    const selection = selectContextFiles('', threadFiles, { tokenBudget: getProjectContextBudget(modelLimits), isPinned: isPinnedContextFile });
+    return estimateTokens(buildSystemInstruction('', selection.files, [], files.map(f => f.path), null, longTermMemory, null));
+  }, [files, threadFiles, longTermMemory, modelLimits]);
+
+  // The state before the last change, which "undo" restores and diffs are shown against.
+  const previousFiles = useMemo(() => getPreviousSnapshot(fileTimeline)?.files ?? null, [fileTimeline]);
+
+  /**
+   * Replaces the project files and records the new state in the history timeline.
+   * @param nextFiles The new state of the files.
+   * @param label The action that produced it, shown in the timeline.
+   */
+  const recordFiles = useCallback((nextFiles: UploadedFile[], label: string) => {
+    filesRef.current = nextFiles;
+    setFiles(nextFiles);
+    setFileTimeline(prev => pushSnapshot(prev, nextFiles, label, MAX_HISTORY_LENGTH + 1));
+  }, []);
+
+  // Leaves the workspace with a single, empty thread.
+  const resetThreads = useCallback(() => {
+    const mainThread = createThread(DEFAULT_THREAD_NAME, []);
+    setThreads([mainThread]);
+    setActiveThreadId(mainThread.id);
+    setBranchPoints([]);
+  }, []);
+
+  /**
+   * Resets the session to its initial state: loads the memory file and shows the welcome message.
+   */
+  const startFreshSession = useCallback(async () => {
+    setModifiedFiles({});
+    setUsageLog([]);
+    setLocalFolder(null);
+    try {
+      const memoryFilePath = MEMORY_FILE_PATH;
+      const response = await fetch(memoryFilePath);
+      let initialMemoryFiles: UploadedFile[] = [];
+      let welcomeMessage = '';
+
+      if (response.ok) {
+        const content = await response.text();
+        initialMemoryFiles.push({ path: memoryFilePath, content });
+        welcomeMessage = `Welcome to Gemini Cloud CLI! I have loaded your Long-Term Memory file. You can now upload your project folder to begin.`;
+      } else if (response.status === 404) {
+        welcomeMessage = `Welcome to Gemini Cloud CLI! No Long-Term Memory file was found. Upload your project folder using the button on the left to get started.`;
+      } else {
+        throw new Error(`Failed to fetch ${memoryFilePath}: ${response.statusText}`);
+      }
+      
+      setFiles(initialMemoryFiles);
+      setBaselineFiles(initialMemoryFiles);
+      setFileTimeline(createTimeline(initialMemoryFiles, INITIAL_SNAPSHOT_LABEL));
+
+      resetThreads();
+      setChatHistory([{
+        role: 'model',
+        content: welcomeMessage
+      }]);
+
+    } catch (error) {
+      console.error("Failed to load initial files:", error);
+      setFiles([]);
+      setBaselineFiles([]);
+      setFileTimeline(createTimeline([], INITIAL_SNAPSHOT_LABEL));
+      resetThreads();
+      setChatHistory([{
+        role: 'model',
+        error: `Failed to load Memory file. Please ensure it exists and the application has permission to access it. You can still upload your project folder to begin.`,
+        content: ''
+      }]);
+    }
+  }, [resetThreads]);
+
+  const applySavedWorkspace = useCallback((saved: SavedWorkspace) => {
+    const { files, baselineFiles, chatHistory, branchPoints, threads, activeThreadId, fileTimeline, modifiedFiles, usageLog } = saved;
+    lastPersistedStateRef.current = { files, baselineFiles, chatHistory, branchPoints, threads, activeThreadId, fileTimeline, modifiedFiles, usageLog };
+    setFiles(files);
+    setBaselineFiles(baselineFiles);
+    setChatHistory(chatHistory);
+    setBranchPoints(branchPoints);
+    setThreads(threads);
+    setActiveThreadId(activeThreadId);
+    setFileTimeline(fileTimeline);
+    setModifiedFiles(modifiedFiles);
+    setUsageLog(usageLog);
+    setLocalFolder(null);
+    setViewingFile(null);
+    setViewingDiff(null);
+  }, []);
   
-  // Effect to load initial memory files and set a welcome message.
+  // Effect to restore the last workspace, or load initial memory files and set a welcome message.
   useEffect(() => {
-    const loadInitialFiles = async () => {
+    const initializeWorkspace = async () => {
       setIsLoading(true);
+      let restoreError: string | null = null;
       try {
-        const memoryFilePath = MEMORY_FILE_PATH;
-        const response = await fetch(memoryFilePath);
-        let initialMemoryFiles: UploadedFile[] = [];
-        let welcomeMessage = '';
-
-        if (response.ok) {
-          const content = await response.text();
-          initialMemoryFiles.push({ path: memoryFilePath, content });
-          welcomeMessage = `Welcome to Gemini Cloud CLI! I have loaded your Long-Term Memory file. You can now upload your project folder to begin.`;
-        } else if (response.status === 404) {
-          welcomeMessage = `Welcome to Gemini Cloud CLI! No Long-Term Memory file was found. Upload your project folder using the button on the left to get started.`;
-        } else {
-          throw new Error(`Failed to fetch ${memoryFilePath}: ${response.statusText}`);
+        const saved = await loadWorkspace(workspaceId);
+        if (saved) {
+          applySavedWorkspace(saved);
+          return;
         }
-        
-        setFiles(initialMemoryFiles);
-
-        setChatHistory([{
-          role: 'model',
-          content: welcomeMessage
-        }]);
-
       } catch (error) {
-        console.error("Failed to load initial files:", error);
-        setChatHistory([{
+        console.error("Failed to restore saved workspace:", error);
+        restoreError = error instanceof Error ? error.message : String(error);
+      }
+
+      await startFreshSession();
+      if (restoreError) {
+        setChatHistory(prev => [...prev, {
           role: 'model',
-          error: `Failed to load Memory file. Please ensure it exists and the application has permission to access it. You can still upload your project folder to begin.`,
-          content: ''
+          content: '',
+          warning: `Could not restore your previous workspace from browser storage. Details: ${restoreError}`
         }]);
-      } finally {
-        setIsLoading(false);
       }
     };
 
-    loadInitialFiles();
+    initializeWorkspace().finally(() => {
+      setIsLoading(false);
+      setIsWorkspaceReady(true);
+    });
   }, []); // Empty dependency array ensures this runs only once on mount
-  
-  const handleFileUpload = useCallback(async (uploadedFiles: FileList | null) => {
-    if (!uploadedFiles || uploadedFiles.length === 0) return;
 
+  // Effect to collect the models offered by every configured provider.
+  useEffect(() => {
+    listAvailableModels().then(({ models, errors }) => {
+      setAvailableModels(models);
+      setModelListErrors(errors);
+      // Fall back to the first available model if the default one isn't offered (e.g. no Gemini key).
+      setModel(current => models.length > 0 && !models.some(m => m.id === current) ? models[0].id : current);
+    });
+  }, []);
+
+  // Effect to autosave the workspace to IndexedDB whenever it changes.
+  useEffect(() => {
+    if (!isWorkspaceReady) return;
+
+    const lastPersisted = lastPersistedStateRef.current;
+    if (lastPersisted &&
+        lastPersisted.files === files &&
+        lastPersisted.baselineFiles === baselineFiles &&
+        lastPersisted.chatHistory === chatHistory &&
+        lastPersisted.branchPoints === branchPoints &&
+        lastPersisted.threads === threads &&
+        lastPersisted.activeThreadId === activeThreadId &&
+        lastPersisted.fileTimeline === fileTimeline &&
+        lastPersisted.modifiedFiles === modifiedFiles &&
+        lastPersisted.usageLog === usageLog) {
+      return;
+    }
+
+    // Don't persist a workspace that only contains the welcome message.
+    const hasProjectFiles = files.some(f => f.path !== MEMORY_FILE_PATH);
+    if (!hasProjectFiles && chatHistory.length <= 1) return;
+
+    const timeoutId = setTimeout(() => {
+      const state: WorkspaceState = { files, baselineFiles, chatHistory, branchPoints, threads, activeThreadId, fileTimeline, modifiedFiles, usageLog };
+      saveWorkspace(workspaceId, state)
+        .then(() => {
+          lastPersistedStateRef.current = state;
+          hasReportedAutosaveErrorRef.current = false;
+          setActiveWorkspaceId(workspaceId);
+        })
+        .catch(error => {
+          console.error("Failed to autosave workspace:", error);
+          if (!hasReportedAutosaveErrorRef.current) {
+            hasReportedAutosaveErrorRef.current = true;
+            const detail = error instanceof Error ? error.message : String(error);
+            setChatHistory(prev => [...prev, {
+              role: 'model',
+              content: '',
+              warning: `Your workspace could not be saved to browser storage, so it will be lost on refresh. Details: ${detail}`
+            }]);
+          }
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [isWorkspaceReady, workspaceId, files, baselineFiles, chatHistory, branchPoints, threads, activeThreadId, fileTimeline, modifiedFiles, usageLog]);
+
+  const refreshSavedWorkspaces = useCallback(async () => {
+    try {
+      setSavedWorkspaces(await listWorkspaces());
+    } catch (error) {
+      console.error("Failed to list saved workspaces:", error);
+      setSavedWorkspaces([]);
+    }
+  }, []);
+
+  const handleOpenWorkspaceManager = useCallback(async () => {
+    await refreshSavedWorkspaces();
+    setIsWorkspaceManagerOpen(true);
+  }, [refreshSavedWorkspaces]);
+
+  const handleNewWorkspace = useCallback(async () => {
+    if (isLoading) return;
+    const newId = createWorkspaceId();
+    lastPersistedStateRef.current = null;
+    // Until the fresh session has loaded, the state still holds the previous workspace,
+    // which must not be autosaved under the new id.
+    setIsWorkspaceReady(false);
+    setIsWorkspaceManagerOpen(false);
+    setViewingFile(null);
+    setViewingDiff(null);
+    setWorkspaceId(newId);
+    setActiveWorkspaceId(newId);
     setIsLoading(true);
+    try {
+      await startFreshSession();
+    } finally {
+      setIsLoading(false);
+      setIsWorkspaceReady(true);
+    }
+  }, [isLoading, startFreshSession]);
 
-    const allUploadedFiles = Array.from(uploadedFiles);
-    const filesToProcess = allUploadedFiles.filter(isLikelyTextFile);
-    const skippedFiles = allUploadedFiles.filter(f => !filesToProcess.includes(f));
+  const handleOpenWorkspace = useCallback(async (id: string) => {
+    if (isLoading) return;
+    try {
+      const saved = await loadWorkspace(id);
+      if (!saved) {
+        throw new Error("The workspace no longer exists.");
+      }
+      applySavedWorkspace(saved);
+      setWorkspaceId(id);
+      setActiveWorkspaceId(id);
+      setIsWorkspaceManagerOpen(false);
+    } catch (error) {
+      console.error("Failed to open workspace:", error);
+      const detail = error instanceof Error ? error.message : String(error);
+      setChatHistory(prev => [...prev, { role: 'model', content: '', error: `Failed to open the saved workspace. Details: ${detail}` }]);
+      setIsWorkspaceManagerOpen(false);
+    }
+  }, [isLoading, applySavedWorkspace]);
+
+  const handleDeleteWorkspace = useCallback(async (id: string) => {
+    try {
+      await deleteWorkspace(id);
+    } catch (error) {
+      console.error("Failed to delete workspace:", error);
+    }
+    if (id === workspaceId) {
+      await handleNewWorkspace();
+    }
+    await refreshSavedWorkspaces();
+  }, [workspaceId, handleNewWorkspace, refreshSavedWorkspaces]);
+  
+  /**
+   * Reads the chosen files and adds them to the project.
+   * @param filesToProcess The files to read, already filtered by the upload plan.
+   * @param plan The plan they came from, used to report what was left out.
+   * @returns The files that were read, or an empty list if reading failed.
+   */
+  const readAndAddFiles = useCallback(async (filesToProcess: File[], plan: UploadPlan): Promise<UploadedFile[]> => {
+    setIsLoading(true);
 
     const filePromises: Promise<UploadedFile>[] = filesToProcess.map(file => {
       return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = (e) => {
           const content = e.target?.result as string;
-          resolve({ path: file.webkitRelativePath || file.name, content });
+          resolve({ path: getUploadPath(file), content });
         };
         reader.onerror = () => reject(reader.error || new Error(`Unknown error reading ${file.name}`));
         reader.readAsText(file);
@@ -292,15 +756,16 @@ export default function App(): React.ReactElement {
       const projectFilesExist = files.some(f => f.path !== MEMORY_FILE_PATH);
       const isFirstUserUpload = !projectFilesExist && newFiles.length > 0;
 
-      if (files.length > 0) {
-        setFileHistory(prev => [files, ...prev].slice(0, MAX_HISTORY_LENGTH));
-      }
-      
-      setFiles(currentFiles => {
+      const mergeUploaded = (currentFiles: UploadedFile[]) => {
         const fileMap = new Map(currentFiles.map(f => [f.path, f]));
         newFiles.forEach(file => fileMap.set(file.path, file));
         return Array.from(fileMap.values()).sort((a, b) => a.path.localeCompare(b.path));
-      });
+      };
+      if (newFiles.length > 0) {
+        recordFiles(mergeUploaded(files), `Uploaded ${newFiles.length} file(s)`);
+      }
+      // Uploaded content is the new starting point of those files for the session patch.
+      setBaselineFiles(mergeUploaded);
 
       setModifiedFiles(currentModified => {
         const updatedModified = { ...currentModified };
@@ -312,12 +777,22 @@ export default function App(): React.ReactElement {
       
       const chatUpdates: ChatMessage[] = [];
 
-      if (skippedFiles.length > 0) {
-        const skippedPaths = skippedFiles.map(f => f.webkitRelativePath || f.name).join(', ');
+      const skippedNotes: string[] = [];
+      if (plan.ignoredCount > 0) {
+        skippedNotes.push(`${plan.ignoredCount} file(s) matched by .gitignore or the default ignore list`);
+      }
+      if (plan.unreadableCount > 0) {
+        skippedNotes.push(`${plan.unreadableCount} binary file(s) that are not readable`);
+      }
+      const readableCount = plan.groups.reduce((acc, g) => acc + g.files.length, 0);
+      if (readableCount > filesToProcess.length) {
+        skippedNotes.push(`${readableCount - filesToProcess.length} file(s) in folders you excluded`);
+      }
+      if (skippedNotes.length > 0) {
         chatUpdates.push({
           role: 'model',
           content: '',
-          warning: `Skipped ${skippedFiles.length} binary file(s) that are not readable: ${skippedPaths}.`
+          warning: `Skipped ${skippedNotes.join(', ')}.`
         });
       }
 
@@ -332,8 +807,8 @@ export default function App(): React.ReactElement {
           role: 'model',
           content: finalMessage
         });
-      } else if (skippedFiles.length > 0) {
-        // Case where only binary files were "uploaded".
+      } else if (skippedNotes.length > 0) {
+        // Case where every file was ignored or binary.
         chatUpdates.push({
           role: 'model',
           content: 'No new text-based files were added to the project.'
@@ -343,17 +818,346 @@ export default function App(): React.ReactElement {
       if (chatUpdates.length > 0) {
         setChatHistory(prev => [...prev, ...chatUpdates]);
       }
-      
+      return newFiles;
     } catch (err) {
       console.error("File reading error:", err);
       const detail = err instanceof Error ? err.message : String(err);
       const errorMessage = `Failed to read one or more files. Details: ${detail}. Please ensure they are text-based and try again.`;
        setChatHistory(prev => [...prev, {role: 'model', content: '', error: errorMessage}]);
+      return [];
     } finally {
       setIsLoading(false);
     }
-  }, [files]);
+  }, [files, recordFiles]);
   
+  const handleFileUpload = useCallback(async (uploadedFiles: FileList | null) => {
+    if (!uploadedFiles || uploadedFiles.length === 0) return;
+
+    const allUploadedFiles = Array.from(uploadedFiles);
+    const plan = await planUpload(allUploadedFiles, ignorePatterns);
+
+    // Folder uploads are reviewed before reading; loose files (e.g. a drag and drop) are added directly.
+    const isFolderUpload = allUploadedFiles.some(f => getUploadPath(f).includes('/'));
+    if (isFolderUpload) {
+      setPendingUpload({ files: allUploadedFiles, plan });
+    } else {
+      await readAndAddFiles(plan.groups.flatMap(g => g.files), plan);
+    }
+  }, [ignorePatterns, readAndAddFiles]);
+
+  const handleConfirmUpload = useCallback(async (selectedFiles: File[]) => {
+    if (!pendingUpload) return;
+    setPendingUpload(null);
+    const newFiles = await readAndAddFiles(selectedFiles, pendingUpload.plan);
+    const { folder } = pendingUpload;
+    if (folder && newFiles.length > 0) {
+      // From now on, the files that were read are kept in sync with the folder.
+      const lastModifiedByPath = new Map(selectedFiles.map(file => [getUploadPath(file), file.lastModified]));
+      diskStateRef.current = new Map(newFiles.map(file => [file.path, { content: file.content, lastModified: lastModifiedByPath.get(file.path) ?? 0 }]));
+      reportedDiskConflictsRef.current.clear();
+      setLocalFolder(folder);
+      setChatHistory(prev => [...prev, {
+        role: 'model',
+        content: `Opened the folder **${folder.name}**. Changes you apply are now written straight to it, and changes made to its files outside this session are picked up automatically.`,
+      }]);
+    }
+  }, [pendingUpload, readAndAddFiles]);
+
+  /**
+   * Lets the user pick a folder on disk and reads it like a folder upload (with the same
+   * review step), then keeps it in sync: applied changes are written back to it.
+   */
+  const handleOpenFolder = useCallback(async () => {
+    if (isLoading) return;
+    try {
+      const folder = await pickLocalFolder();
+      if (!folder) return;
+      const folderFiles = await listLocalFolderFiles(folder, createIgnoredFolderMatcher(ignorePatterns, folder.name));
+      const plan = await planUpload(folderFiles, ignorePatterns);
+      setPendingUpload({ files: folderFiles, plan, folder });
+    } catch (error) {
+      console.error("Failed to open folder:", error);
+      const detail = error instanceof Error ? error.message : String(error);
+      setChatHistory(prev => [...prev, { role: 'model', content: '', error: `Could not open the folder. Details: ${detail}` }]);
+    }
+  }, [isLoading, ignorePatterns]);
+
+  const handleDisconnectFolder = useCallback(() => {
+    if (!localFolder) return;
+    setLocalFolder(null);
+    setChatHistory(prev => [...prev, {
+      role: 'model',
+      content: `Disconnected from **${localFolder.name}**. Changes stay in the browser from now on; use the download buttons to save them.`,
+    }]);
+  }, [localFolder]);
+
+  const enqueueDiskTask = useCallback((task: () => Promise<void>) => {
+    diskQueueRef.current = diskQueueRef.current
+      .then(task)
+      .catch(error => console.error("Local folder sync failed:", error));
+  }, []);
+
+  /**
+   * Writes changed files to the open folder. A file is only overwritten (or deleted) if
+   * the disk still has the version the session last read or wrote, so edits made outside
+   * the session are never lost.
+   * @param folder The open folder.
+   * @param changes The files that changed in the session.
+   */
+  const writeChangesToFolder = useCallback(async (folder: LocalFolder, changes: PatchFileChange[]) => {
+    const conflicts: string[] = [];
+    const failures: string[] = [];
+    for (const { path, newContent } of changes) {
+      const known = diskStateRef.current.get(path);
+      // Already on disk, e.g. a file that was just reloaded from it.
+      if (newContent === (known?.content ?? null)) continue;
+      try {
+        const onDisk = await readLocalFile(folder, path);
+        if ((onDisk?.content ?? null) !== (known?.content ?? null)) {
+          conflicts.push(path);
+          continue;
+        }
+        if (newContent === null) {
+          await deleteLocalFile(folder, path);
+          diskStateRef.current.delete(path);
+        } else {
+          diskStateRef.current.set(path, await writeLocalFile(folder, path, newContent));
+        }
+      } catch (error) {
+        failures.push(`${path} (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+
+    const notices: ChatMessage[] = [];
+    if (conflicts.length > 0) {
+      notices.push({
+        role: 'model',
+        content: '',
+        warning: `Not written to **${folder.name}**, because the files on disk differ from what this session last read: ${conflicts.join(', ')}. The session's versions are kept. Use **Reload from disk** in the File Explorer to take the versions on disk instead.`,
+      });
+    }
+    if (failures.length > 0) {
+      notices.push({ role: 'model', content: '', error: `Could not write to ${folder.name}: ${failures.join('; ')}` });
+    }
+    if (notices.length > 0) {
+      setChatHistory(prev => [...prev, ...notices]);
+    }
+  }, []);
+
+  /**
+   * Takes the disk versions of some files into the session as the new starting point of
+   * those files, like an upload. The change is recorded in the history timeline.
+   * @param diskFiles The files as read from disk; null content means the file is gone.
+   * @param label The timeline label.
+   */
+  const takeDiskVersions = useCallback((diskFiles: ChangedDiskFile[], label: string) => {
+    const diskPaths = new Set(diskFiles.map(f => f.path));
+    const replaceWithDiskVersions = (currentFiles: UploadedFile[]) => [
+      ...currentFiles.filter(f => !diskPaths.has(f.path)),
+      ...diskFiles.flatMap(f => (f.content === null ? [] : [{ path: f.path, content: f.content }])),
+    ].sort((a, b) => a.path.localeCompare(b.path));
+
+    diskFiles.forEach(f => {
+      if (f.content === null) {
+        diskStateRef.current.delete(f.path);
+      } else {
+        diskStateRef.current.set(f.path, { content: f.content, lastModified: f.lastModified });
+      }
+    });
+    recordFiles(replaceWithDiskVersions(filesRef.current), label);
+    setBaselineFiles(replaceWithDiskVersions);
+    setModifiedFiles(currentModified => {
+      const updatedModified = { ...currentModified };
+      diskPaths.forEach(path => delete updatedModified[path]);
+      return updatedModified;
+    });
+  }, [recordFiles]);
+
+  /**
+   * Looks for files of the open folder that were changed outside the session. Files the
+   * session hasn't changed since reading them are reloaded. For the others the session's
+   * version is kept and the user is told once, since neither version should be lost silently.
+   */
+  const checkForExternalChanges = useCallback(async () => {
+    if (!localFolder) return;
+    const changedFiles = await readChangedLocalFiles(localFolder, diskStateRef.current);
+    // The files may have changed while the folder was read.
+    const sessionContent = new Map(filesRef.current.map(f => [f.path, f.content]));
+    const reloaded: ChangedDiskFile[] = [];
+    const conflicts: string[] = [];
+
+    changedFiles.forEach(change => {
+      const known = diskStateRef.current.get(change.path);
+      if (!known) return;
+      if (change.content === known.content) {
+        // Touched (e.g. saved without edits) but unchanged.
+        diskStateRef.current.set(change.path, { ...known, lastModified: change.lastModified });
+      } else if ((sessionContent.get(change.path) ?? null) === known.content) {
+        reloaded.push(change);
+      } else {
+        const key = `${change.path}@${change.lastModified}`;
+        if (!reportedDiskConflictsRef.current.has(key)) {
+          reportedDiskConflictsRef.current.add(key);
+          conflicts.push(change.path);
+        }
+      }
+    });
+
+    const notices: ChatMessage[] = [];
+    if (reloaded.length > 0) {
+      takeDiskVersions(reloaded, `Reloaded ${reloaded.length} file(s) changed on disk`);
+      notices.push({ role: 'model', content: `Reloaded ${reloaded.length} file(s) that changed on disk: ${reloaded.map(f => `\`${f.path}\``).join(', ')}.` });
+    }
+    if (conflicts.length > 0) {
+      notices.push({
+        role: 'model',
+        content: '',
+        warning: `Changed on disk while this session also changed them: ${conflicts.join(', ')}. The session's versions are kept and won't be written over the disk versions. Use **Reload from disk** to take the disk versions instead (the session's versions stay in the history timeline).`,
+      });
+    }
+    if (notices.length > 0) {
+      setChatHistory(prev => [...prev, ...notices]);
+    }
+  }, [localFolder, takeDiskVersions]);
+
+  /**
+   * Replaces the session's version of every file of the open folder with the one on disk.
+   * The session's versions stay in the history timeline, so this can be undone.
+   */
+  const handleReloadFolder = useCallback(() => {
+    if (!localFolder || isLoading) return;
+    const folder = localFolder;
+    enqueueDiskTask(async () => {
+      const paths = new Set([
+        ...diskStateRef.current.keys(),
+        ...filesRef.current.filter(f => isInLocalFolder(folder, f.path)).map(f => f.path),
+      ]);
+      try {
+        const diskFiles = await Promise.all([...paths].map(async (path): Promise<ChangedDiskFile> => {
+          const state = await readLocalFile(folder, path);
+          return { path, content: state?.content ?? null, lastModified: state?.lastModified ?? 0 };
+        }));
+        reportedDiskConflictsRef.current.clear();
+        takeDiskVersions(diskFiles, `Reloaded ${folder.name} from disk`);
+        setChatHistory(prev => [...prev, { role: 'model', content: `Reloaded the files of **${folder.name}** from disk. To pick up files that are new on disk, open the folder again.` }]);
+      } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        setChatHistory(prev => [...prev, { role: 'model', content: '', error: `Could not reload ${folder.name} from disk. Details: ${detail}` }]);
+      }
+    });
+  }, [localFolder, isLoading, enqueueDiskTask, takeDiskVersions]);
+
+  // Effect to write changes to the open local folder: whenever the files change, whatever
+  // differs from what the sync last saw is written, creations and deletions included.
+  useEffect(() => {
+    const previousFiles = syncedFilesRef.current;
+    syncedFilesRef.current = files;
+    if (!localFolder) {
+      syncedFolderRef.current = null;
+      return;
+    }
+    if (syncedFolderRef.current !== localFolder) {
+      // A folder that was just opened already matches the files read from it.
+      syncedFolderRef.current = localFolder;
+      return;
+    }
+    const changes = diffFileSets(previousFiles, files).filter(change => isInLocalFolder(localFolder, change.path));
+    if (changes.length > 0) {
+      enqueueDiskTask(() => writeChangesToFolder(localFolder, changes));
+    }
+  }, [files, localFolder, enqueueDiskTask, writeChangesToFolder]);
+
+  // Effect to pick up changes made to the open folder outside the session, periodically
+  // and whenever the user comes back to the tab (e.g. after editing in their IDE).
+  useEffect(() => {
+    if (!localFolder || isLoading) return;
+    const check = () => enqueueDiskTask(checkForExternalChanges);
+    const intervalId = setInterval(check, EXTERNAL_CHANGE_POLL_MS);
+    window.addEventListener('focus', check);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('focus', check);
+    };
+  }, [localFolder, isLoading, enqueueDiskTask, checkForExternalChanges]);
+
+  const handleIgnorePatternsChange = useCallback(async (patterns: string[]) => {
+    setIgnorePatterns(patterns);
+    saveSetting(IGNORE_PATTERNS_SETTING, patterns);
+    if (pendingUpload) {
+      const plan = await planUpload(pendingUpload.files, patterns);
+      setPendingUpload({ ...pendingUpload, plan });
+    }
+  }, [pendingUpload]);
+
+  const handleDiffOptionsChange = useCallback((options: DiffOptions) => {
+    setDiffOptions(options);
+    saveSetting(DIFF_OPTIONS_SETTING, options);
+  }, []);
+
+  const updateGenerationSettingsByModel = useCallback((settingsByModel: Record<ModelId, Partial<GenerationSettings>>) => {
+    setGenerationSettingsByModel(settingsByModel);
+    saveSetting(GENERATION_SETTINGS_SETTING, settingsByModel);
+  }, []);
+
+  const handleGenerationSettingsChange = useCallback((settings: GenerationSettings) => {
+    updateGenerationSettingsByModel({ ...generationSettingsByModel, [model]: settings });
+  }, [generationSettingsByModel, model, updateGenerationSettingsByModel]);
+
+  const handleResetGenerationSettings = useCallback(() => {
+    const { [model]: _removed, ...rest } = generationSettingsByModel;
+    updateGenerationSettingsByModel(rest);
+  }, [generationSettingsByModel, model, updateGenerationSettingsByModel]);
+
+  const updateGenerationPresets = useCallback((presets: GenerationPreset[]) => {
+    setGenerationPresets(presets);
+    saveSetting(GENERATION_PRESETS_SETTING, presets);
+  }, []);
+
+  const handleSaveGenerationPreset = useCallback((name: string) => {
+    updateGenerationPresets([...generationPresets, createGenerationPreset(name, model, generationSettings)]);
+  }, [generationPresets, model, generationSettings, updateGenerationPresets]);
+
+  /**
+   * Switches to a preset's model and gives the model the preset's settings.
+   */
+  const handleApplyGenerationPreset = useCallback((preset: GenerationPreset) => {
+    if (!availableModels.some(m => m.id === preset.model)) {
+      setChatHistory(prev => [...prev, { role: 'model', content: '', warning: `The preset "${preset.name}" uses the model "${preset.model}", which is not available right now.` }]);
+      return;
+    }
+    setModel(preset.model);
+    updateGenerationSettingsByModel({ ...generationSettingsByModel, [preset.model]: preset.settings });
+  }, [availableModels, generationSettingsByModel, updateGenerationSettingsByModel]);
+
+  const handleDeleteGenerationPreset = useCallback((id: string) => {
+    updateGenerationPresets(generationPresets.filter(preset => preset.id !== id));
+  }, [generationPresets, updateGenerationPresets]);
+
+  const handleSummaryModelChange = useCallback((newSummaryModel: ModelId | null) => {
+    setSummaryModel(newSummaryModel);
+    saveSetting(SUMMARY_MODEL_SETTING, newSummaryModel);
+  }, []);
+
+  const handleSummaryTemperatureChange = useCallback((temperature: number) => {
+    setSummaryTemperature(temperature);
+    saveSetting(SUMMARY_TEMPERATURE_SETTING, temperature);
+  }, []);
+
+  const handlePriceTableChange = useCallback((newPriceTable: PriceTable) => {
+    setPriceTable(newPriceTable);
+    saveSetting(PRICE_TABLE_SETTING, newPriceTable);
+  }, []);
+
+  /**
+   * Adds a model call to the session's usage log.
+   * @returns The call's usage record, to be kept with the message the call produced.
+   */
+  const recordUsage = useCallback((usage: TokenUsage, usageModel: ModelId, kind: UsageCallKind): UsageRecord => {
+    const record: UsageRecord = { ...usage, model: usageModel, kind, timestamp: Date.now(), threadName: activeThread.name };
+    setUsageLog(prev => [...prev, record]);
+    return record;
+  }, [activeThread]);
+
   const handleAcknowledgeFileChange = useCallback((filePath: string) => {
     setModifiedFiles(currentModified => {
       const updatedModified = { ...currentModified };
@@ -362,13 +1166,80 @@ export default function App(): React.ReactElement {
     });
   }, []);
 
-  const handleApplyChanges = useCallback(async (changesToApply: ProposedChange[]) => {
-    setFileHistory(prevHistory => [files, ...prevHistory].slice(0, MAX_HISTORY_LENGTH));
-  
+  /**
+   * Downloads project files as a zip archive that keeps their relative paths, then clears
+   * the modification badges of the exported files, since their changes have been saved.
+   * @param scope Whether to export only the modified files or the whole project.
+   */
+  const handleExportZip = useCallback(async (scope: ZipExportScope) => {
+    const filesToExport = scope === 'modified' ? files.filter(f => modifiedFiles[f.path]) : files;
+    if (filesToExport.length === 0) {
+      setChatHistory(prev => [...prev, { role: 'model', content: 'There are no modified files to export.' }]);
+      return;
+    }
+
+    try {
+      const archive = await createZip(filesToExport.map(f => ({ path: f.path, content: f.content })));
+      const baseName = deriveWorkspaceName(files).replace(/[^\w.-]+/g, '-');
+      downloadBlob(archive, scope === 'modified' ? `${baseName}-modified.zip` : `${baseName}.zip`);
+    } catch (error) {
+      console.error("Failed to create the zip archive:", error);
+      const detail = error instanceof Error ? error.message : String(error);
+      setChatHistory(prev => [...prev, { role: 'model', content: '', error: `Could not create the zip archive. Details: ${detail}` }]);
+      return;
+    }
+
+    const exportedPaths = new Set(filesToExport.map(f => f.path));
+    setModifiedFiles(currentModified => Object.fromEntries(
+      Object.entries(currentModified).filter(([path]) => !exportedPaths.has(path))
+    ));
+  }, [files, modifiedFiles]);
+
+  /**
+   * Downloads a patch that `git apply` accepts, run from the root of the uploaded project folder.
+   * @param messageIndex The message whose applied proposal to export; when omitted, every
+   *   change made in the session since the files were uploaded is exported.
+   */
+  const handleExportPatch = useCallback((messageIndex?: number) => {
+    let changes: PatchFileChange[];
+    if (messageIndex === undefined) {
+      changes = diffFileSets(baselineFiles, files);
+    } else {
+      const message = chatHistory[messageIndex];
+      if (!message?.proposedChanges || !message.proposalResolution) return;
+      changes = getAppliedProposalChanges(message.proposedChanges, message.proposalResolution);
+    }
+
+    // The memory file belongs to this app, not to the user's repository.
+    changes = changes.filter(change => change.path !== MEMORY_FILE_PATH);
+    const projectFolder = getSharedTopFolder([...files, ...baselineFiles].map(f => f.path).filter(path => path !== MEMORY_FILE_PATH));
+    const patch = createGitPatch(relativizePatchChanges(changes, projectFolder));
+
+    if (!patch) {
+      setChatHistory(prev => [...prev, { role: 'model', content: 'There are no changes to export as a patch.' }]);
+      return;
+    }
+
+    const name = messageIndex === undefined ? 'session' : `proposal-${messageIndex}`;
+    downloadBlob(new Blob([patch], { type: 'text/x-diff;charset=utf-8' }), `${name}-${formatFileTimestamp()}.patch`);
+  }, [files, baselineFiles, chatHistory]);
+
+  /**
+   * Writes changes to the project files, records them on the timeline and in the chat.
+   * @param changesToApply The changes, already merged with any newer project changes.
+   * @param messageIndex The message whose proposal is applied, if any.
+   * @param resolution Which parts of the proposal are applied.
+   * @param mergedPaths The files whose proposed content was merged with changes made after the proposal.
+   */
+  const applyChanges = useCallback((changesToApply: ProposedChange[], messageIndex?: number, resolution?: ProposalResolution, mergedPaths: string[] = []) => {
     const fileMap = new Map(files.map(f => [f.path, f]));
   
     changesToApply.forEach(change => {
-      const { filePath, newContent } = change;
+      const { filePath, newContent, renamedFrom } = change;
+      // A rename moves the file: it is removed from its old path and written to the new one.
+      if (renamedFrom) {
+        fileMap.delete(renamedFrom);
+      }
       // If newContent is empty, it signifies a file deletion.
       if (newContent === '' && fileMap.has(filePath)) {
         fileMap.delete(filePath);
@@ -378,30 +1249,97 @@ export default function App(): React.ReactElement {
       }
     });
   
-    setFiles(Array.from(fileMap.values()).sort((a, b) => a.path.localeCompare(b.path)));
+    // Label the timeline entry; proposals are numbered in the order they appear in the chat.
+    let label = 'Applied changes';
+    if (messageIndex !== undefined) {
+      const proposalNumber = chatHistory.slice(0, messageIndex + 1).filter(m => m.proposedChanges && m.proposedChanges.length > 0).length;
+      label = chatHistory[messageIndex]?.proposalLabel ?? `Applied proposal ${proposalNumber}`;
+      if (resolution?.status === 'partial') {
+        label += ' (partially)';
+      }
+    }
+    recordFiles(Array.from(fileMap.values()).sort((a, b) => a.path.localeCompare(b.path)), label);
   
     setModifiedFiles(currentModified => {
       const updatedModifiedFiles = { ...currentModified };
       changesToApply.forEach(change => {
         const finalFile = fileMap.get(change.filePath);
+        // A renamed file keeps the modification count it had under its old path.
+        const previousCount = change.renamedFrom ? updatedModifiedFiles[change.renamedFrom] || 0 : 0;
+        if (change.renamedFrom) {
+            delete updatedModifiedFiles[change.renamedFrom];
+        }
         if (!finalFile) {
             // File was deleted, remove from modified list.
             delete updatedModifiedFiles[change.filePath]; 
         } else {
             // File was added or updated, mark as modified.
-            updatedModifiedFiles[change.filePath] = (updatedModifiedFiles[change.filePath] || 0) + 1;
+            updatedModifiedFiles[change.filePath] = (updatedModifiedFiles[change.filePath] || previousCount) + 1;
         }
       });
       return updatedModifiedFiles;
     });
   
-    if (changesToApply.length > 0) {
-        setChatHistory(prev => [...prev, {
-            role: 'model',
-            content: `Applied ${changesToApply.length} file change(s) to the project.`
-        }]);
+    let summary = `Applied ${changesToApply.length} file change(s) to the project.`;
+    const renamedFiles = changesToApply.filter(change => change.renamedFrom);
+    if (renamedFiles.length > 0) {
+        summary += ` Renamed: ${renamedFiles.map(change => `${change.renamedFrom} → ${change.filePath}`).join(', ')}.`;
     }
-  }, [files]);
+    if (resolution?.status === 'partial') {
+        const partialFiles = resolution.files.filter(f => f.appliedHunks.length > 0 && f.discardedHunks.length > 0);
+        const discardedFiles = resolution.files.filter(f => f.appliedHunks.length === 0 && (f.totalHunks > 0 || f.renameApplied === false));
+        if (partialFiles.length > 0) {
+            summary += ` Partially applied: ${partialFiles.map(f => `${f.filePath} (${f.appliedHunks.length} of ${f.totalHunks} changes)`).join(', ')}.`;
+        }
+        if (discardedFiles.length > 0) {
+            summary += ` Discarded: ${discardedFiles.map(f => f.filePath).join(', ')}.`;
+        }
+    }
+    if (mergedPaths.length > 0) {
+        summary += ` Merged with changes made after the proposal: ${mergedPaths.join(', ')}.`;
+    }
+
+    setChatHistory(prev => {
+        const updated = messageIndex !== undefined && resolution ? recordProposalResolution(prev, messageIndex, resolution) : prev;
+        return changesToApply.length > 0 ? [...updated, { role: 'model', content: summary }] : updated;
+    });
+  }, [files, chatHistory, recordFiles]);
+
+  /**
+   * Applies proposed changes. A file that changed in the project after the proposal was made
+   * (e.g. by a later proposal or a re-upload) is merged with that change instead of being
+   * overwritten; if the two overlap, the conflicts are shown for the user to resolve first.
+   * @param mergedPaths Files that were already merged, when re-checking resolved conflicts.
+   */
+  const handleApplyChanges = useCallback((changesToApply: ProposedChange[], messageIndex?: number, resolution?: ProposalResolution, mergedPaths: string[] = []) => {
+    const merges = findStaleChanges(changesToApply, files);
+    const allMergedPaths = [...new Set([...mergedPaths, ...merges.map(merge => merge.filePath)])];
+    if (merges.some(merge => merge.conflictCount > 0)) {
+      setPendingMerge({ changes: changesToApply, merges, mergedPaths: allMergedPaths, messageIndex, resolution });
+      return;
+    }
+    const mergedContents = new Map(merges.map(merge => [merge.filePath, resolveMerge(merge.regions, [])]));
+    const mergedChanges = changesToApply.map(change => mergedContents.has(change.filePath) ? { ...change, newContent: mergedContents.get(change.filePath)! } : change);
+    applyChanges(mergedChanges, messageIndex, resolution, allMergedPaths);
+  }, [files, applyChanges]);
+
+  const handleResolveMerge = useCallback((contents: Record<string, string>) => {
+    if (!pendingMerge) return;
+    const { changes, merges, mergedPaths, messageIndex, resolution } = pendingMerge;
+    setPendingMerge(null);
+    // The files may have changed again while the conflicts were being resolved. The resolved
+    // content is based on what the dialog showed, so it is checked against the files once more
+    // and merged again (or the dialog reopened) if they moved on.
+    const shownContents = new Map(merges.map(merge => [merge.filePath, merge.current]));
+    const resolvedChanges = changes.map(change => change.filePath in contents
+      ? { ...change, oldContent: shownContents.get(change.filePath) ?? change.oldContent, newContent: contents[change.filePath] }
+      : change);
+    handleApplyChanges(resolvedChanges, messageIndex, resolution, mergedPaths);
+  }, [pendingMerge, handleApplyChanges]);
+
+  const handleRejectChanges = useCallback((messageIndex: number, resolution: ProposalResolution) => {
+    setChatHistory(prev => recordProposalResolution(prev, messageIndex, resolution));
+  }, []);
 
 
   const handleStopGeneration = useCallback(() => {
@@ -411,42 +1349,54 @@ export default function App(): React.ReactElement {
   const handleViewFile = useCallback((file: UploadedFile) => {
     setViewingFile(file);
   }, []);
-  
+
+  const handleOpenSearchResult = useCallback((path: string, lineNumber: number) => {
+    const file = files.find(f => f.path === path);
+    if (file) {
+      setViewingFile(file);
+      setViewingLine(lineNumber);
+    }
+  }, [files]);
+
+  /**
+   * Saves a manual edit made in the file editor. Like an applied proposal, it is recorded
+   * in the history timeline and marks the file as modified.
+   * @param path The edited file.
+   * @param content Its new content.
+   */
+  const handleSaveFile = useCallback((path: string, content: string) => {
+    const savedFile: UploadedFile = { path, content };
+    recordFiles(files.map(f => (f.path === path ? savedFile : f)), `Edited ${path}`);
+    setModifiedFiles(currentModified => ({ ...currentModified, [path]: (currentModified[path] || 0) + 1 }));
+    setViewingFile(savedFile);
+  }, [files, recordFiles]);
+
   const handleViewDiff = useCallback((file: UploadedFile) => {
-    if (fileHistory.length === 0) {
+    if (!previousFiles) {
         // If there's no history, just view the current file.
         setViewingFile(file);
         return;
     }
-    const previousVersion = fileHistory[0].find(f => f.path === file.path);
+    const previousVersion = previousFiles.find(f => f.path === file.path);
     if (previousVersion) {
         setViewingDiff({ oldFile: previousVersion, newFile: file });
     } else {
         // If no previous version is found (e.g., a new file), just view it.
         setViewingFile(file);
     }
-  }, [fileHistory]);
+  }, [previousFiles]);
   
   const handleAddChatMessage = useCallback((content: string) => {
     setChatHistory(prev => [...prev, { role: 'model', content }]);
   }, []);
 
-  const handleRevertFile = useCallback((fileToRevert: UploadedFile) => {
-    if (fileHistory.length === 0) {
-        setChatHistory(prev => [...prev, {
-            role: 'model',
-            content: `Cannot revert "${fileToRevert.path}" as no file history exists.`
-        }]);
-        return;
-    }
-
-    const previousState = fileHistory[0];
-    const oldFile = previousState.find(f => f.path === fileToRevert.path);
-    
-    // If oldFile is undefined, it means the file was created in the current state. Reverting means deleting it.
-    const oldContent = oldFile ? oldFile.content : '';
-
-    if (oldFile && oldContent === fileToRevert.content) {
+  /**
+   * Proposes restoring a file to another version of it, e.g. the one shown in the diff viewer.
+   * @param fileToRevert The current file. Empty content means it no longer exists.
+   * @param targetVersion The version to restore. Empty content means the file is deleted.
+   */
+  const handleRevertFile = useCallback((fileToRevert: UploadedFile, targetVersion: UploadedFile) => {
+    if (targetVersion.content === fileToRevert.content) {
       setChatHistory(prev => [...prev, {
         role: 'model',
         content: `No changes to revert for "${fileToRevert.path}".`
@@ -457,18 +1407,50 @@ export default function App(): React.ReactElement {
     const change: ProposedChange = {
       filePath: fileToRevert.path,
       oldContent: fileToRevert.content, // Current content is the "old" for the diff
-      newContent: oldContent,          // Previous content is the "new" for the revert
+      newContent: targetVersion.content, // Earlier content is the "new" for the revert
     };
 
     setChatHistory(prev => [...prev, {
       role: 'model',
-      content: `I've created a proposal to revert the changes for "${fileToRevert.path}". Please review and apply the change below to restore the previous version.`,
-      proposedChanges: [change]
+      content: `I've created a proposal to revert the changes for "${fileToRevert.path}". Please review and apply the change below to restore the earlier version.`,
+      proposedChanges: [change],
+      proposalLabel: `Reverted ${fileToRevert.path}`,
     }]);
 
     // Close the diff viewer after initiating revert
     setViewingDiff(null);
-  }, [fileHistory]);
+  }, []);
+
+  /**
+   * Moves the project files to another state in the history timeline. Later states are
+   * kept, so they can be restored again (redo).
+   * @param index The position of the snapshot in the timeline.
+   */
+  const handleRestoreSnapshot = useCallback((index: number) => {
+    const target = fileTimeline.snapshots[index];
+    if (!target || index === fileTimeline.currentIndex) return;
+
+    setModifiedFiles(currentModified => markChangedFiles(currentModified, files, target.files));
+    setFiles(target.files);
+    setFileTimeline({ ...fileTimeline, currentIndex: index });
+    setViewingFile(null);
+    setViewingDiff(null);
+    const direction = index < fileTimeline.currentIndex ? 'Undid changes' : 'Redid changes';
+    setChatHistory(prev => [...prev, { role: 'model', content: `${direction}: the project files are now as they were after "${target.label}".` }]);
+  }, [files, fileTimeline]);
+
+  const handleUndo = useCallback(() => {
+    handleRestoreSnapshot(fileTimeline.currentIndex - 1);
+  }, [fileTimeline, handleRestoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    handleRestoreSnapshot(fileTimeline.currentIndex + 1);
+  }, [fileTimeline, handleRestoreSnapshot]);
+
+  const handleCompareSnapshot = useCallback((oldFile: UploadedFile, newFile: UploadedFile) => {
+    setIsHistoryOpen(false);
+    setViewingDiff({ oldFile, newFile });
+  }, []);
 
   const handleGenerateContext = useCallback(async () => {
     if (isLoading) {
@@ -476,7 +1458,8 @@ export default function App(): React.ReactElement {
       return;
     }
 
-    const summaryFiles = files.filter(f => f.path.endsWith('session_summary.md'));
+    // Each thread keeps its own summary, so only this thread's summary files are candidates.
+    const summaryFiles = files.filter(f => f.path.split('/').pop() === activeThread.summaryFileName);
     let targetPath: string | null = null;
 
     if (summaryFiles.length === 0) {
@@ -486,14 +1469,14 @@ export default function App(): React.ReactElement {
             setChatHistory(prev => [...prev, { role: 'model', content: '', error: "Cannot create a context summary. Please upload a project folder first." }]);
             return;
         } else if (projectRoots.length === 1) {
-            targetPath = `${projectRoots[0]}/session_summary.md`;
+            targetPath = `${projectRoots[0]}/${activeThread.summaryFileName}`;
         } else {
             const options = projectRoots.map((p, i) => `${i + 1}: ${p}`).join('\n');
             const choiceStr = window.prompt(`Please choose a project to save the session summary in:\n\n${options}`);
             const choice = parseInt(choiceStr || '', 10) - 1;
 
             if (!isNaN(choice) && choice >= 0 && choice < projectRoots.length) {
-                targetPath = `${projectRoots[choice]}/session_summary.md`;
+                targetPath = `${projectRoots[choice]}/${activeThread.summaryFileName}`;
             } else {
                 if (choiceStr !== null) { // Don't show warning if user clicked "Cancel"
                   setChatHistory(prev => [...prev, { role: 'model', content: '', warning: "Invalid selection. Context generation cancelled." }]);
@@ -529,7 +1512,15 @@ export default function App(): React.ReactElement {
     stopGenerationRef.current = false;
 
     try {
-      const change = await generateContextResponse(chatHistory, files, targetPath);
+      // Fall back to the chat model if the summarization model is no longer offered.
+      const summaryOption = availableModels.find(m => m.id === summaryModel);
+      const modelForSummary = summaryOption ? summaryOption.id : model;
+      // The summary uses the model's settings, except for a temperature of its own.
+      const summarySettings = { ...resolveGenerationSettings(generationSettingsByModel[modelForSummary], summaryOption ?? modelOption), temperature: summaryTemperature };
+      const summaryUsage: UsageRecord[] = [];
+      const change = await generateContextResponse(chatHistory, files, targetPath, modelForSummary, summarySettings, usage => {
+        summaryUsage.push(recordUsage(usage, modelForSummary, 'summary'));
+      });
 
       if (stopGenerationRef.current) {
         throw new Error("Generation stopped by user");
@@ -538,7 +1529,9 @@ export default function App(): React.ReactElement {
       setChatHistory(prev => [...prev, {
         role: 'model',
         content: `I've generated a summary of our session. Please review the proposed change below to save it to ${targetPath}.`,
-        proposedChanges: [change]
+        proposedChanges: [change],
+        proposalLabel: 'Saved session summary',
+        ...(summaryUsage.length > 0 && { usage: summaryUsage }),
       }]);
 
     } catch (err) {
@@ -553,7 +1546,7 @@ export default function App(): React.ReactElement {
       setIsLoading(false);
       stopGenerationRef.current = false;
     }
-  }, [isLoading, chatHistory, files]);
+  }, [isLoading, chatHistory, files, model, modelOption, availableModels, summaryModel, summaryTemperature, generationSettingsByModel, activeThread, recordUsage]);
 
   const handleSaveMemory = useCallback((memory: string) => {
     setIsMemoryEditorOpen(false);
@@ -575,51 +1568,188 @@ export default function App(): React.ReactElement {
     setChatHistory(prev => [...prev, {
       role: 'model',
       content: "I've generated a proposal to update my Memory. Please review and apply the change below to save it.",
-      proposedChanges: [change]
+      proposedChanges: [change],
+      proposalLabel: 'Updated memory',
     }]);
   }, [files]);
 
-  const handlePromptSubmit = useCallback(async (prompt: string, stagedFiles: File[]) => {
+  const availableModelNames = useMemo(() => availableModels.map(m => m.model), [availableModels]);
+
+  const commandContext = useMemo<SlashCommandContext>(() => ({
+    filePaths: files.map(f => f.path),
+    modelNames: availableModelNames,
+  }), [files, availableModelNames]);
+
+  /**
+   * Runs a slash command from the chat input with the app's own handlers, without asking the AI.
+   * @param name The command.
+   * @param args What was typed after the command name, trimmed.
+   */
+  const handleSlashCommand = useCallback((name: SlashCommandName, args: string) => {
+    const addWarning = (warning: string) => setChatHistory(prev => [...prev, { role: 'model', content: '', warning }]);
+
+    switch (name) {
+      case 'undo': {
+        if (!args) {
+          if (fileTimeline.currentIndex === 0) {
+            addWarning('There are no changes to undo.');
+          } else {
+            handleUndo();
+          }
+          return;
+        }
+        const currentFile = files.find(f => f.path === args);
+        const previousVersion = previousFiles?.find(f => f.path === args);
+        if (!previousFiles || (!currentFile && !previousVersion)) {
+          addWarning(`There is no earlier version of "${args}" to revert to.`);
+          return;
+        }
+        // A file that didn't exist before is reverted by deleting it, and a deleted one by restoring it.
+        handleRevertFile(currentFile ?? { path: args, content: '' }, previousVersion ?? { path: args, content: '' });
+        return;
+      }
+      case 'summarize':
+        handleGenerateContext();
+        return;
+      case 'model': {
+        const query = args.toLowerCase();
+        const option = availableModels.find(m => m.id.toLowerCase() === query || m.model.toLowerCase() === query);
+        if (!option) {
+          addWarning(`Unknown model "${args}". Available models: ${availableModels.map(m => m.model).join(', ')}.`);
+          return;
+        }
+        setModel(option.id);
+        handleAddChatMessage(`Switched the model to **${option.model}** (${option.providerLabel}).`);
+        return;
+      }
+      case 'clear':
+        if (chatHistory.length > 0 && window.confirm(`Clear the conversation in "${activeThread.name}"? The project files are kept.`)) {
+          setChatHistory([]);
+          setBranchPoints([]);
+        }
+        return;
+      case 'files': {
+        const isListed = args ? createPathMatcher(args.split(',').map(glob => glob.trim()).filter(Boolean)) : () => true;
+        const paths = files.map(f => f.path).filter(isListed);
+        const heading = args ? `**Files matching** \`${args}\`` : '**Project files**';
+        handleAddChatMessage(paths.length > 0
+          ? `${heading} (${paths.length}):\n\n${paths.map(path => `- \`${path}\``).join('\n')}`
+          : `${heading}: none.`);
+        return;
+      }
+      case 'memory': {
+        const rule = args.match(/^add\s+([\s\S]+)$/i)?.[1].trim();
+        if (!rule) {
+          addWarning('Usage: /memory add <rule>');
+          return;
+        }
+        handleSaveMemory(`${longTermMemory.trimEnd()}${longTermMemory.trim() ? '\n' : ''}- ${rule}\n`);
+        return;
+      }
+      case 'export': {
+        const target = args.toLowerCase().replace(/\s+/g, ' ');
+        if (target === 'zip') {
+          handleExportZip('modified');
+        } else if (target === 'zip all') {
+          handleExportZip('project');
+        } else if (target === 'patch') {
+          handleExportPatch();
+        } else {
+          addWarning('Usage: /export zip [all] | patch');
+        }
+        return;
+      }
+      case 'help':
+        handleAddChatMessage(formatSlashCommandHelp());
+        return;
+    }
+  }, [files, previousFiles, fileTimeline, chatHistory, activeThread, availableModels, longTermMemory, handleUndo, handleRevertFile, handleGenerateContext, handleAddChatMessage, handleSaveMemory, handleExportZip, handleExportPatch]);
+
+  /**
+   * Sends a prompt to the AI and adds its answer to the chat.
+   * @param prompt The user's prompt.
+   * @param stagedFiles Files attached to this prompt only.
+   * @param baseHistory The conversation to continue, when it isn't the current chat
+   *   history (an edited prompt continues from a shortened history).
+   */
+  const handlePromptSubmit = useCallback(async (prompt: string, stagedFiles: File[], baseHistory?: ChatMessage[]) => {
     if (isLoading) return;
+    const history = baseHistory ?? chatHistory;
 
     setIsLoading(true);
     stopGenerationRef.current = false;
     
-    // --- 1. Prepare history and user message ---
-    const prunedHistory = pruneChatHistory(chatHistory);
+    // --- 1. Select the project files for this turn and prepare the user message ---
+    const allFilePaths = files.map(f => f.path);
+    const recentPrompts = history.filter(m => m.role === 'user').slice(-2).map(m => m.content);
+    const mentionedPaths = extractFileMentions(prompt, threadFiles.map(f => f.path));
+    const contextSelection = selectContextFiles(prompt, threadFiles, {
+      tokenBudget: getProjectContextBudget(modelLimits),
+      isPinned: isPinnedContextFile,
+      focusPaths: mentionedPaths,
+      recentPrompts,
+    });
+    const hasProjectFiles = files.some(f => f.path !== MEMORY_FILE_PATH);
+
+    const userMessage: ChatMessage = { 
+      role: 'user', 
+      content: prompt,
+      attachments: stagedFiles.map(f => ({ name: f.name })),
+      ...(mentionedPaths.length > 0 && { mentionedFiles: mentionedPaths.map(path => ({ path })) }),
+      ...(hasProjectFiles && { contextFiles: contextSelection.summary }),
+    };
+
+    // Budget the request against the model's window: system instruction, the new prompt and
+    // its attachments are fixed, so the history gets whatever is left.
+    const systemInstruction = buildSystemInstruction(prompt, contextSelection.files, mentionedPaths, allFilePaths, previousFiles, longTermMemory, null);
+    const fixedBudget = computeContextBudget(modelLimits, estimateTokens(systemInstruction), [userMessage], stagedFiles);
+    const historyTokenBudget = Math.max(0, fixedBudget.inputBudget - fixedBudget.totalTokens);
+    const prunedHistory = pruneHistoryToBudget(history, historyTokenBudget);
     let newMessages: ChatMessage[] = [];
 
-    if (prunedHistory.length < chatHistory.length) {
+    if (fixedBudget.usage > 1) {
+      const warningMessage = `The project files, memory and this prompt alone need about **${formatTokenCount(fixedBudget.totalTokens)} tokens**, more than the **${formatTokenCount(fixedBudget.inputBudget)}** this model can accept. The request may fail or the AI may miss parts of the project. Consider a model with a larger context window or uploading fewer files.`;
+      newMessages.push({ role: 'model', content: '', warning: warningMessage });
+    } else if (prunedHistory.length < history.length) {
       const warningMessage = "To make room for a response, older messages were not sent to the AI. For better long-term context, you can ask the AI to summarize the conversation into a file.";
       newMessages.push({ role: 'model', content: '', warning: warningMessage });
     }
     
-    const userMessage: ChatMessage = { 
-      role: 'user', 
-      content: prompt,
-      attachments: stagedFiles.map(f => ({ name: f.name })) 
-    };
     newMessages.push(userMessage);
     
     const historyForApi = [...prunedHistory, userMessage];
     setChatHistory(prev => [...prev, ...newMessages]);
+    // Every call of this turn, including a self-correction retry, is kept with the reply.
+    const turnUsage: UsageRecord[] = [];
     
     // This inner function handles a single generation attempt.
     const generateAndProcessResponse = async (correctionDirective: string | null = null): Promise<{
       finalMessage: ChatMessage;
       needsCorrection: boolean;
-      correctionReason?: 'ghost' | 'xml';
+      correctionReason?: 'ghost' | 'xml' | 'edit';
+      unmatchedEdits?: UnmatchedEdit[];
     }> => {
-        // --- 2. Accumulate full response in the background ---
-        const responseStream = streamChatResponse(prompt, historyForApi, files, fileHistory, model, stagedFiles, longTermMemory, correctionDirective);
+        // --- 2. Stream the response into the chat as it arrives ---
+        const isCorrection = correctionDirective !== null;
+        setStreamingResponse({ text: '', isCorrection });
+        const responseStream = streamChatResponse(prompt, historyForApi, contextSelection.files, mentionedPaths, allFilePaths, previousFiles, model, generationSettings, stagedFiles, longTermMemory, correctionDirective, usage => {
+            turnUsage.push(recordUsage(usage, model, isCorrection ? 'correction' : 'chat'));
+        });
         let fullModelResponse = '';
+        let lastRenderTime = 0;
         for await (const chunk of responseStream) {
             if (stopGenerationRef.current) {
                 fullModelResponse += '\n\n*(Generation stopped by user)*';
                 break;
             }
             fullModelResponse += chunk;
+            const now = Date.now();
+            if (now - lastRenderTime >= STREAM_RENDER_INTERVAL_MS) {
+                lastRenderTime = now;
+                setStreamingResponse({ text: fullModelResponse, isCorrection });
+            }
         }
+        setStreamingResponse({ text: fullModelResponse, isCorrection });
 
         // --- 3. Process the complete response ---
         const changeBlockRegex = /<changes.*?>[\s\S]*?<\/changes>/;
@@ -641,7 +1771,12 @@ export default function App(): React.ReactElement {
         let proposedChanges: ProposedChange[] | undefined = undefined;
         if (xmlPart) {
             try {
-                const parsedChanges = parseFileChangesFromXml(xmlPart, files);
+                const { changes: parsedChanges, unmatchedEdits } = parseFileChangesFromXml(xmlPart, files);
+                if (unmatchedEdits.length > 0) {
+                    // An edit whose search text doesn't exist in the file can't be applied safely.
+                    console.warn(`Detected ${unmatchedEdits.length} unmatched search block(s). Triggering self-correction.`);
+                    return { finalMessage: { role: 'model', content: '' }, needsCorrection: true, correctionReason: 'edit', unmatchedEdits };
+                }
                 if (parsedChanges.length > 0) {
                     proposedChanges = parsedChanges;
                 } else if (xmlPart.includes('<change')) {
@@ -682,6 +1817,23 @@ export default function App(): React.ReactElement {
                  correctionDirective = `A critical instruction was violated in your last response. You provided a \`<changes>\` XML block, but it was malformed or incomplete, and the application could not parse it.
 
 **Mandatory Action for this next attempt:** Review your previous output, identify the XML error, and provide the complete and perfectly-formed \`<changes>\` XML block containing the full file content as per your instructions. This is not optional.`;
+            } else if (result.correctionReason === 'edit') {
+                 const failedEdits = (result.unmatchedEdits ?? []).map(edit => {
+                    if (edit.reason === 'empties-file') {
+                        return `- File \`${edit.filePath}\`: the edits would leave the file empty, and an empty file means deleting it. To delete the file, use an empty \`<content>\` block; otherwise keep at least some of its content.`;
+                    }
+                    const reason = edit.reason === 'missing-file'
+                        ? 'the file does not exist, so it cannot be edited'
+                        : edit.reason === 'malformed'
+                            ? 'the <edit> block is missing a <search> or <replace> tag'
+                            : 'this text was not found in the current file';
+                    return `- File \`${edit.filePath}\`: ${reason}.\n  Search text:\n\`\`\`\n${edit.search}\n\`\`\``;
+                 }).join('\n');
+                 correctionDirective = `A critical instruction was violated in your last response. One or more \`<edit>\` blocks could not be applied:
+
+${failedEdits}
+
+**Mandatory Action for this next attempt:** Provide the complete \`<changes>\` XML block again. Every \`<search>\` block MUST be copied character-for-character from the current file in PROJECT FILES. If you cannot quote the existing code exactly, or the file does not exist yet, use the Full Content method (\`<content>\`) for that file instead. This is not optional.`;
             } else { // 'ghost' or default
                  correctionDirective = `A critical instruction was violated in your last response. You implied a file modification (e.g., using words like 'updated', 'changed', 'fixed') but did not include the mandatory \`<changes>\` XML block.
 
@@ -701,14 +1853,25 @@ The AI's response was blocked because it repeatedly failed to provide valid code
 To the AI (Self-Correction Directive for next attempt):
 You have failed twice to follow a critical instruction. You MUST provide the \`<changes>\` XML block when you modify files. This rule is absolute.`;
 
-              setChatHistory(prev => [...prev, { role: 'model', content: '', error: hardFailureError }]);
+              setChatHistory(prev => [...prev, { role: 'model', content: '', error: hardFailureError, ...(turnUsage.length > 0 && { usage: turnUsage }) }]);
               return; // Exit after setting the error
             }
         }
 
         // --- Success ---
         // If we reach here, either the first or the second attempt was successful.
-        setChatHistory(prev => [...prev, result.finalMessage]);
+        setChatHistory(prev => [...prev, { ...result.finalMessage, ...(turnUsage.length > 0 && { usage: turnUsage }) }]);
+
+        // The proposal is shown right away; its syntax errors are added once the worker has checked the files.
+        const proposedChanges = result.finalMessage.proposedChanges;
+        if (proposedChanges) {
+            validateProposedChanges(proposedChanges).then(validatedChanges => {
+                if (validatedChanges === proposedChanges) return;
+                setChatHistory(prev => prev.map(message =>
+                    message.proposedChanges === proposedChanges ? { ...message, proposedChanges: validatedChanges } : message
+                ));
+            });
+        }
 
     } catch (err) {
       console.error("Chat generation error:", err);
@@ -747,12 +1910,131 @@ You have failed twice to follow a critical instruction. You MUST provide the \`<
       }
       
       const errorMessage = `An error occurred while generating a response: ${detail}`;
-      setChatHistory(prev => [...prev, {role: 'model', content: '', error: errorMessage}]);
+      setChatHistory(prev => [...prev, {role: 'model', content: '', error: errorMessage, ...(turnUsage.length > 0 && { usage: turnUsage })}]);
     } finally {
+      setStreamingResponse(null);
       setIsLoading(false);
       stopGenerationRef.current = false;
     }
-  }, [isLoading, chatHistory, files, fileHistory, model, longTermMemory]);
+  }, [isLoading, chatHistory, files, threadFiles, previousFiles, model, generationSettings, modelLimits, longTermMemory, recordUsage]);
+
+  /**
+   * Sends the syntax errors found in a message's proposed files back to the AI, asking for
+   * corrected files. The flawed proposal stays in the chat until it is applied or rejected.
+   * @param messageIndex The index of the message with the proposal.
+   */
+  const handleFixDiagnostics = useCallback((messageIndex: number) => {
+    const changes = chatHistory[messageIndex]?.proposedChanges;
+    if (isLoading || !changes?.some(change => change.diagnostics && change.diagnostics.length > 0)) return;
+    handlePromptSubmit(formatDiagnosticsCorrection(changes), []);
+  }, [isLoading, chatHistory, handlePromptSubmit]);
+
+  /**
+   * Resends an edited user message as a new branch of the conversation. The previous
+   * continuation is kept, and can be shown again with the branch switcher.
+   * @param messageIndex The index of the user message that was edited.
+   * @param prompt The edited prompt.
+   */
+  const handleEditPrompt = useCallback((messageIndex: number, prompt: string) => {
+    if (isLoading || chatHistory[messageIndex]?.role !== 'user') return;
+    const branched = branchConversation(chatHistory, branchPoints, messageIndex);
+    setChatHistory(branched.chatHistory);
+    setBranchPoints(branched.branchPoints);
+    // Attachments were only kept for the original request, so the edited prompt is sent without them.
+    handlePromptSubmit(prompt, [], branched.chatHistory);
+  }, [isLoading, chatHistory, branchPoints, handlePromptSubmit]);
+
+  /**
+   * Shows another version of the conversation from an edited user message, with the
+   * proposal resolutions recorded on it. The project files are left as they are.
+   * @param messageIndex The index of the user message the branches start at.
+   * @param branchIndex The branch to show.
+   */
+  const handleSwitchBranch = useCallback((messageIndex: number, branchIndex: number) => {
+    if (isLoading) return;
+    const switched = switchBranch(chatHistory, branchPoints, messageIndex, branchIndex);
+    if (!switched) return;
+    setChatHistory(switched.chatHistory);
+    setBranchPoints(switched.branchPoints);
+  }, [isLoading, chatHistory, branchPoints]);
+
+  /**
+   * Applies the proposals that were applied on the shown version of the conversation,
+   * from an edited user message on, to the current files again. Files that changed since
+   * are merged like any stale proposal.
+   * @param messageIndex The index of the user message the branches start at.
+   */
+  const handleReapplyBranch = useCallback((messageIndex: number) => {
+    if (isLoading) return;
+    const contentByPath = new Map(files.map(f => [f.path, f.content]));
+    const changes = collectAppliedChanges(chatHistory.slice(messageIndex));
+    // Leave out what the files already have, e.g. when nothing changed since the proposals were applied.
+    const changesToApply = changes.filter(change =>
+      (contentByPath.get(change.filePath) ?? '') !== change.newContent || (change.renamedFrom !== undefined && contentByPath.has(change.renamedFrom)));
+    if (changesToApply.length === 0) {
+      const notice = changes.length === 0
+        ? 'No proposals were applied on this version of the conversation.'
+        : "The project files already have this version's applied proposals.";
+      setChatHistory(prev => [...prev, { role: 'model', content: notice }]);
+      return;
+    }
+    handleApplyChanges(changesToApply);
+  }, [isLoading, files, chatHistory, handleApplyChanges]);
+
+  const handleSwitchThread = useCallback((threadId: string) => {
+    if (isLoading || threadId === activeThreadId) return;
+    const switched = switchThread({ threads, chatHistory, branchPoints }, activeThreadId, threadId);
+    if (!switched) return;
+    setThreads(switched.threads);
+    setChatHistory(switched.chatHistory);
+    setBranchPoints(switched.branchPoints);
+    setActiveThreadId(threadId);
+  }, [isLoading, threads, activeThreadId, chatHistory, branchPoints]);
+
+  /**
+   * Starts a new thread over the same project files and switches to it.
+   */
+  const handleCreateThread = useCallback(() => {
+    if (isLoading) return;
+    const name = getNextThreadName(threads);
+    const newThread = createThread(name, threads);
+    const thread: ChatThread = {
+      ...newThread,
+      chatHistory: [{
+        role: 'model',
+        content: `This is the **${name}** thread. It works on the same project files as your other threads, but has its own conversation and its own session summary (\`${newThread.summaryFileName}\`).`,
+      }],
+    };
+    const switched = switchThread({ threads: [...threads, thread], chatHistory, branchPoints }, activeThreadId, thread.id);
+    if (!switched) return;
+    setThreads(switched.threads);
+    setChatHistory(switched.chatHistory);
+    setBranchPoints(switched.branchPoints);
+    setActiveThreadId(thread.id);
+  }, [isLoading, threads, activeThreadId, chatHistory, branchPoints]);
+
+  const handleRenameThread = useCallback((threadId: string, name: string) => {
+    setThreads(prev => prev.map(thread => (thread.id === threadId ? { ...thread, name } : thread)));
+  }, []);
+
+  /**
+   * Deletes a thread and its conversation. The project files, including the thread's
+   * session summary, are left as they are. The last thread can't be deleted.
+   */
+  const handleDeleteThread = useCallback((threadId: string) => {
+    if (isLoading || threads.length <= 1) return;
+    let remaining = threads.filter(thread => thread.id !== threadId);
+    if (threadId === activeThreadId) {
+      // Show the neighbouring thread instead, preferring the one before.
+      const deletedIndex = threads.findIndex(thread => thread.id === threadId);
+      const next = remaining[Math.max(0, deletedIndex - 1)];
+      setChatHistory(next.chatHistory);
+      setBranchPoints(next.branchPoints);
+      setActiveThreadId(next.id);
+      remaining = remaining.map(thread => (thread.id === next.id ? { ...thread, chatHistory: [], branchPoints: [] } : thread));
+    }
+    setThreads(remaining);
+  }, [isLoading, threads, activeThreadId]);
 
   return (
     <div className="flex flex-col h-full bg-gray-900">
@@ -761,38 +2043,156 @@ You have failed twice to follow a critical instruction. You MUST provide the \`<
           files={files} 
           modifiedFiles={modifiedFiles}
           model={model}
+          availableModels={availableModels}
+          modelListErrors={modelListErrors}
           isLoading={isLoading}
+          onModelChange={setModel}
+          onOpenModelSettings={() => setIsModelSettingsOpen(true)}
           onFileUpload={handleFileUpload}
+          canOpenFolder={isLocalFolderSupported()}
+          localFolderName={localFolder?.name ?? null}
+          onOpenFolder={handleOpenFolder}
+          onReloadFolder={handleReloadFolder}
+          onDisconnectFolder={handleDisconnectFolder}
           onViewFile={handleViewFile}
           onViewDiff={handleViewDiff}
           onAddChatMessage={handleAddChatMessage}
           onAcknowledgeFileChange={handleAcknowledgeFileChange}
           onGenerateContext={handleGenerateContext}
           onEditMemory={() => setIsMemoryEditorOpen(true)}
+          onManageWorkspaces={handleOpenWorkspaceManager}
+          onOpenHistory={() => setIsHistoryOpen(true)}
+          onOpenSearch={() => setIsSearchOpen(open => !open)}
+          onExportZip={handleExportZip}
+          onExportPatch={() => handleExportPatch()}
         />
-        <main className="flex-1 flex flex-col">
-          <ChatInterface 
-            chatHistory={chatHistory} 
+        {isSearchOpen && (
+          <SearchPanel
+            files={files}
+            isLoading={isLoading}
+            onOpenResult={handleOpenSearchResult}
+            onSendToChat={handleAddChatMessage}
+            onClose={() => setIsSearchOpen(false)}
+          />
+        )}
+        <main className="flex-1 flex flex-col min-w-0">
+          <ThreadTabs
+            threads={threads}
+            activeThreadId={activeThreadId}
             isLoading={isLoading}
-            onPromptSubmit={handlePromptSubmit}
-            onApplyChanges={handleApplyChanges}
-            onStopGeneration={handleStopGeneration}
+            onSwitch={handleSwitchThread}
+            onCreate={handleCreateThread}
+            onRename={handleRenameThread}
+            onDelete={handleDeleteThread}
           />
+          {/* Each thread gets a fresh chat view, with its own draft prompt and prompt history. */}
+          <React.Fragment key={activeThreadId}>
+            <ChatInterface 
+              chatHistory={chatHistory} 
+              branchPoints={branchPoints}
+              isLoading={isLoading}
+              streamingResponse={streamingResponse}
+              modelLimits={modelLimits}
+              systemInstructionTokens={systemInstructionTokens}
+              onPromptSubmit={handlePromptSubmit}
+              commandContext={commandContext}
+              onRunCommand={handleSlashCommand}
+              onEditPrompt={handleEditPrompt}
+              onSwitchBranch={handleSwitchBranch}
+              onReapplyBranch={handleReapplyBranch}
+              onApplyChanges={handleApplyChanges}
+              onRejectChanges={handleRejectChanges}
+              onExportPatch={handleExportPatch}
+              onFixDiagnostics={handleFixDiagnostics}
+              diffOptions={diffOptions}
+              onDiffOptionsChange={handleDiffOptionsChange}
+              onStopGeneration={handleStopGeneration}
+              usageLog={usageLog}
+              priceTable={priceTable}
+              onOpenUsage={() => setIsUsagePanelOpen(true)}
+            />
+          </React.Fragment>
         </main>
       </div>
 
-      <FileViewer file={viewingFile} onClose={() => setViewingFile(null)} />
+      <FileViewer
+        file={viewingFile}
+        line={viewingLine}
+        onSave={handleSaveFile}
+        onClose={() => {
+          setViewingFile(null);
+          setViewingLine(null);
+        }}
+      />
       <FileDiffViewer 
         diff={viewingDiff} 
+        diffOptions={diffOptions}
+        onDiffOptionsChange={handleDiffOptionsChange}
         onClose={() => setViewingDiff(null)} 
         onRevert={handleRevertFile}
       />
+      <ModelSettingsDialog
+        isOpen={isModelSettingsOpen}
+        model={model}
+        availableModels={availableModels}
+        settings={generationSettings}
+        presets={generationPresets}
+        summaryModel={summaryModel}
+        summaryTemperature={summaryTemperature}
+        onSettingsChange={handleGenerationSettingsChange}
+        onResetSettings={handleResetGenerationSettings}
+        onSavePreset={handleSaveGenerationPreset}
+        onApplyPreset={handleApplyGenerationPreset}
+        onDeletePreset={handleDeleteGenerationPreset}
+        onSummaryModelChange={handleSummaryModelChange}
+        onSummaryTemperatureChange={handleSummaryTemperatureChange}
+        onClose={() => setIsModelSettingsOpen(false)}
+      />
+      <UsagePanel
+        isOpen={isUsagePanelOpen}
+        usageLog={usageLog}
+        priceTable={priceTable}
+        modelNames={availableModelNames}
+        onPriceTableChange={handlePriceTableChange}
+        onClose={() => setIsUsagePanelOpen(false)}
+      />
       <MemoryEditor
         isOpen={isMemoryEditorOpen}
         onClose={() => setIsMemoryEditorOpen(false)}
         onSave={handleSaveMemory}
         memory={longTermMemory}
       />
+      <WorkspaceManager
+        isOpen={isWorkspaceManagerOpen}
+        workspaces={savedWorkspaces}
+        activeWorkspaceId={workspaceId}
+        onClose={() => setIsWorkspaceManagerOpen(false)}
+        onOpen={handleOpenWorkspace}
+        onDelete={handleDeleteWorkspace}
+        onNew={handleNewWorkspace}
+      />
+      <HistoryTimeline
+        isOpen={isHistoryOpen}
+        timeline={fileTimeline}
+        currentFiles={files}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={handleRestoreSnapshot}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onCompare={handleCompareSnapshot}
+      />
+      <MergeConflictDialog
+        merges={pendingMerge?.merges ?? null}
+        onApply={handleResolveMerge}
+        onCancel={() => setPendingMerge(null)}
+      />
+      <UploadReviewDialog
+        plan={pendingUpload?.plan ?? null}
+        ignorePatterns={ignorePatterns}
+        onIgnorePatternsChange={handleIgnorePatternsChange}
+        onConfirm={handleConfirmUpload}
+        onCancel={() => setPendingUpload(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
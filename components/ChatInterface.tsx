@@ -1,20 +1,60 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { diffLines } from 'diff';
-import type { ChatMessage as ChatMessageType, ProposedChange } from '../types';
+import type { ChatMessage as ChatMessageType, ProposedChange, ProposalResolution, StreamingResponse, ChatBranchPoint, DiffOptions, UsageRecord, PriceTable } from '../types';
 import { ChatMessage } from './ChatMessage';
+import type { ModelLimits } from '../utils/contextBudget';
+import { computeContextBudget, formatTokenCount, YELLOW_USAGE_THRESHOLD, RED_USAGE_THRESHOLD } from '../utils/contextBudget';
+import { downloadBlob, formatFileTimestamp } from '../utils/download';
+import { summarizeUsage, formatCost } from '../utils/usageCost';
+import { findMentionAtCursor, getMentionSuggestions } from '../utils/fileMentions';
+import { isSlashCommandInput, isPartialCommandName, parseSlashCommand, getSlashCommandSuggestions, type SlashCommandContext, type SlashCommandName, type SlashCommandSuggestion } from '../utils/slashCommands';
 import { SendIcon, ExportIcon, StopIcon, ThoughtIcon, PaperclipIcon, FileIcon, CloseIcon } from './Icons';
 
+// A suggestion for the input: a slash command or an @-mentioned file.
+interface InputSuggestion extends SlashCommandSuggestion {
+  // Where the cursor goes after picking it; the end of the input when not given.
+  cursor?: number;
+}
+
 interface ChatInterfaceProps {
   chatHistory: ChatMessageType[];
+  branchPoints: ChatBranchPoint[];
   isLoading: boolean;
+  streamingResponse: StreamingResponse | null;
+  modelLimits: ModelLimits;
+  systemInstructionTokens: number;
   onPromptSubmit: (prompt: string, stagedFiles: File[]) => void;
-  onApplyChanges: (changes: ProposedChange[]) => void;
+  // What slash command arguments and @-mentions are completed from.
+  commandContext: SlashCommandContext;
+  onRunCommand: (name: SlashCommandName, args: string) => void;
+  onEditPrompt: (messageIndex: number, prompt: string) => void;
+  onSwitchBranch: (messageIndex: number, branchIndex: number) => void;
+  onReapplyBranch: (messageIndex: number) => void;
+  onApplyChanges: (changes: ProposedChange[], messageIndex: number, resolution: ProposalResolution) => void;
+  onRejectChanges: (messageIndex: number, resolution: ProposalResolution) => void;
+  onExportPatch: (messageIndex: number) => void;
+  // Asks the AI to fix the syntax errors found in a message's proposed files.
+  onFixDiagnostics: (messageIndex: number) => void;
+  diffOptions: DiffOptions;
+  onDiffOptionsChange: (options: DiffOptions) => void;
   onStopGeneration: () => void;
+  // Every model call of the session, for the cost shown in the header.
+  usageLog: UsageRecord[];
+  priceTable: PriceTable;
+  onOpenUsage: () => void;
 }
 
-export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyChanges, onStopGeneration }: ChatInterfaceProps): React.ReactElement => {
+export const ChatInterface = ({ chatHistory, branchPoints, isLoading, streamingResponse, modelLimits, systemInstructionTokens, onPromptSubmit, commandContext, onRunCommand, onEditPrompt, onSwitchBranch, onReapplyBranch, onApplyChanges, onRejectChanges, onExportPatch, onFixDiagnostics, diffOptions, onDiffOptionsChange, onStopGeneration, usageLog, priceTable, onOpenUsage }: ChatInterfaceProps): React.ReactElement => {
   const [prompt, setPrompt] = useState('');
   const [stagedFiles, setStagedFiles] = useState<File[]>([]);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  // Whether the user picked a suggestion with the arrow keys since the input last changed.
+  const [hasMovedSuggestion, setHasMovedSuggestion] = useState(false);
+  const [areSuggestionsDismissed, setAreSuggestionsDismissed] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  // Where to put the cursor once a picked suggestion is in the input.
+  const pendingCursorRef = useRef<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -26,18 +66,32 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
   
   const [historyIndex, setHistoryIndex] = useState(userPrompts.length);
 
+  const sessionUsage = useMemo(() => summarizeUsage(usageLog, priceTable).total, [usageLog, priceTable]);
+
   // When userPrompts array updates (a new message is sent), reset the history index
   useEffect(() => {
     setHistoryIndex(userPrompts.length);
   }, [userPrompts.length]);
 
+  const branchPointsByIndex = useMemo(
+    () => new Map(branchPoints.map(point => [point.messageIndex, point])),
+    [branchPoints]
+  );
+
+  // Messages are keyed by the branches they sit on, so switching branch gives the
+  // messages of the other branch fresh state (e.g. their hunk selection).
+  const messageKeys = useMemo(() => chatHistory.map((_, index) => {
+    const path = branchPoints.filter(point => point.messageIndex <= index).map(point => point.activeBranch).join('.');
+    return path ? `${index}@${path}` : String(index);
+  }), [chatHistory, branchPoints]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [chatHistory]);
+  }, [chatHistory, streamingResponse]);
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -57,36 +111,35 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
         const length = textareaRef.current.value.length;
         textareaRef.current.selectionStart = length;
         textareaRef.current.selectionEnd = length;
+        setCursor(length);
     }
   }, [prompt, historyIndex, userPrompts.length]);
 
   const { status, tooltip, percentage } = useMemo(() => {
-    const totalChars = chatHistory.reduce((acc, msg) => acc + (msg.content?.length || 0), 0);
-    const YELLOW_THRESHOLD = 15000;
-    const RED_THRESHOLD = 25000;
-
-    const percentage = Math.min(100, Math.round((totalChars / RED_THRESHOLD) * 100));
+    const budget = computeContextBudget(modelLimits, systemInstructionTokens, chatHistory, stagedFiles);
+    const percentage = Math.min(100, Math.round(budget.usage * 100));
+    const breakdown = `~${formatTokenCount(budget.totalTokens)} of ${formatTokenCount(budget.inputBudget)} tokens (project & instructions ${formatTokenCount(budget.systemTokens)}, conversation ${formatTokenCount(budget.historyTokens)}, attachments ${formatTokenCount(budget.attachmentTokens)}; ${formatTokenCount(budget.reservedForOutput)} reserved for the reply).`;
 
-    if (totalChars > RED_THRESHOLD) {
+    if (budget.usage > RED_USAGE_THRESHOLD) {
       return {
         status: 'red',
-        tooltip: `Context health: ${percentage}%. Warning: The conversation is very long, and the AI may have lost context from earlier messages. It's highly recommended to save a session summary to continue effectively.`,
+        tooltip: `Context health: ${percentage}%, ${breakdown} Warning: The context is nearly full, and older messages will not be sent to the AI. It's highly recommended to save a session summary to continue effectively.`,
         percentage,
       };
     }
-    if (totalChars > YELLOW_THRESHOLD) {
+    if (budget.usage > YELLOW_USAGE_THRESHOLD) {
       return {
         status: 'yellow',
-        tooltip: `Context health: ${percentage}%. The conversation is getting long. The AI might start to lose context soon. Consider saving a session summary to keep it focused.`,
+        tooltip: `Context health: ${percentage}%, ${breakdown} The context is filling up. The AI might start to lose context soon. Consider saving a session summary to keep it focused.`,
         percentage,
       };
     }
     return {
       status: 'green',
-      tooltip: `Context health: ${percentage}%. Context is healthy.`,
+      tooltip: `Context health: ${percentage}%, ${breakdown} Context is healthy.`,
       percentage,
     };
-  }, [chatHistory]);
+  }, [chatHistory, stagedFiles, modelLimits, systemInstructionTokens]);
 
   const indicatorColor = {
     green: 'bg-green-500',
@@ -103,8 +156,57 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
   const indicatorPulse = status === 'yellow' || status === 'red' ? 'animate-pulse' : '';
 
 
+  const commandSuggestions = useMemo(
+    () => (areSuggestionsDismissed ? [] : getSlashCommandSuggestions(prompt, commandContext)),
+    [prompt, commandContext, areSuggestionsDismissed]
+  );
+
+  const suggestions = useMemo<InputSuggestion[]>(() => {
+    if (commandSuggestions.length > 0) return commandSuggestions;
+    const mention = areSuggestionsDismissed || isSlashCommandInput(prompt) ? null : findMentionAtCursor(prompt, cursor);
+    if (!mention) return [];
+    return getMentionSuggestions(mention.query, commandContext.filePaths).map(path => {
+      const before = `${prompt.slice(0, mention.start)}@${path} `;
+      return { value: before + prompt.slice(cursor).replace(/^\s+/, ''), label: `@${path}`, hint: 'Always sent to the AI with this prompt', cursor: before.length };
+    });
+  }, [commandSuggestions, prompt, cursor, commandContext, areSuggestionsDismissed]);
+
+  useEffect(() => {
+    if (pendingCursorRef.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+      setCursor(pendingCursorRef.current);
+      pendingCursorRef.current = null;
+    }
+  }, [prompt]);
+
+  /**
+   * Runs a slash command typed in the input. Attachments stay staged for the next prompt.
+   */
+  const runCommand = (input: string) => {
+    const parsed = parseSlashCommand(input);
+    if (parsed.type === 'error') {
+      setCommandError(parsed.message);
+      return;
+    }
+    onRunCommand(parsed.command.name, parsed.args);
+    setPrompt('');
+  };
+
+  const acceptSuggestion = (suggestion: InputSuggestion) => {
+    pendingCursorRef.current = suggestion.cursor ?? suggestion.value.length;
+    setPrompt(suggestion.value);
+    setSuggestionIndex(0);
+    setHasMovedSuggestion(false);
+    setCommandError(null);
+    textareaRef.current?.focus();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSlashCommandInput(prompt) && !isLoading) {
+      runCommand(prompt);
+      return;
+    }
     if ((prompt.trim() || stagedFiles.length > 0) && !isLoading) {
       onPromptSubmit(prompt.trim(), stagedFiles);
       setPrompt('');
@@ -133,7 +235,9 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
       if (message.proposedChanges && message.proposedChanges.length > 0) {
         content += '\n\n### Proposed File Changes\n\n';
         message.proposedChanges.forEach(change => {
-          content += `**File: \`${change.filePath}\`**\n\n`;
+          content += change.renamedFrom
+            ? `**File: \`${change.renamedFrom}\` → \`${change.filePath}\`**\n\n`
+            : `**File: \`${change.filePath}\`**\n\n`;
           content += '```diff\n';
           const diffResult = diffLines(change.oldContent, change.newContent);
           diffResult.forEach(part => {
@@ -152,19 +256,8 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
       return content;
     }).join('\n\n---\n\n');
 
-    const now = new Date();
-    const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}-${String(now.getMinutes()).padStart(2, '0')}-${String(now.getSeconds()).padStart(2, '0')}`;
-    const filename = `gemini-chat-${timestamp}.md`;
-
     const blob = new Blob([markdownContent], { type: 'text/markdown;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `gemini-chat-${formatFileTimestamp()}.md`);
   };
 
   const handleSaveProposal = (messageIndex: number) => {
@@ -205,7 +298,9 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
       if (message.proposedChanges && message.proposedChanges.length > 0) {
         content += '### Proposed File Changes\n\n';
         message.proposedChanges.forEach(change => {
-          content += `**File: \`${change.filePath}\`**\n\n`;
+          content += change.renamedFrom
+            ? `**File: \`${change.renamedFrom}\` → \`${change.filePath}\`**\n\n`
+            : `**File: \`${change.filePath}\`**\n\n`;
           content += '```diff\n';
           const diffResult = diffLines(change.oldContent, change.newContent);
           diffResult.forEach(part => {
@@ -226,19 +321,8 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
 
     const markdownContent = `# AI Proposal for Review\n\n${markdownBody}`;
 
-    const now = new Date();
-    const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}_${String(now.getHours()).padStart(2, '0')}-${String(now.getMinutes()).padStart(2, '0')}-${String(now.getSeconds()).padStart(2, '0')}`;
-    const filename = `proposal-for-review-${timestamp}.md`;
-
     const blob = new Blob([markdownContent], { type: 'text/markdown;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `proposal-for-review-${formatFileTimestamp()}.md`);
   };
 
   const handleAttachClick = () => {
@@ -260,11 +344,47 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
   
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setPrompt(e.target.value);
+    setCursor(e.target.selectionStart);
     // If user types, break out of history navigation mode
     setHistoryIndex(userPrompts.length);
+    setCommandError(null);
+    setSuggestionIndex(0);
+    setHasMovedSuggestion(false);
+    setAreSuggestionsDismissed(false);
   };
   
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter runs a complete command as typed unless a suggestion was picked with the arrow keys;
+    // the highlighted suggestion may be longer than what was typed (e.g. "/undo src/a.ts").
+    // A partly typed command name (e.g. "/und") takes the highlighted suggestion instead.
+    const isTypedCommand = commandSuggestions.length > 0 && !hasMovedSuggestion && !isPartialCommandName(prompt);
+    // Otherwise, while suggestions are shown, the arrow keys, Tab and Enter work on them.
+    if (suggestions.length > 0 && !(e.key === 'Enter' && isTypedCommand)) {
+      const selected = suggestions[Math.min(suggestionIndex, suggestions.length - 1)];
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        const step = e.key === 'ArrowUp' ? -1 : 1;
+        setSuggestionIndex((suggestionIndex + step + suggestions.length) % suggestions.length);
+        setHasMovedSuggestion(true);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+        e.preventDefault();
+        // A command without arguments runs straight away; others wait for their arguments.
+        if (e.key === 'Enter' && commandSuggestions.length > 0 && !selected.value.endsWith(' ')) {
+          runCommand(selected.value);
+        } else {
+          acceptSuggestion(selected);
+        }
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setAreSuggestionsDismissed(true);
+        return;
+      }
+    }
+
     // History navigation
     if (e.key === 'ArrowUp') {
       // Allow navigation only if textarea is empty, or if we are already navigating
@@ -295,7 +415,7 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
   };
 
   return (
-    <div className="flex flex-col h-full">
+    <div className="flex flex-col flex-1 min-h-0">
       <div className="p-4 border-b border-gray-700/50 flex justify-between items-center flex-shrink-0">
         <div className="flex items-center gap-3">
           <h2 className="text-xl font-semibold text-gray-200">Chat</h2>
@@ -311,6 +431,14 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
               {percentage}%
             </span>
           </div>
+          <button
+            onClick={onOpenUsage}
+            className="text-xs font-mono text-gray-400 hover:text-indigo-300 px-1.5 py-0.5 rounded hover:bg-gray-700 transition-colors"
+            title={`${sessionUsage.calls} AI call(s) this session, ${formatTokenCount(sessionUsage.promptTokens)} input and ${formatTokenCount(sessionUsage.outputTokens + sessionUsage.thinkingTokens)} output tokens. Click for details.`}
+            aria-label="Show session usage"
+          >
+            ~{formatCost(sessionUsage.cost)}{sessionUsage.unpricedCalls > 0 && '*'}
+          </button>
         </div>
         <button
           onClick={handleExportChat}
@@ -324,11 +452,23 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
       <div className="flex-1 overflow-y-auto p-6 space-y-6">
         {chatHistory.map((message, index) => (
             <ChatMessage
-              key={index}
+              key={messageKeys[index]}
               index={index}
               message={message}
+              canEdit={!isLoading}
+              branchIndex={branchPointsByIndex.get(index)?.activeBranch}
+              branchCount={branchPointsByIndex.get(index)?.branches.length}
+              onEditPrompt={onEditPrompt}
+              onSwitchBranch={onSwitchBranch}
+              onReapplyBranch={onReapplyBranch}
               onApplyChanges={onApplyChanges}
+              onRejectChanges={onRejectChanges}
               onSaveProposal={handleSaveProposal}
+              onExportPatch={onExportPatch}
+              onFixDiagnostics={onFixDiagnostics}
+              diffOptions={diffOptions}
+              onDiffOptionsChange={onDiffOptionsChange}
+              priceTable={priceTable}
             />
           )
         )}
@@ -338,8 +478,14 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
             index={chatHistory.length}
             message={{ role: 'model', content: '' }}
             isLoading={true}
+            streamingResponse={streamingResponse}
             onApplyChanges={() => {}}
+            onRejectChanges={() => {}}
             onSaveProposal={() => {}}
+            onExportPatch={() => {}}
+            diffOptions={diffOptions}
+            onDiffOptionsChange={onDiffOptionsChange}
+            priceTable={priceTable}
           />
         )}
         <div ref={messagesEndRef} />
@@ -374,7 +520,35 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
                 ))}
               </div>
             )}
+            {commandError && (
+              <p className="pb-2 text-sm text-red-400" role="alert">{commandError}</p>
+            )}
             <div className="relative">
+              {suggestions.length > 0 && (
+                <ul
+                  className="absolute bottom-full left-0 right-0 mb-2 bg-gray-800 border border-gray-600 rounded-lg shadow-2xl overflow-hidden z-20"
+                  role="listbox"
+                  aria-label={commandSuggestions.length > 0 ? 'Commands' : 'Project files'}
+                >
+                  {suggestions.map((suggestion, index) => (
+                    <li
+                      key={suggestion.value}
+                      role="option"
+                      aria-selected={index === suggestionIndex}
+                      onMouseDown={(e) => {
+                        // Keep the focus in the textarea.
+                        e.preventDefault();
+                        acceptSuggestion(suggestion);
+                      }}
+                      onMouseEnter={() => setSuggestionIndex(index)}
+                      className={`px-3 py-1.5 flex items-baseline gap-3 cursor-pointer text-sm ${index === suggestionIndex ? 'bg-indigo-600/40' : ''}`}
+                    >
+                      <span className="font-mono text-gray-100 truncate">{suggestion.label}</span>
+                      <span className="text-xs text-gray-400 truncate">{suggestion.hint}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
               <input 
                 type="file" 
                 ref={fileInputRef} 
@@ -388,7 +562,8 @@ export const ChatInterface = ({ chatHistory, isLoading, onPromptSubmit, onApplyC
                 value={prompt}
                 onChange={handlePromptChange}
                 onKeyDown={handleKeyDown}
-                placeholder="Ask me anything, or upload a project to discuss your code..."
+                onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+                placeholder="Ask me anything, type @ to mention a file or / for commands..."
                 className="w-full bg-gray-700 text-gray-200 rounded-lg p-3 pl-12 pr-12 resize-none focus:ring-2 focus:ring-indigo-500 focus:outline-none placeholder-gray-400"
                 rows={1}
                 disabled={isLoading}
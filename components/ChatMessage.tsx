@@ -1,35 +1,163 @@
-import React, { useState, memo } from 'react';
-import { GeminiIcon, WarningIcon, FileIcon, SaveIcon, CheckIcon } from './Icons';
-import type { ChatMessage as ChatMessageType, ProposedChange } from '../types';
+import React, { useState, useMemo, memo } from 'react';
+import { GeminiIcon, WarningIcon, FileIcon, SaveIcon, CheckIcon, DownloadIcon, PencilIcon, ChevronLeftIcon, ChevronRightIcon } from './Icons';
+import type { ChatMessage as ChatMessageType, ProposedChange, ProposalResolution, ContextFileReason, StreamingResponse, DiffOptions, PriceTable } from '../types';
 import { FileChangePreview } from './FileChangePreview';
+import { DiffOptionsToolbar } from './DiffView';
+import { MarkdownContent } from './MarkdownContent';
+import { splitIntoHunks, countHunks, reconstructContent } from '../utils/diffHunks';
+import { formatTokenCount } from '../utils/contextBudget';
+import { summarizeUsage, formatCost } from '../utils/usageCost';
+import { parseStreamingResponse } from '../utils/streamingResponse';
+
+const CONTEXT_REASON_LABELS: Record<ContextFileReason, string> = {
+  pinned: 'always included',
+  focus: '@-mentioned',
+  mentioned: 'mentioned',
+  import: 'import of a mentioned file',
+  relevant: 'relevant',
+  fill: 'fits in budget',
+};
 
 interface ChatMessageProps {
   message: ChatMessageType;
   index: number;
   isLoading?: boolean;
-  onApplyChanges: (changes: ProposedChange[]) => void;
+  // The response received so far, while this is the placeholder for a streaming answer.
+  streamingResponse?: StreamingResponse | null;
+  onApplyChanges: (changes: ProposedChange[], messageIndex: number, resolution: ProposalResolution) => void;
+  onRejectChanges: (messageIndex: number, resolution: ProposalResolution) => void;
   onSaveProposal: (messageIndex: number) => void;
+  onExportPatch: (messageIndex: number) => void;
+  diffOptions: DiffOptions;
+  onDiffOptionsChange: (options: DiffOptions) => void;
+  // Prices for the estimated cost of the model calls behind a reply.
+  priceTable: PriceTable;
+  // Whether a user message can be edited and its branches switched, or a proposal's syntax errors
+  // sent back to the AI, right now (not while the AI is answering).
+  canEdit?: boolean;
+  // For a user message that was edited: which version of the conversation is shown, out of how many.
+  branchIndex?: number;
+  branchCount?: number;
+  onEditPrompt?: (messageIndex: number, prompt: string) => void;
+  onSwitchBranch?: (messageIndex: number, branchIndex: number) => void;
+  // Applies the proposals applied on the shown version of the conversation to the files again.
+  onReapplyBranch?: (messageIndex: number) => void;
+  onFixDiagnostics?: (messageIndex: number) => void;
 }
 
-export const ChatMessage = memo(({ message, index, isLoading = false, onApplyChanges, onSaveProposal }: ChatMessageProps): React.ReactElement => {
+export const ChatMessage = memo(({ message, index, isLoading = false, streamingResponse = null, onApplyChanges, onRejectChanges, onSaveProposal, onExportPatch, diffOptions, onDiffOptionsChange, priceTable, canEdit = false, branchIndex = 0, branchCount = 1, onEditPrompt, onSwitchBranch, onReapplyBranch, onFixDiagnostics }: ChatMessageProps): React.ReactElement => {
   const isModel = message.role === 'model';
-  const [isHandled, setIsHandled] = useState(false);
-  const [action, setAction] = useState<'applied' | 'rejected' | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'success'>('idle');
+  const [isEditing, setIsEditing] = useState(false);
+  const [editDraft, setEditDraft] = useState('');
   
   const hasProposedChanges = message.proposedChanges && message.proposedChanges.length > 0;
+  const resolution = message.proposalResolution;
+  const isHandled = !!resolution;
+  const usage = useMemo(() => message.usage && message.usage.length > 0 ? summarizeUsage(message.usage, priceTable).total : null, [message.usage, priceTable]);
 
-  const handleApply = () => {
-    if (hasProposedChanges) {
-      onApplyChanges(message.proposedChanges!);
-      setIsHandled(true);
-      setAction('applied');
+  const streamingView = useMemo(
+    () => (streamingResponse ? parseStreamingResponse(streamingResponse.text) : null),
+    [streamingResponse]
+  );
+
+  const changeSegments = useMemo(
+    () => (message.proposedChanges ?? []).map(change => splitIntoHunks(change.oldContent, change.newContent)),
+    [message.proposedChanges]
+  );
+
+  // Per file, per hunk: whether the hunk is selected for applying. Everything starts selected.
+  const [selection, setSelection] = useState<boolean[][]>(
+    () => changeSegments.map(segments => Array(countHunks(segments)).fill(true))
+  );
+
+  // Once handled, show what was actually applied instead of the (now read-only) selection.
+  const displayedSelection = useMemo(() => {
+    if (!resolution) return selection;
+    return changeSegments.map((segments, changeIndex) => {
+      const applied = new Set(resolution.files[changeIndex]?.appliedHunks ?? []);
+      return Array.from({ length: countHunks(segments) }, (_, hunkIndex) => applied.has(hunkIndex));
+    });
+  }, [resolution, selection, changeSegments]);
+
+  // Per file: whether it is a rename without content changes, which has no hunks to select.
+  const isPlainRename = useMemo(
+    () => (message.proposedChanges ?? []).map((change, changeIndex) => change.renamedFrom !== undefined && countHunks(changeSegments[changeIndex]) === 0),
+    [message.proposedChanges, changeSegments]
+  );
+
+  // Per file: whether a plain rename is selected for applying. Only used for plain renames.
+  const [renameSelection, setRenameSelection] = useState<boolean[]>(() => isPlainRename.map(() => true));
+
+  const displayedRenameSelection = useMemo(
+    () => (resolution ? isPlainRename.map((_, changeIndex) => resolution.files[changeIndex]?.renameApplied ?? false) : renameSelection),
+    [resolution, isPlainRename, renameSelection]
+  );
+
+  const totalHunks = selection.reduce((acc, hunks) => acc + hunks.length, 0);
+  const selectedHunks = selection.reduce((acc, hunks) => acc + hunks.filter(Boolean).length, 0);
+  // A plain rename counts as one change of its own.
+  const totalChanges = totalHunks + isPlainRename.filter(Boolean).length;
+  const selectedChanges = selectedHunks + isPlainRename.filter((isRename, changeIndex) => isRename && renameSelection[changeIndex]).length;
+  const isEverythingSelected = selectedChanges === totalChanges;
+  const filesWithErrors = (message.proposedChanges ?? []).filter(change => change.diagnostics && change.diagnostics.length > 0);
+  const errorCount = filesWithErrors.reduce((acc, change) => acc + change.diagnostics!.length, 0);
+
+  const handleToggleFile = (changeIndex: number) => {
+    if (isPlainRename[changeIndex]) {
+      setRenameSelection(prev => prev.map((selected, i) => i === changeIndex ? !selected : selected));
+      return;
     }
+    setSelection(prev => prev.map((hunks, i) => {
+      if (i !== changeIndex) return hunks;
+      const shouldSelect = !hunks.some(Boolean);
+      return hunks.map(() => shouldSelect);
+    }));
+  };
+
+  const handleToggleHunk = (changeIndex: number, hunkIndex: number) => {
+    setSelection(prev => prev.map((hunks, i) =>
+      i !== changeIndex ? hunks : hunks.map((selected, j) => j === hunkIndex ? !selected : selected)
+    ));
+  };
+
+  const buildResolution = (isApplying: boolean): ProposalResolution => {
+    const files = message.proposedChanges!.map((change, changeIndex) => {
+      const hunks = selection[changeIndex] ?? [];
+      const appliedHunks = isApplying ? hunks.flatMap((selected, i) => selected ? [i] : []) : [];
+      const discardedHunks = hunks.flatMap((_, i) => appliedHunks.includes(i) ? [] : [i]);
+      return {
+        filePath: change.filePath,
+        totalHunks: hunks.length,
+        appliedHunks,
+        discardedHunks,
+        ...(isPlainRename[changeIndex] && { renameApplied: isApplying && renameSelection[changeIndex] }),
+      };
+    });
+    const status = !isApplying || (totalChanges > 0 && selectedChanges === 0) ? 'rejected' : isEverythingSelected ? 'applied' : 'partial';
+    return { status, files };
+  };
+
+  const handleApply = () => {
+    if (!hasProposedChanges || (totalChanges > 0 && selectedChanges === 0)) return;
+
+    const changesToApply = message.proposedChanges!.flatMap((change, changeIndex) => {
+      if (isPlainRename[changeIndex]) return renameSelection[changeIndex] ? [change] : [];
+      const hunks = selection[changeIndex] ?? [];
+      // A change without hunks has no significant differences; pass it through untouched.
+      if (hunks.length === 0 || hunks.every(Boolean)) return [change];
+      if (!hunks.some(Boolean)) return [];
+      const newContent = reconstructContent(changeSegments[changeIndex], hunkIndex => hunks[hunkIndex]);
+      return [{ ...change, newContent }];
+    });
+
+    onApplyChanges(changesToApply, index, buildResolution(true));
   };
 
   const handleReject = () => {
-    setIsHandled(true);
-    setAction('rejected');
+    if (hasProposedChanges) {
+      onRejectChanges(index, buildResolution(false));
+    }
   };
 
   const handleSave = () => {
@@ -42,18 +170,68 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
     }
   };
 
+  const handleStartEdit = () => {
+    setEditDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const handleSubmitEdit = () => {
+    const prompt = editDraft.trim();
+    if (!prompt || !canEdit) return;
+    setIsEditing(false);
+    onEditPrompt?.(index, prompt);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
   const renderContent = () => {
     if (isLoading) {
-      return (
+      const pulsingDots = (
         <div className="flex items-center space-x-2">
             <div className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse [animation-delay:-0.3s]"></div>
             <div className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse [animation-delay:-0.15s]"></div>
             <div className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse"></div>
         </div>
       );
+      if (!streamingView) {
+        return pulsingDots;
+      }
+      return (
+        <div className="space-y-3">
+          {streamingResponse?.isCorrection && (
+            <p className="text-xs text-yellow-300">The previous answer didn't follow the file change format, so the AI is correcting it…</p>
+          )}
+          {streamingView.text && <MarkdownContent content={streamingView.text} className="text-gray-300" />}
+          {streamingView.files.length > 0 && (
+            <ul className="space-y-1">
+              {streamingView.files.map((file, fileIndex) => (
+                <li key={`${file.filePath}-${fileIndex}`} className="flex items-center text-sm text-gray-400 bg-gray-800/60 px-3 py-1.5 rounded-md">
+                  {file.isComplete
+                    ? <CheckIcon className="w-4 h-4 mr-2 flex-shrink-0 text-green-400" />
+                    : <FileIcon className="w-4 h-4 mr-2 flex-shrink-0 text-indigo-300 animate-pulse" />}
+                  <span className="truncate">
+                    {file.isComplete ? 'wrote' : 'writing'} <span className="font-mono text-gray-300">{file.filePath}</span> ({file.lineCount} lines)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {pulsingDots}
+        </div>
+      );
     }
-    
-    // Use a <pre> tag to respect whitespace and newlines without complex markdown parsing
+
+    if (isModel) {
+      return <MarkdownContent content={message.content} className="text-gray-300" />;
+    }
+    // The user's own prompt is shown exactly as typed.
     return <pre className="text-gray-300 whitespace-pre-wrap font-sans">{message.content}</pre>;
   };
 
@@ -64,11 +242,7 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
           <WarningIcon className="w-5 h-5 text-yellow-200" />
         </div>
         <div className="w-full max-w-3xl p-4 rounded-lg bg-yellow-900/30 border border-yellow-500/30">
-           {/* Use a div to render simple markdown like bolding for emphasis */}
-           <div 
-             className="text-yellow-200 whitespace-pre-wrap font-sans" 
-             dangerouslySetInnerHTML={{ __html: message.warning.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') }} 
-           />
+           <MarkdownContent content={message.warning} className="text-yellow-200" />
         </div>
       </div>
     );
@@ -81,13 +255,49 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
           <WarningIcon className="w-5 h-5 text-red-200" />
         </div>
         <div className="w-full max-w-3xl p-4 rounded-lg bg-red-900/30 border border-red-500/30">
-           <pre className="text-red-200 whitespace-pre-wrap font-sans">{message.error}</pre>
+           <MarkdownContent content={message.error} className="text-red-200" />
         </div>
       </div>
     );
   }
 
   const contentDisplay = () => {
+    if (isEditing) {
+      return (
+        <div className="space-y-2">
+          <textarea
+            value={editDraft}
+            onChange={(e) => setEditDraft(e.target.value)}
+            onKeyDown={handleEditKeyDown}
+            rows={Math.min(12, Math.max(3, editDraft.split('\n').length))}
+            autoFocus
+            className="w-full bg-gray-900 text-gray-200 p-2 rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+          />
+          <div className="flex justify-between items-center gap-3">
+            <span className="text-xs text-indigo-300/80">
+              Sends the edited prompt as a new branch; the current answer is kept.
+              {message.attachments && message.attachments.length > 0 && ' Attachments are not resent.'}
+            </span>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 rounded text-sm bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitEdit}
+                disabled={!canEdit || !editDraft.trim()}
+                className="px-3 py-1 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     // Model-specific logic for proposed changes
     if (isModel && hasProposedChanges && !isLoading) {
       const saveProposalButton = (
@@ -118,27 +328,87 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
       return (
         <div className="space-y-4">
           <div>{renderContent()}</div>
+          {totalHunks > 0 && (
+            <div className="flex justify-end">
+              <DiffOptionsToolbar options={diffOptions} onChange={onDiffOptionsChange} />
+            </div>
+          )}
           {message.proposedChanges!.map((change, idx) => (
-            <FileChangePreview key={idx} change={change} />
+            <FileChangePreview
+              key={idx}
+              change={change}
+              segments={changeSegments[idx]}
+              hunkSelection={displayedSelection[idx] ?? []}
+              isRenameSelected={displayedRenameSelection[idx]}
+              isSelectable={!isHandled}
+              diffOptions={diffOptions}
+              onToggleFile={() => handleToggleFile(idx)}
+              onToggleHunk={(hunkIndex) => handleToggleHunk(idx, hunkIndex)}
+            />
           ))}
           <div className="mt-4 pt-3 border-t border-gray-600/50">
              {isHandled ? (
-                <div className="flex justify-between items-center">
-                    <p className={`text-sm font-semibold ${
-                        action === 'applied' ? 'text-green-400' : 'text-red-400'
-                    }`}>
-                    { action === 'applied' ? 'Changes applied.' : 'Changes rejected.' }
-                    </p>
-                    {saveProposalButton}
+                <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <p className={`text-sm font-semibold ${
+                          resolution!.status === 'applied' ? 'text-green-400' : resolution!.status === 'partial' ? 'text-yellow-400' : 'text-red-400'
+                      }`}>
+                      {{ applied: 'Changes applied.', partial: 'Changes partially applied.', rejected: 'Changes rejected.' }[resolution!.status]}
+                      </p>
+                      {resolution!.status === 'partial' && (
+                        <ul className="mt-1 text-xs text-gray-400 space-y-0.5">
+                          {resolution!.files.filter(file => file.discardedHunks.length > 0 || file.renameApplied === false).map(file => (
+                            <li key={file.filePath} className="font-mono">
+                              {file.appliedHunks.length === 0
+                                ? `${file.filePath}: discarded`
+                                : `${file.filePath}: applied ${file.appliedHunks.length} of ${file.totalHunks} changes`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      {resolution!.status !== 'rejected' && (
+                        <button
+                          onClick={() => onExportPatch(index)}
+                          className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-1 px-3 rounded text-sm transition-colors flex items-center gap-1.5"
+                          title="Download the applied changes as a patch for git apply"
+                        >
+                          <DownloadIcon className="w-4 h-4" />
+                          Patch
+                        </button>
+                      )}
+                      {saveProposalButton}
+                    </div>
                 </div>
               ) : (
+                <>
+                {errorCount > 0 && (
+                  <div className="mb-3 flex items-center justify-between gap-3 p-2 rounded-md bg-red-900/30 border border-red-500/30 text-sm text-red-200">
+                    <span className="flex items-center gap-2">
+                      <WarningIcon className="w-4 h-4 flex-shrink-0" />
+                      {errorCount === 1 ? '1 syntax error' : `${errorCount} syntax errors`} in {filesWithErrors.length === 1 ? '1 file' : `${filesWithErrors.length} files`}. Applying may break the project.
+                    </span>
+                    {onFixDiagnostics && (
+                      <button
+                        onClick={() => onFixDiagnostics(index)}
+                        disabled={!canEdit}
+                        className="flex-shrink-0 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-1 px-3 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Send the errors to the AI and ask for corrected files"
+                      >
+                        Ask AI to Fix
+                      </button>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                     <div className="flex gap-2">
                         <button
                             onClick={handleApply}
-                            className="bg-green-600 hover:bg-green-500 text-white font-bold py-1 px-3 rounded text-sm transition-colors"
+                            disabled={totalChanges > 0 && selectedChanges === 0}
+                            className="bg-green-600 hover:bg-green-500 text-white font-bold py-1 px-3 rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                            Apply Changes
+                            {isEverythingSelected ? 'Apply Changes' : `Apply Selected (${selectedChanges}/${totalChanges})`}
                         </button>
                         <button
                             onClick={handleReject}
@@ -149,19 +419,35 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
                     </div>
                     {saveProposalButton}
                 </div>
+                </>
               )}
           </div>
         </div>
       );
     }
 
-    // User-specific logic for attachments
-    if (!isModel && message.attachments && message.attachments.length > 0) {
+    // User-specific logic for attachments and @-mentioned files
+    const attachments = message.attachments ?? [];
+    const mentionedFiles = message.mentionedFiles ?? [];
+    if (!isModel && (attachments.length > 0 || mentionedFiles.length > 0)) {
       return (
         <>
           {message.content && renderContent()}
           <div className={`mt-3 space-y-2 ${message.content ? 'border-t border-indigo-800/50 pt-3' : ''}`}>
-            {message.attachments.map(file => (
+            {mentionedFiles.length > 0 && (
+              <div className="flex flex-wrap gap-2" aria-label="Mentioned files">
+                {mentionedFiles.map(file => (
+                  <span
+                    key={file.path}
+                    className="flex items-center min-w-0 text-xs font-mono text-indigo-200 bg-indigo-800/70 px-2 py-1 rounded-full"
+                    title={`${file.path} was sent in full as a focus file`}
+                  >
+                    <span className="truncate">@{file.path}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            {attachments.map(file => (
               <div key={file.name} className="flex items-center text-sm text-indigo-300 bg-indigo-900/70 px-3 py-1.5 rounded-md">
                 <FileIcon className="w-4 h-4 mr-2 flex-shrink-0" />
                 <span className="truncate" title={file.name}>{file.name}</span>
@@ -172,7 +458,7 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
       );
     }
     
-    // Default rendering for model messages without changes, or user messages without attachments
+    // Default rendering for model messages without changes, or user messages without attachments or mentions
     return renderContent();
   };
 
@@ -183,6 +469,79 @@ export const ChatMessage = memo(({ message, index, isLoading = false, onApplyCha
       </div>
       <div className={`w-full max-w-3xl p-4 rounded-lg ${isModel ? 'bg-gray-700/50' : 'bg-indigo-900/50'}`}>
         {contentDisplay()}
+        {!isModel && !isEditing && (onEditPrompt || branchCount > 1) && (
+          <div className="mt-2 flex items-center justify-end gap-2 text-xs text-indigo-300">
+            {branchCount > 1 && (
+              <div className="flex items-center gap-1" aria-label="Versions of this prompt">
+                <button
+                  onClick={() => onSwitchBranch?.(index, branchIndex - 1)}
+                  disabled={!canEdit || branchIndex === 0}
+                  className="p-0.5 rounded hover:bg-indigo-800/60 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Show the previous version of this prompt"
+                >
+                  <ChevronLeftIcon className="w-3.5 h-3.5" />
+                </button>
+                <span>{branchIndex + 1} / {branchCount}</span>
+                <button
+                  onClick={() => onSwitchBranch?.(index, branchIndex + 1)}
+                  disabled={!canEdit || branchIndex === branchCount - 1}
+                  className="p-0.5 rounded hover:bg-indigo-800/60 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Show the next version of this prompt"
+                >
+                  <ChevronRightIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+            {branchCount > 1 && onReapplyBranch && (
+              <button
+                onClick={() => onReapplyBranch(index)}
+                disabled={!canEdit}
+                className="px-1.5 py-0.5 rounded hover:bg-indigo-800/60 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Apply the proposals that were applied on this version to the current files again"
+              >
+                Re-apply proposals
+              </button>
+            )}
+            {onEditPrompt && (
+              <button
+                onClick={handleStartEdit}
+                disabled={!canEdit}
+                className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-indigo-800/60 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Edit this prompt and resend it as a new branch of the conversation"
+              >
+                <PencilIcon className="w-3.5 h-3.5" />
+                Edit
+              </button>
+            )}
+          </div>
+        )}
+        {message.contextFiles && (
+          <details className="mt-3 border-t border-indigo-800/50 pt-2 text-xs text-indigo-300">
+            <summary className="cursor-pointer select-none">
+              Context: {message.contextFiles.includedFiles.length} of {message.contextFiles.includedFiles.length + message.contextFiles.omittedCount} files (~{formatTokenCount(message.contextFiles.tokens)} tokens)
+            </summary>
+            <ul className="mt-2 space-y-0.5 max-h-48 overflow-y-auto">
+              {message.contextFiles.includedFiles.map(file => (
+                <li key={file.path} className="flex justify-between gap-3">
+                  <span className="font-mono truncate" title={file.path}>{file.path}</span>
+                  <span className="flex-shrink-0 text-indigo-400/80">{CONTEXT_REASON_LABELS[file.reason]}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {usage && (
+          <p
+            className="mt-3 border-t border-gray-600/50 pt-2 text-xs text-gray-400"
+            title={usage.unpricedCalls > 0 ? 'Some calls used a model without a price, so the cost leaves them out.' : 'Estimated from the price table in the usage panel.'}
+          >
+            {formatTokenCount(usage.promptTokens)} in{usage.cachedTokens > 0 && ` (${formatTokenCount(usage.cachedTokens)} cached)`}
+            {' · '}{formatTokenCount(usage.outputTokens)} out
+            {usage.thinkingTokens > 0 && ` · ${formatTokenCount(usage.thinkingTokens)} thinking`}
+            {' · '}~{formatCost(usage.cost)}{usage.unpricedCalls > 0 && '*'}
+            {usage.calls > 1 && ` · ${usage.calls} calls`}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { HighlightToken, TokenType } from '../utils/syntaxHighlight';
+
+// A highlighted column range within a line, such as a search match or a changed word.
+export interface CodeMark {
+  start: number;
+  end: number;
+  className: string;
+}
+
+interface CodeLineProps {
+  tokens: HighlightToken[];
+  marks?: CodeMark[];
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: 'text-gray-200',
+  keyword: 'text-purple-400',
+  string: 'text-green-300',
+  comment: 'text-gray-500 italic',
+  number: 'text-orange-300',
+  literal: 'text-orange-300',
+  type: 'text-yellow-200',
+  tag: 'text-red-300',
+  attribute: 'text-yellow-300',
+  property: 'text-sky-300',
+};
+
+/**
+ * Renders one syntax-highlighted line. Tokens are split where marks start and end, so a
+ * mark can cover part of a token.
+ */
+export function CodeLine({ tokens, marks = [] }: CodeLineProps): React.ReactElement {
+  const cuts = marks.flatMap(mark => [mark.start, mark.end]);
+  const parts: React.ReactNode[] = [];
+  let column = 0;
+  tokens.forEach(token => {
+    const end = column + token.text.length;
+    const points = [column, ...cuts.filter(cut => cut > column && cut < end).sort((a, b) => a - b), end];
+    for (let i = 0; i < points.length - 1; i++) {
+      const mark = marks.find(m => m.start <= points[i] && points[i] < m.end);
+      parts.push(
+        <span key={parts.length} className={mark ? `${TOKEN_CLASSES[token.type]} ${mark.className}` : TOKEN_CLASSES[token.type]}>
+          {token.text.slice(points[i] - column, points[i + 1] - column)}
+        </span>
+      );
+    }
+    column = end;
+  });
+  return <>{parts}</>;
+}
@@ -0,0 +1,212 @@
+import React from 'react';
+import type { DiffOptions } from '../types';
+import type { DiffSegment } from '../utils/diffHunks';
+import { reconstructContent } from '../utils/diffHunks';
+import { buildDiffRows, type ChangedLine, type DiffRow } from '../utils/diffRows';
+import { highlightCode, getLanguageForPath, type HighlightToken } from '../utils/syntaxHighlight';
+import { CodeLine } from './CodeLine';
+
+interface DiffViewProps {
+  filePath: string;
+  segments: DiffSegment[];
+  options: DiffOptions;
+  // Column titles for the split layout, e.g. "Before" and "After".
+  columnLabels?: { old: string; new: string };
+  // Content shown above each hunk, such as a checkbox to include it.
+  renderHunkHeader?: (hunkIndex: number) => React.ReactNode;
+  isHunkDimmed?: (hunkIndex: number) => boolean;
+}
+
+interface DiffOptionsToolbarProps {
+  options: DiffOptions;
+  onChange: (options: DiffOptions) => void;
+}
+
+const NUMBER_CELL = 'px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 border-r border-gray-700 align-top';
+const CODE_CELL = 'px-2 whitespace-pre-wrap break-all align-top';
+const REMOVED_WORD = 'bg-red-500/40 rounded-sm';
+const ADDED_WORD = 'bg-green-500/40 rounded-sm';
+
+/**
+ * Switches between the split and unified layouts and toggles hiding whitespace changes.
+ */
+export function DiffOptionsToolbar({ options, onChange }: DiffOptionsToolbarProps): React.ReactElement {
+  const layoutButton = (layout: DiffOptions['layout'], label: string) => (
+    <button
+      onClick={() => onChange({ ...options, layout })}
+      className={`px-2 py-0.5 ${options.layout === layout ? 'bg-gray-600 text-gray-100' : 'text-gray-400 hover:text-gray-200'}`}
+      aria-pressed={options.layout === layout}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      <div className="flex rounded-md border border-gray-600 overflow-hidden" role="group" aria-label="Diff layout">
+        {layoutButton('split', 'Split')}
+        {layoutButton('unified', 'Unified')}
+      </div>
+      <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={options.ignoreWhitespace}
+          onChange={(e) => onChange({ ...options, ignoreWhitespace: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Ignore whitespace
+      </label>
+    </div>
+  );
+}
+
+/**
+ * A line diff with syntax highlighting and word-level highlights within changed line
+ * pairs, in a split or unified layout. Long runs of unchanged lines are collapsed and can
+ * be expanded.
+ */
+export function DiffView({ filePath, segments, options, columnLabels, renderHunkHeader, isHunkDimmed }: DiffViewProps): React.ReactElement {
+  const [expandedBlocks, setExpandedBlocks] = React.useState<Set<number>>(new Set());
+
+  // Block indexes change with the diff and with hidden whitespace changes.
+  React.useEffect(() => {
+    setExpandedBlocks(new Set());
+  }, [segments, options.ignoreWhitespace]);
+
+  const language = getLanguageForPath(filePath);
+  const oldContent = React.useMemo(() => reconstructContent(segments, () => false), [segments]);
+  const newContent = React.useMemo(() => reconstructContent(segments, () => true), [segments]);
+  const oldTokens = React.useMemo(() => highlightCode(oldContent, language), [oldContent, language]);
+  const newTokens = React.useMemo(() => highlightCode(newContent, language), [newContent, language]);
+  const rows = React.useMemo(
+    () => buildDiffRows(segments, oldContent, newContent, options.ignoreWhitespace, expandedBlocks),
+    [segments, oldContent, newContent, options.ignoreWhitespace, expandedBlocks]
+  );
+
+  const isSplit = options.layout === 'split';
+  const columnCount = isSplit ? 4 : 3;
+
+  const renderCode = (tokens: HighlightToken[] | undefined, line: ChangedLine | null, markClass: string) => (
+    <CodeLine
+      tokens={tokens ?? []}
+      marks={(line?.changedRanges ?? []).map(([start, end]) => ({ start, end, className: markClass }))}
+    />
+  );
+
+  const renderRow = (row: DiffRow, key: number): React.ReactNode[] => {
+    if (row.type === 'collapsed') {
+      return [
+        <tr key={key}>
+          <td colSpan={columnCount} className="p-0 bg-gray-800">
+            <button
+              onClick={() => setExpandedBlocks(prev => new Set(prev).add(row.blockIndex))}
+              className="w-full py-1 text-xs text-indigo-300 hover:bg-gray-700/60 select-none"
+            >
+              Show {row.lineCount} unchanged lines
+            </button>
+          </td>
+        </tr>,
+      ];
+    }
+
+    if (row.type === 'hunk') {
+      if (!renderHunkHeader) return [];
+      return [
+        <tr key={key} className="bg-gray-800">
+          <td colSpan={columnCount} className="px-2 py-1 text-xs text-gray-400 select-none border-y border-gray-700/70">
+            {renderHunkHeader(row.hunkIndex)}
+          </td>
+        </tr>,
+      ];
+    }
+
+    if (row.type === 'context') {
+      const code = renderCode(newTokens[row.newLine - 1], null, '');
+      return [
+        isSplit ? (
+          <tr key={key}>
+            <td className={`${NUMBER_CELL} bg-gray-800/50`}>{row.oldLine}</td>
+            <td className={`${CODE_CELL} w-1/2`}><span className="text-gray-500 mr-2 select-none"> </span>{code}</td>
+            <td className={`${NUMBER_CELL} bg-gray-800/50`}>{row.newLine}</td>
+            <td className={`${CODE_CELL} w-1/2`}><span className="text-gray-500 mr-2 select-none"> </span>{code}</td>
+          </tr>
+        ) : (
+          <tr key={key}>
+            <td className={`${NUMBER_CELL} bg-gray-800/50`}>{row.oldLine}</td>
+            <td className={`${NUMBER_CELL} bg-gray-800/50`}>{row.newLine}</td>
+            <td className={CODE_CELL}><span className="text-gray-500 mr-2 select-none"> </span>{code}</td>
+          </tr>
+        ),
+      ];
+    }
+
+    const dimClass = isHunkDimmed?.(row.hunkIndex) ? 'opacity-40' : '';
+    const removedCode = row.removed && renderCode(oldTokens[row.removed.lineNumber - 1], row.removed, REMOVED_WORD);
+    const addedCode = row.added && renderCode(newTokens[row.added.lineNumber - 1], row.added, ADDED_WORD);
+
+    if (isSplit) {
+      return [
+        <tr key={key} className={dimClass}>
+          <td className={`${NUMBER_CELL} ${row.removed ? 'bg-red-900/30' : 'bg-gray-800/50'}`}>{row.removed?.lineNumber}</td>
+          <td className={`${CODE_CELL} w-1/2 ${row.removed ? 'bg-red-900/40' : 'bg-gray-800/50'}`}>
+            {row.removed && <><span className="text-red-400 mr-2 select-none">-</span>{removedCode}</>}
+          </td>
+          <td className={`${NUMBER_CELL} ${row.added ? 'bg-green-900/30' : 'bg-gray-800/50'}`}>{row.added?.lineNumber}</td>
+          <td className={`${CODE_CELL} w-1/2 ${row.added ? 'bg-green-900/40' : 'bg-gray-800/50'}`}>
+            {row.added && <><span className="text-green-400 mr-2 select-none">+</span>{addedCode}</>}
+          </td>
+        </tr>,
+      ];
+    }
+
+    // The unified layout lists a hunk's removed lines before its added lines, so the
+    // removed line of each pair is rendered here and the added one after the whole run.
+    return [
+      row.removed && (
+        <tr key={`${key}-r`} className={dimClass}>
+          <td className={`${NUMBER_CELL} bg-red-900/30`}>{row.removed.lineNumber}</td>
+          <td className={`${NUMBER_CELL} bg-red-900/30`}></td>
+          <td className={`${CODE_CELL} bg-red-900/40`}><span className="text-red-400 mr-2 select-none">-</span>{removedCode}</td>
+        </tr>
+      ),
+      row.added && (
+        <tr key={`${key}-a`} className={dimClass}>
+          <td className={`${NUMBER_CELL} bg-green-900/30`}></td>
+          <td className={`${NUMBER_CELL} bg-green-900/30`}>{row.added.lineNumber}</td>
+          <td className={`${CODE_CELL} bg-green-900/40`}><span className="text-green-400 mr-2 select-none">+</span>{addedCode}</td>
+        </tr>
+      ),
+    ];
+  };
+
+  const renderedRows: React.ReactNode[] = [];
+  let addedRun: React.ReactNode[] = [];
+  rows.forEach((row, index) => {
+    const [removed, added] = renderRow(row, index);
+    if (row.type === 'change' && !isSplit) {
+      if (removed) renderedRows.push(removed);
+      if (added) addedRun.push(added);
+      return;
+    }
+    renderedRows.push(...addedRun);
+    addedRun = [];
+    if (removed) renderedRows.push(removed);
+  });
+  renderedRows.push(...addedRun);
+
+  return (
+    <table className="w-full border-collapse font-mono text-sm">
+      {isSplit && columnLabels && (
+        <thead className="sticky top-0 z-10">
+          <tr className="bg-gray-700">
+            <th colSpan={2} className="p-2 text-left font-semibold text-gray-300 border-r border-gray-700">{columnLabels.old}</th>
+            <th colSpan={2} className="p-2 text-left font-semibold text-gray-300">{columnLabels.new}</th>
+          </tr>
+        </thead>
+      )}
+      <tbody>
+        {renderedRows}
+      </tbody>
+    </table>
+  );
+}
@@ -1,139 +1,141 @@
 import React from 'react';
-import { diffLines } from 'diff';
-import type { ProposedChange } from '../types';
-import { ChevronDownIcon } from './Icons';
+import type { ProposedChange, DiffOptions } from '../types';
+import type { DiffSegment } from '../utils/diffHunks';
+import { DiffView } from './DiffView';
+import { ChevronDownIcon, CheckIcon, WarningIcon } from './Icons';
 
 interface FileChangePreviewProps {
   change: ProposedChange;
+  segments: DiffSegment[];
+  hunkSelection: boolean[];
+  isSelectable: boolean;
+  // For a rename without content changes, which has no hunks: whether the rename is selected.
+  isRenameSelected?: boolean;
+  diffOptions: DiffOptions;
+  onToggleFile?: () => void;
+  onToggleHunk?: (hunkIndex: number) => void;
 }
 
-const CONTEXT_LINES = 3; // Show 3 lines of context before and after a change.
+export function FileChangePreview({ change, segments, hunkSelection, isSelectable, isRenameSelected = true, diffOptions, onToggleFile, onToggleHunk }: FileChangePreviewProps): React.ReactElement {
+  const totalHunks = hunkSelection.length;
+  const selectedHunks = hunkSelection.filter(Boolean).length;
+  const isFileSelected = selectedHunks > 0;
+  const isPartiallySelected = isFileSelected && selectedHunks < totalHunks;
+  const diagnostics = change.diagnostics ?? [];
+  const detailsRef = React.useRef<HTMLDetailsElement>(null);
 
-export function FileChangePreview({ change }: FileChangePreviewProps): React.ReactElement {
-  const diffResult = diffLines(change.oldContent, change.newContent);
+  // Files with syntax errors are expanded once, when the errors arrive. From then on, the user opens and closes the preview.
+  const hasDiagnostics = diagnostics.length > 0;
+  React.useEffect(() => {
+    if (hasDiagnostics && detailsRef.current) {
+      detailsRef.current.open = true;
+    }
+  }, [hasDiagnostics]);
+  const title = change.renamedFrom ? `${change.renamedFrom} → ${change.filePath}` : change.filePath;
 
-  // Case for no significant changes (e.g., only whitespace)
-  if (diffResult.length === 1 && !diffResult[0].added && !diffResult[0].removed) {
+  // A rename without content changes is selected as a whole.
+  if (totalHunks === 0 && change.renamedFrom) {
       return (
-         <div className="bg-gray-800/60 rounded-lg border border-gray-700/80 px-4 py-2 flex justify-between items-center">
-            <p className="text-sm font-mono text-gray-400">{change.filePath}</p>
-            <p className="text-xs text-gray-500 italic">No significant changes</p>
+         <div className="bg-gray-800/60 rounded-lg border border-gray-700/80 px-4 py-2 flex justify-between items-center gap-3">
+            <span className="flex items-center gap-2 min-w-0 text-sm">
+              {isSelectable && (
+                <input
+                  type="checkbox"
+                  checked={isRenameSelected}
+                  onChange={() => onToggleFile?.()}
+                  className="accent-indigo-500 flex-shrink-0"
+                  aria-label={`Include the rename of ${change.renamedFrom} to ${change.filePath}`}
+                />
+              )}
+              <span className={`font-mono truncate ${isRenameSelected ? 'text-gray-300' : 'line-through text-gray-500'}`} title={title}>{title}</span>
+              <span className="text-xs px-1.5 rounded bg-blue-900/50 text-blue-300 flex-shrink-0">renamed</span>
+            </span>
+            <p className="text-xs text-gray-500 italic flex-shrink-0">Content unchanged</p>
         </div>
       );
   }
 
-  const renderedRows: React.ReactNode[] = [];
-  let leftLineNum = 1;
-  let rightLineNum = 1;
-
-  diffResult.forEach((part, partIndex) => {
-    // Split into lines, handling the case of no trailing newline correctly.
-    const lines = part.value.endsWith('\n') ? part.value.slice(0, -1).split('\n') : part.value.split('\n');
-
-    if (part.added) {
-      lines.forEach((line, lineIndex) => {
-        // The diff library sometimes adds an empty string part which we can ignore.
-        if (line === '' && lines.length === 1) return;
-        renderedRows.push(
-            <tr key={`p${partIndex}-l${lineIndex}`}>
-                <td className="px-2 py-0.5 text-right text-xs text-gray-600 select-none w-10 bg-gray-800/50 border-r border-gray-700"></td>
-                <td className="w-1/2 pr-2 bg-gray-800/50"></td>
-                <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-green-900/30 border-r border-gray-700">{rightLineNum++}</td>
-                <td className="w-1/2 pl-2 bg-green-900/40">
-                    <span className="text-green-400 mr-2 select-none">+</span>
-                    <span className="whitespace-pre-wrap">{line}</span>
-                </td>
-            </tr>
-        );
-      });
-    } else if (part.removed) {
-      lines.forEach((line, lineIndex) => {
-        if (line === '' && lines.length === 1) return;
-        renderedRows.push(
-            <tr key={`p${partIndex}-l${lineIndex}`}>
-                <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-red-900/30 border-r border-gray-700">{leftLineNum++}</td>
-                <td className="w-1/2 pr-2 bg-red-900/40">
-                    <span className="text-red-400 mr-2 select-none">-</span>
-                    <span className="whitespace-pre-wrap">{line}</span>
-                </td>
-                <td className="px-2 py-0.5 text-right text-xs text-gray-600 select-none w-10 bg-gray-800/50 border-r border-gray-700"></td>
-                <td className="w-1/2 pl-2 bg-gray-800/50"></td>
-            </tr>
-        );
-      });
-    } else { // This is a common part, shared between both files.
-      const isFirstPart = partIndex === 0;
-      const isLastPart = partIndex === diffResult.length - 1;
-      // Truncate long common sections that are not at the very beginning or end of the file.
-      const needsTruncation = lines.length > (CONTEXT_LINES * 2) + 1 && !isFirstPart && !isLastPart;
-
-      if (needsTruncation) {
-        // Render first CONTEXT_LINES
-        for (let i = 0; i < CONTEXT_LINES; i++) {
-            const line = lines[i];
-            renderedRows.push(
-                <tr key={`p${partIndex}-s${i}`}>
-                    <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-gray-800/50 border-r border-gray-700">{leftLineNum++}</td>
-                    <td className="w-1/2 pr-2"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-                    <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-gray-800/50 border-r border-gray-700">{rightLineNum++}</td>
-                    <td className="w-1/2 pl-2"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-                </tr>
-            );
-        }
-
-        // Render separator for the collapsed section
-        renderedRows.push(
-            <tr key={`p${partIndex}-sep`}>
-                <td colSpan={4} className="text-gray-600 text-center select-none bg-gray-800 py-1 font-mono text-xs">...</td>
-            </tr>
-        );
-
-        // Skip the line numbers for the collapsed part
-        const linesSkipped = lines.length - (CONTEXT_LINES * 2);
-        leftLineNum += linesSkipped;
-        rightLineNum += linesSkipped;
+  // Case for no significant changes (e.g., only whitespace)
+  if (totalHunks === 0) {
+      return (
+         <div className="bg-gray-800/60 rounded-lg border border-gray-700/80 px-4 py-2 flex justify-between items-center gap-3">
+            <p className="text-sm font-mono text-gray-400 truncate" title={title}>{title}</p>
+            <p className="text-xs text-gray-500 italic flex-shrink-0">No significant changes</p>
+        </div>
+      );
+  }
 
-        // Render last CONTEXT_LINES
-        for (let i = lines.length - CONTEXT_LINES; i < lines.length; i++) {
-            const line = lines[i];
-             renderedRows.push(
-                <tr key={`p${partIndex}-e${i}`}>
-                    <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-gray-800/50 border-r border-gray-700">{leftLineNum++}</td>
-                    <td className="w-1/2 pr-2"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-                    <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-gray-800/50 border-r border-gray-700">{rightLineNum++}</td>
-                    <td className="w-1/2 pl-2"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-                </tr>
-            );
-        }
-      } else { // No truncation needed, render all common lines.
-        lines.forEach((line, lineIndex) => {
-            // An empty common part can be ignored.
-            if (line === '' && lines.length === 1) return;
-            renderedRows.push(
-                <tr key={`p${partIndex}-l${lineIndex}`}>
-                    <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-gray-800/50 border-r border-gray-700">{leftLineNum++}</td>
-                    <td className="w-1/2 pr-2"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-                    <td className="px-2 py-0.5 text-right text-xs text-gray-500 select-none w-10 bg-gray-800/50 border-r border-gray-700">{rightLineNum++}</td>
-                    <td className="w-1/2 pl-2"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-                </tr>
-            );
-        });
-      }
-    }
-  });
+  const renderHunkHeader = (hunkIndex: number) => {
+    const isSelected = hunkSelection[hunkIndex];
+    return (
+      <label className={`inline-flex items-center gap-2 ${isSelectable ? 'cursor-pointer' : ''}`}>
+        {isSelectable && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onToggleHunk?.(hunkIndex)}
+            className="accent-indigo-500"
+            aria-label={`Include change ${hunkIndex + 1} of ${totalHunks} in ${change.filePath}`}
+          />
+        )}
+        <span>Change {hunkIndex + 1} of {totalHunks}</span>
+        {!isSelected && <span className="italic text-red-400/80">discarded</span>}
+      </label>
+    );
+  };
 
   return (
-    <details className="bg-gray-900/70 rounded-lg border border-gray-700 overflow-hidden group">
+    <details className="bg-gray-900/70 rounded-lg border border-gray-700 overflow-hidden group" ref={detailsRef}>
       <summary className="px-4 py-2 bg-gray-700/50 text-sm text-gray-300 cursor-pointer flex justify-between items-center list-none hover:bg-gray-700 transition-colors group-open:border-b group-open:border-gray-700">
-        <span className="font-mono font-semibold">{change.filePath}</span>
+        <span className="flex items-center gap-2 min-w-0">
+          {isSelectable && (
+            <input
+              type="checkbox"
+              checked={isFileSelected}
+              ref={el => { if (el) el.indeterminate = isPartiallySelected; }}
+              onChange={() => onToggleFile?.()}
+              className="accent-indigo-500 flex-shrink-0"
+              aria-label={`Include ${change.filePath}`}
+            />
+          )}
+          <span className={`font-mono font-semibold truncate ${isFileSelected ? '' : 'line-through text-gray-500'}`} title={title}>{title}</span>
+          {change.renamedFrom && (
+            <span className="text-xs px-1.5 rounded bg-blue-900/50 text-blue-300 flex-shrink-0">renamed</span>
+          )}
+          {totalHunks > 1 && (
+            <span className="text-xs text-gray-400 flex-shrink-0">{selectedHunks}/{totalHunks} changes</span>
+          )}
+          {diagnostics.length > 0 ? (
+            <span className="flex items-center gap-1 text-xs text-red-400 flex-shrink-0">
+              <WarningIcon className="w-3.5 h-3.5" />
+              {diagnostics.length === 1 ? '1 syntax error' : `${diagnostics.length} syntax errors`}
+            </span>
+          ) : change.diagnostics && (
+            <span className="flex items-center gap-1 text-xs text-green-400/80 flex-shrink-0" title="The syntax check found no problems">
+              <CheckIcon className="w-3.5 h-3.5" />
+              Syntax OK
+            </span>
+          )}
+        </span>
         <ChevronDownIcon className="w-5 h-5 transition-transform duration-200 group-open:rotate-180" />
       </summary>
+      {diagnostics.length > 0 && (
+        <ul className="px-4 py-2 bg-red-900/20 border-b border-gray-700 text-xs text-red-300 space-y-0.5" aria-label={`Syntax errors in ${change.filePath}`}>
+          {diagnostics.map((diagnostic, i) => (
+            <li key={i}>
+              <span className="font-mono text-red-400">{diagnostic.line}:{diagnostic.column}</span> {diagnostic.message}
+            </li>
+          ))}
+        </ul>
+      )}
       <div className="overflow-x-auto text-gray-300">
-        <table className="w-full border-collapse">
-          <tbody>
-              {renderedRows}
-          </tbody>
-        </table>
+        <DiffView
+          filePath={change.filePath}
+          segments={segments}
+          options={diffOptions}
+          renderHunkHeader={renderHunkHeader}
+          isHunkDimmed={hunkIndex => !hunkSelection[hunkIndex]}
+        />
       </div>
     </details>
   );
@@ -1,6 +1,7 @@
 import React from 'react';
-import { diffLines } from 'diff';
-import type { UploadedFile } from '../types';
+import type { UploadedFile, DiffOptions } from '../types';
+import { splitIntoHunks } from '../utils/diffHunks';
+import { DiffView, DiffOptionsToolbar } from './DiffView';
 import { CopyIcon, CheckIcon, TrashIcon } from './Icons';
 
 interface FileDiffViewerProps {
@@ -8,19 +9,21 @@ interface FileDiffViewerProps {
     oldFile: UploadedFile;
     newFile: UploadedFile;
   } | null;
+  diffOptions: DiffOptions;
+  onDiffOptionsChange: (options: DiffOptions) => void;
   onClose: () => void;
-  onRevert: (file: UploadedFile) => void;
+  onRevert: (file: UploadedFile, targetVersion: UploadedFile) => void;
 }
 
-export function FileDiffViewer({ diff, onClose, onRevert }: FileDiffViewerProps): React.ReactElement | null {
+export function FileDiffViewer({ diff, diffOptions, onDiffOptionsChange, onClose, onRevert }: FileDiffViewerProps): React.ReactElement | null {
   const [copied, setCopied] = React.useState<'before' | 'after' | null>(null);
+  const segments = React.useMemo(() => (diff ? splitIntoHunks(diff.oldFile.content, diff.newFile.content) : []), [diff]);
 
   if (!diff) {
     return null;
   }
 
   const { oldFile, newFile } = diff;
-  const diffResult = diffLines(oldFile.content, newFile.content);
 
   const handleCopy = (version: 'before' | 'after') => {
     if (!diff) return;
@@ -31,52 +34,6 @@ export function FileDiffViewer({ diff, onClose, onRevert }: FileDiffViewerProps)
     });
   };
 
-  const renderDiff = () => {
-    const elements: React.ReactNode[] = [];
-    let leftLine = 1;
-    let rightLine = 1;
-
-    diffResult.forEach((part, index) => {
-      const lines = part.value.endsWith('\n') ? part.value.slice(0, -1).split('\n') : part.value.split('\n');
-      
-      if (part.added) {
-        elements.push(
-          ...lines.map((line, i) => (
-            <tr key={`diff-${index}-${i}`} className="bg-green-900/30">
-              <td className="px-2 py-0.5 text-right text-gray-500 text-xs select-none w-10 border-r border-gray-700 bg-gray-800 align-top"></td>
-              <td className="w-1/2 pr-2 align-top"></td>
-              <td className="px-2 py-0.5 text-right text-gray-500 text-xs select-none w-10 border-r border-gray-700 bg-gray-800 align-top">{rightLine++}</td>
-              <td className="w-1/2 pl-2 align-top"><span className="text-green-400 mr-2 select-none">+</span><span className="whitespace-pre-wrap">{line}</span></td>
-            </tr>
-          ))
-        );
-      } else if (part.removed) {
-         elements.push(
-          ...lines.map((line, i) => (
-             <tr key={`diff-${index}-${i}`} className="bg-red-900/30">
-              <td className="px-2 py-0.5 text-right text-gray-500 text-xs select-none w-10 border-r border-gray-700 bg-gray-800 align-top">{leftLine++}</td>
-              <td className="w-1/2 pr-2 align-top"><span className="text-red-400 mr-2 select-none">-</span><span className="whitespace-pre-wrap">{line}</span></td>
-              <td className="px-2 py-0.5 text-right text-gray-500 text-xs select-none w-10 border-r border-gray-700 bg-gray-800 align-top"></td>
-              <td className="w-1/2 pl-2 align-top"></td>
-            </tr>
-          ))
-        );
-      } else {
-        elements.push(
-          ...lines.map((line, i) => (
-             <tr key={`diff-${index}-${i}`}>
-              <td className="px-2 py-0.5 text-right text-gray-500 text-xs select-none w-10 border-r border-gray-700 bg-gray-800 align-top">{leftLine++}</td>
-              <td className="w-1/2 pr-2 align-top"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-              <td className="px-2 py-0.5 text-right text-gray-500 text-xs select-none w-10 border-r border-gray-700 bg-gray-800 align-top">{rightLine++}</td>
-              <td className="w-1/2 pl-2 align-top"><span className="text-gray-500 mr-2 select-none"> </span><span className="whitespace-pre-wrap">{line}</span></td>
-            </tr>
-          ))
-        );
-      }
-    });
-    return elements;
-  };
-
   return (
     <div
       className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
@@ -103,7 +60,7 @@ export function FileDiffViewer({ diff, onClose, onRevert }: FileDiffViewerProps)
                 {copied === 'after' ? 'Copied' : 'Copy After'}
             </button>
             <button
-              onClick={() => onRevert(newFile)}
+              onClick={() => onRevert(newFile, oldFile)}
               className="flex items-center gap-1.5 p-2 rounded-md hover:bg-gray-700 transition-colors text-sm text-red-400 hover:text-red-300"
               title={`Revert changes for ${newFile.path}`}
               aria-label={`Revert changes for ${newFile.path}`}
@@ -120,22 +77,16 @@ export function FileDiffViewer({ diff, onClose, onRevert }: FileDiffViewerProps)
             </button>
           </div>
         </div>
-        <div className="flex-1 overflow-y-auto font-mono text-sm" aria-labelledby="file-diff-viewer-title">
-          <table className="w-full border-collapse">
-            <thead className="sticky top-0 z-10">
-              <tr className="bg-gray-700/50">
-                <th colSpan={2} className="p-2 text-left font-semibold text-gray-300 border-r border-gray-700">
-                  Previous Version (Before)
-                </th>
-                <th colSpan={2} className="p-2 text-left font-semibold text-gray-300">
-                  Current Version (After)
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {renderDiff()}
-            </tbody>
-          </table>
+        <div className="px-4 py-2 border-b border-gray-700 flex-shrink-0">
+          <DiffOptionsToolbar options={diffOptions} onChange={onDiffOptionsChange} />
+        </div>
+        <div className="flex-1 overflow-y-auto text-gray-300" aria-labelledby="file-diff-viewer-title">
+          <DiffView
+            filePath={newFile.path}
+            segments={segments}
+            options={diffOptions}
+            columnLabels={{ old: 'Previous Version (Before)', new: 'Current Version (After)' }}
+          />
         </div>
       </div>
     </div>
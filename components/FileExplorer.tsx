@@ -1,19 +1,36 @@
 import React, { useRef, useMemo, useState } from 'react';
-import type { UploadedFile, FileTreeNode, TreeNodeValue, GeminiModel } from '../types';
-import { UploadIcon, FolderIcon, FileIcon, TrashIcon, DownloadIcon, EyeIcon, SummaryIcon, MemoryIcon } from './Icons';
+import type { UploadedFile, FileTreeNode, TreeNodeValue, ModelId, ModelOption, ZipExportScope } from '../types';
+import { downloadBlob } from '../utils/download';
+import { UploadIcon, FolderIcon, FileIcon, TrashIcon, DownloadIcon, EyeIcon, SummaryIcon, MemoryIcon, WorkspaceIcon, HistoryIcon, SearchIcon, SlidersIcon } from './Icons';
 
 interface FileExplorerProps {
   files: UploadedFile[];
   modifiedFiles: Record<string, number>;
-  model: GeminiModel;
+  model: ModelId;
+  availableModels: ModelOption[];
+  modelListErrors: string[];
   isLoading: boolean;
+  onModelChange: (model: ModelId) => void;
+  onOpenModelSettings: () => void;
   onFileUpload: (files: FileList | null) => void;
+  // Whether the browser can open a folder for reading and writing (File System Access API).
+  canOpenFolder: boolean;
+  // The name of the folder on disk the session is synced with, if any.
+  localFolderName: string | null;
+  onOpenFolder: () => void;
+  onReloadFolder: () => void;
+  onDisconnectFolder: () => void;
   onViewFile: (file: UploadedFile) => void;
   onViewDiff: (file: UploadedFile) => void;
   onAddChatMessage: (message: string) => void;
   onAcknowledgeFileChange: (filePath: string) => void;
   onGenerateContext: () => void;
   onEditMemory: () => void;
+  onManageWorkspaces: () => void;
+  onOpenHistory: () => void;
+  onOpenSearch: () => void;
+  onExportZip: (scope: ZipExportScope) => void;
+  onExportPatch: () => void;
 }
 
 interface FileTreeProps {
@@ -177,15 +194,24 @@ const FileTree = ({ node, modifiedFiles, onDownloadFile, onViewFile, onViewDiff,
 
 export const FileExplorer = (props: FileExplorerProps): React.ReactElement => {
   const { 
-    files, modifiedFiles, model, isLoading,
-    onFileUpload, onViewFile, onViewDiff, onAddChatMessage, 
-    onAcknowledgeFileChange, onGenerateContext, onEditMemory
+    files, modifiedFiles, model, availableModels, modelListErrors, isLoading,
+    onModelChange, onOpenModelSettings, onFileUpload, canOpenFolder, localFolderName, onOpenFolder, onReloadFolder, onDisconnectFolder, onViewFile, onViewDiff, onAddChatMessage, 
+    onAcknowledgeFileChange, onGenerateContext, onEditMemory, onManageWorkspaces, onOpenHistory, onOpenSearch, onExportZip, onExportPatch
   } = props;
   
   const inputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const fileTree = useMemo(() => buildFileTree(files || []), [files]);
 
+  // Group the models by provider for the selector, keeping the providers' order.
+  const modelGroups = useMemo(() => {
+    const groups = new Map<string, ModelOption[]>();
+    availableModels.forEach(option => {
+      groups.set(option.providerLabel, [...(groups.get(option.providerLabel) ?? []), option]);
+    });
+    return Array.from(groups.entries());
+  }, [availableModels]);
+
   const handleButtonClick = () => {
     inputRef.current?.click();
   };
@@ -220,19 +246,12 @@ export const FileExplorer = (props: FileExplorerProps): React.ReactElement => {
 
   const handleDownloadFile = (file: UploadedFile) => {
     const blob = new Blob([file.content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    const fileName = file.path.split('/').pop() || 'download.txt';
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, file.path.split('/').pop() || 'download.txt');
     onAcknowledgeFileChange(file.path);
   };
 
   const hasFiles = files.length > 0;
+  const hasModifiedFiles = Object.keys(modifiedFiles).length > 0;
 
   return (
     <div 
@@ -245,6 +264,31 @@ export const FileExplorer = (props: FileExplorerProps): React.ReactElement => {
         <div className="flex justify-between items-center">
           <h2 className="text-xl font-semibold text-gray-200">File Explorer</h2>
           <div className="flex items-center space-x-1">
+            <button
+              onClick={onOpenSearch}
+              disabled={!hasFiles}
+              className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Search the project"
+              aria-label="Search the project"
+            >
+              <SearchIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onManageWorkspaces}
+              className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md transition-colors"
+              title="Saved Workspaces"
+              aria-label="Saved Workspaces"
+            >
+              <WorkspaceIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onOpenHistory}
+              className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md transition-colors"
+              title="History"
+              aria-label="History"
+            >
+              <HistoryIcon className="w-5 h-5" />
+            </button>
             <button
               onClick={onEditMemory}
               className="p-2 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md transition-colors"
@@ -266,12 +310,43 @@ export const FileExplorer = (props: FileExplorerProps): React.ReactElement => {
         </div>
         
         <div className="space-y-1">
-          <span className="block text-xs font-medium text-gray-400">
-            AI Model
-          </span>
-          <div className="w-full bg-gray-700/50 border border-gray-600/50 text-gray-300 text-sm rounded-md p-2 font-mono">
-            {model}
+          <div className="flex justify-between items-center">
+            <label htmlFor="model-select" className="block text-xs font-medium text-gray-400">
+              AI Model
+            </label>
+            <button
+              onClick={onOpenModelSettings}
+              className="p-1 text-gray-400 hover:text-indigo-400 hover:bg-gray-700 rounded-md transition-colors"
+              title="Model settings: temperature, output length, thinking, presets"
+              aria-label="Model settings"
+            >
+              <SlidersIcon className="w-4 h-4" />
+            </button>
           </div>
+          <select
+            id="model-select"
+            value={model}
+            onChange={(e) => onModelChange(e.target.value)}
+            disabled={isLoading || availableModels.length === 0}
+            className="w-full bg-gray-700/50 border border-gray-600/50 text-gray-300 text-sm rounded-md p-2 font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:cursor-not-allowed"
+          >
+            {availableModels.length === 0 ? (
+              <option value={model}>{model}</option>
+            ) : (
+              modelGroups.map(([providerLabel, options]) => (
+                <optgroup key={providerLabel} label={providerLabel}>
+                  {options.map(option => (
+                    <option key={option.id} value={option.id}>{option.model}</option>
+                  ))}
+                </optgroup>
+              ))
+            )}
+          </select>
+          {modelListErrors.map(error => (
+            <p key={error} className="text-xs text-yellow-400" title={error}>
+              Could not load models from {error}
+            </p>
+          ))}
         </div>
       </div>
 
@@ -287,7 +362,7 @@ export const FileExplorer = (props: FileExplorerProps): React.ReactElement => {
           </div>
         )}
       </div>
-      <div className="p-4 border-t border-gray-700/50">
+      <div className="p-4 border-t border-gray-700/50 space-y-2">
         <input
           type="file"
           ref={inputRef}
@@ -297,13 +372,81 @@ export const FileExplorer = (props: FileExplorerProps): React.ReactElement => {
           webkitdirectory="true"
           directory="true"
         />
+        {localFolderName ? (
+          <div className="p-2 rounded-md border border-indigo-500/40 bg-indigo-900/20 space-y-2">
+            <p className="text-xs text-indigo-200 flex items-center min-w-0" title="Applied changes are written to this folder on disk">
+              <FolderIcon className="w-4 h-4 mr-1.5 flex-shrink-0" />
+              <span className="truncate">Synced with <span className="font-semibold">{localFolderName}</span></span>
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={onReloadFolder}
+                disabled={isLoading}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1.5 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Replace the session's version of every file with the one on disk"
+              >
+                Reload from disk
+              </button>
+              <button
+                onClick={onDisconnectFolder}
+                className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1.5 px-2 rounded-md transition-colors"
+                title="Stop writing changes to the folder"
+              >
+                Disconnect
+              </button>
+            </div>
+          </div>
+        ) : canOpenFolder && (
+          <button
+            onClick={onOpenFolder}
+            disabled={isLoading}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-md transition-all duration-200 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Open a folder on disk. Applied changes are written straight back to it."
+          >
+            <FolderIcon className="w-5 h-5 mr-2" />
+            Open Folder
+          </button>
+        )}
         <button
           onClick={handleButtonClick}
-          className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-md transition-all duration-200 flex items-center justify-center"
+          className={`w-full font-bold py-2 px-4 rounded-md transition-all duration-200 flex items-center justify-center ${canOpenFolder ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-indigo-600 hover:bg-indigo-500 text-white'}`}
         >
           <UploadIcon className="w-5 h-5 mr-2" />
           {hasFiles ? 'Add/Update Folder' : 'Upload Project Folder'}
         </button>
+        {hasFiles && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onExportZip('modified')}
+              disabled={isLoading || !hasModifiedFiles}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1.5 px-2 rounded-md transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download modified files (zip)"
+            >
+              <DownloadIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+              Modified (zip)
+            </button>
+            <button
+              onClick={() => onExportZip('project')}
+              disabled={isLoading}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1.5 px-2 rounded-md transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download whole project (zip)"
+            >
+              <DownloadIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+              Project (zip)
+            </button>
+          </div>
+        )}
+        {hasFiles && (
+          <button
+            onClick={onExportPatch}
+            disabled={isLoading}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1.5 px-2 rounded-md transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Download all changes made since upload as a patch for git apply"
+          >
+            <DownloadIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+            Session changes (patch)
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,49 +1,228 @@
 import React from 'react';
 import type { UploadedFile } from '../types';
-import { CopyIcon, CheckIcon } from './Icons';
+import { highlightCode, getLanguageForPath } from '../utils/syntaxHighlight';
+import { escapeRegExp } from '../utils/projectSearch';
+import { CodeLine } from './CodeLine';
+import { CopyIcon, CheckIcon, SaveIcon, SearchIcon, ChevronUpIcon, ChevronDownIcon } from './Icons';
 
 interface FileViewerProps {
   file: UploadedFile | null;
+  // The line to scroll to and select when the file is opened, e.g. a search result.
+  line?: number | null;
+  onSave: (path: string, content: string) => void;
   onClose: () => void;
 }
 
-export function FileViewer({ file, onClose }: FileViewerProps): React.ReactElement | null {
+interface TextMatch {
+  start: number;
+  end: number;
+}
+
+// Matches the editor's `leading-5`; used to scroll a match into view.
+const LINE_HEIGHT_PX = 20;
+
+const findMatches = (content: string, query: string, caseSensitive: boolean): TextMatch[] => {
+  if (!query) return [];
+  const regex = new RegExp(escapeRegExp(query), caseSensitive ? 'g' : 'gi');
+  return Array.from(content.matchAll(regex), match => ({ start: match.index!, end: match.index! + match[0].length }));
+};
+
+export function FileViewer({ file, line = null, onSave, onClose }: FileViewerProps): React.ReactElement | null {
   const [copied, setCopied] = React.useState(false);
+  // The edited content; null until the user changes something.
+  const [editedContent, setEditedContent] = React.useState<string | null>(null);
+  const [isFindOpen, setIsFindOpen] = React.useState(false);
+  const [query, setQuery] = React.useState('');
+  const [replacement, setReplacement] = React.useState('');
+  const [caseSensitive, setCaseSensitive] = React.useState(false);
+  const [matchIndex, setMatchIndex] = React.useState(0);
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const findInputRef = React.useRef<HTMLInputElement>(null);
+
+  const draft = editedContent ?? file?.content ?? '';
+  const setDraft = (content: string) => setEditedContent(content);
+
+  // Start over from the file's content whenever another file (or a saved version) is shown.
+  React.useEffect(() => {
+    setEditedContent(null);
+  }, [file]);
+
+  // Select the requested line when a file is opened, but not when a saved version of the
+  // same file replaces it.
+  React.useEffect(() => {
+    const textarea = textareaRef.current;
+    const container = scrollRef.current;
+    if (!file || !line || !textarea || !container) return;
+    const lines = file.content.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    container.scrollTop = (line - 1) * LINE_HEIGHT_PX - container.clientHeight / 2;
+  }, [file?.path, line]);
+
+  const language = React.useMemo(() => getLanguageForPath(file?.path ?? ''), [file?.path]);
+  const lines = React.useMemo(() => highlightCode(draft, language), [draft, language]);
+  const matches = React.useMemo(() => findMatches(draft, isFindOpen ? query : '', caseSensitive), [draft, query, isFindOpen, caseSensitive]);
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : undefined;
+
+  // Matches never span lines, since the find box is a single line.
+  const lineMatches = React.useMemo(() => {
+    const byLine = new Map<number, TextMatch[]>();
+    let line = 0;
+    let lineEnd = draft.indexOf('\n');
+    matches.forEach(match => {
+      while (lineEnd !== -1 && match.start > lineEnd) {
+        line++;
+        lineEnd = draft.indexOf('\n', lineEnd + 1);
+      }
+      byLine.set(line, [...(byLine.get(line) ?? []), match]);
+    });
+    return byLine;
+  }, [draft, matches]);
 
   if (!file) {
     return null;
   }
 
+  const isDirty = draft !== file.content;
+  const lineStarts: number[] = [];
+  lines.reduce((offset, line) => {
+    lineStarts.push(offset);
+    return offset + line.reduce((length, token) => length + token.text.length, 0) + 1;
+  }, 0);
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(file.content).then(() => {
+    navigator.clipboard.writeText(draft).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     });
   };
 
+  const handleSave = () => {
+    if (isDirty) {
+      onSave(file.path, draft);
+    }
+  };
+
+  const requestClose = () => {
+    if (isDirty && !window.confirm(`Discard your unsaved changes to ${file.path}?`)) {
+      return;
+    }
+    onClose();
+  };
+
+  const openFind = () => {
+    setIsFindOpen(true);
+    // The find bar may not be rendered yet.
+    setTimeout(() => findInputRef.current?.select());
+  };
+
+  /**
+   * Selects a match in the editor and scrolls its line into view.
+   */
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    const match = matches[wrapped];
+    setMatchIndex(wrapped);
+    textareaRef.current?.setSelectionRange(match.start, match.end);
+    const line = draft.slice(0, match.start).split('\n').length - 1;
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = line * LINE_HEIGHT_PX - scrollRef.current.clientHeight / 2;
+    }
+  };
+
+  const handleReplace = () => {
+    if (!currentMatch) return;
+    setDraft(draft.slice(0, currentMatch.start) + replacement + draft.slice(currentMatch.end));
+  };
+
+  const handleReplaceAll = () => {
+    if (!query) return;
+    const regex = new RegExp(escapeRegExp(query), caseSensitive ? 'g' : 'gi');
+    setDraft(draft.replace(regex, () => replacement));
+    setMatchIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const isShortcut = e.ctrlKey || e.metaKey;
+    if (isShortcut && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      handleSave();
+    } else if (isShortcut && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      openFind();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (isFindOpen) {
+        setIsFindOpen(false);
+        textareaRef.current?.focus();
+      } else {
+        requestClose();
+      }
+    }
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Tab' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      // insertText keeps the browser's undo history, unlike setting the value.
+      document.execCommand('insertText', false, '  ');
+    }
+  };
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToMatch(matchIndex + (e.shiftKey ? -1 : 1));
+    }
+  };
+
   return (
     <div
       className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
-      onClick={onClose}
+      onClick={requestClose}
       aria-modal="true"
       role="dialog"
     >
       <div
-        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh]"
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl flex flex-col h-[90vh]"
         onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
       >
         <div className="p-4 flex justify-between items-center border-b border-gray-700 flex-shrink-0">
-          <div>
-            <h2 id="file-viewer-title" className="text-lg font-semibold text-gray-100">View File</h2>
-            <p className="text-sm text-gray-400 mt-1 font-mono">{file.path}</p>
+          <div className="min-w-0">
+            <h2 id="file-viewer-title" className="text-lg font-semibold text-gray-100">
+              Edit File
+              {isDirty && <span className="ml-2 text-xs font-normal text-yellow-400">Unsaved changes</span>}
+            </h2>
+            <p className="text-sm text-gray-400 mt-1 font-mono truncate">{file.path}</p>
           </div>
-          <div className="flex items-center space-x-2">
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <button
+              onClick={() => (isFindOpen ? setIsFindOpen(false) : openFind())}
+              className={`flex items-center gap-1.5 p-2 rounded-md hover:bg-gray-700 transition-colors text-sm ${isFindOpen ? 'text-indigo-300' : 'text-gray-300'}`}
+              title="Find and replace (Ctrl+F)"
+            >
+              <SearchIcon className="w-4 h-4" />
+              Find
+            </button>
             <button onClick={handleCopy} className="flex items-center gap-1.5 p-2 rounded-md hover:bg-gray-700 transition-colors text-sm text-gray-300">
               {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <CopyIcon className="w-4 h-4" />}
               {copied ? 'Copied!' : 'Copy Content'}
             </button>
             <button
-              onClick={onClose}
+              onClick={handleSave}
+              disabled={!isDirty}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white font-semibold transition-colors text-sm disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+              title="Save (Ctrl+S)"
+            >
+              <SaveIcon className="w-4 h-4" />
+              Save
+            </button>
+            <button
+              onClick={requestClose}
               className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors text-sm"
               aria-label="Close file viewer"
             >
@@ -51,8 +230,80 @@ export function FileViewer({ file, onClose }: FileViewerProps): React.ReactEleme
             </button>
           </div>
         </div>
-        <div className="flex-1 p-4 overflow-y-auto" aria-labelledby="file-viewer-title">
-          <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono">{file.content}</pre>
+        {isFindOpen && (
+          <div className="px-4 py-2 flex flex-wrap items-center gap-2 border-b border-gray-700 bg-gray-800/80 text-sm flex-shrink-0">
+            <input
+              ref={findInputRef}
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setMatchIndex(0);
+              }}
+              onKeyDown={handleFindKeyDown}
+              placeholder="Find"
+              className="w-48 px-2 py-1 bg-gray-900 text-gray-200 rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Find"
+            />
+            <input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder="Replace with"
+              className="w-48 px-2 py-1 bg-gray-900 text-gray-200 rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Replace with"
+            />
+            <label className="flex items-center gap-1 text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+              Match case
+            </label>
+            <span className="text-gray-400 w-20 text-center">
+              {!query ? '' : matches.length === 0 ? 'No results' : `${Math.min(matchIndex, matches.length - 1) + 1} of ${matches.length}`}
+            </span>
+            <button onClick={() => goToMatch(matchIndex - 1)} disabled={matches.length === 0} className="p-1 rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-40" title="Previous match (Shift+Enter)" aria-label="Previous match">
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => goToMatch(matchIndex + 1)} disabled={matches.length === 0} className="p-1 rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-40" title="Next match (Enter)" aria-label="Next match">
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button onClick={handleReplace} disabled={!currentMatch} className="px-2 py-1 rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-40">
+              Replace
+            </button>
+            <button onClick={handleReplaceAll} disabled={matches.length === 0} className="px-2 py-1 rounded-md text-gray-300 hover:bg-gray-700 disabled:opacity-40">
+              Replace all
+            </button>
+          </div>
+        )}
+        <div ref={scrollRef} className="flex-1 overflow-auto bg-gray-900 font-mono text-sm leading-5 rounded-b-lg" aria-labelledby="file-viewer-title">
+          <div className="flex min-w-max min-h-full">
+            <div className="sticky left-0 py-3 px-3 text-right text-gray-500 bg-gray-900 border-r border-gray-700 select-none" aria-hidden="true">
+              {lines.map((_, index) => <div key={index}>{index + 1}</div>)}
+            </div>
+            <div className="relative flex-1">
+              <pre className="py-3 px-3 whitespace-pre font-mono text-sm leading-5 pointer-events-none" aria-hidden="true">
+                {lines.map((line, index) => (
+                  <div key={index} className="min-h-[1.25rem]">
+                    <CodeLine
+                      tokens={line}
+                      marks={(lineMatches.get(index) ?? []).map(match => ({
+                        start: match.start - lineStarts[index],
+                        end: match.end - lineStarts[index],
+                        className: match === currentMatch ? 'bg-orange-500/60 rounded-sm' : 'bg-yellow-500/30 rounded-sm',
+                      }))}
+                    />
+                  </div>
+                ))}
+              </pre>
+              <textarea
+                ref={textareaRef}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditorKeyDown}
+                spellCheck={false}
+                wrap="off"
+                className="absolute inset-0 w-full h-full py-3 px-3 resize-none overflow-hidden whitespace-pre bg-transparent text-transparent caret-white font-mono text-sm leading-5 focus:outline-none selection:bg-indigo-500/40"
+                aria-label={`Contents of ${file.path}`}
+              />
+            </div>
+          </div>
         </div>
       </div>
     </div>
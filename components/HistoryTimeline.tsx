@@ -0,0 +1,156 @@
+import React, { useState, useMemo } from 'react';
+import type { UploadedFile, FileTimeline } from '../types';
+import { diffFileSets } from '../utils/patch';
+import { HistoryIcon, FileIcon } from './Icons';
+
+interface HistoryTimelineProps {
+  isOpen: boolean;
+  timeline: FileTimeline;
+  currentFiles: UploadedFile[];
+  onClose: () => void;
+  onRestore: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCompare: (oldFile: UploadedFile, newFile: UploadedFile) => void;
+}
+
+const formatTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+};
+
+export function HistoryTimeline({ isOpen, timeline, currentFiles, onClose, onRestore, onUndo, onRedo, onCompare }: HistoryTimelineProps): React.ReactElement | null {
+  const [comparedId, setComparedId] = useState<string | null>(null);
+
+  const comparedSnapshot = timeline.snapshots.find(snapshot => snapshot.id === comparedId) ?? null;
+  const comparison = useMemo(
+    () => (comparedSnapshot ? diffFileSets(comparedSnapshot.files, currentFiles) : []),
+    [comparedSnapshot, currentFiles]
+  );
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const canUndo = timeline.currentIndex > 0;
+  const canRedo = timeline.currentIndex < timeline.snapshots.length - 1;
+  // Newest first, keeping each snapshot's position in the timeline.
+  const entries = timeline.snapshots.map((snapshot, index) => ({ snapshot, index })).reverse();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-start gap-4">
+          <div>
+            <h2 id="history-timeline-title" className="text-xl font-semibold text-gray-100">History</h2>
+            <p className="text-sm text-gray-400 mt-1">Every state of the project files in this session. Compare any state with the current files, or restore it; later states stay available to redo.</p>
+          </div>
+          <div className="flex space-x-2 flex-shrink-0">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="px-3 py-1 rounded text-sm font-semibold bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="px-3 py-1 rounded text-sm font-semibold bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Redo
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-2" aria-labelledby="history-timeline-title">
+          {entries.map(({ snapshot, index }) => {
+            const isCurrent = index === timeline.currentIndex;
+            const isUndone = index > timeline.currentIndex;
+            const isCompared = snapshot.id === comparedId;
+            return (
+              <div
+                key={snapshot.id}
+                className={`p-3 rounded-md border ${isCurrent ? 'border-indigo-500/60 bg-indigo-900/20' : 'border-gray-700 bg-gray-900/40'} ${isUndone ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    <HistoryIcon className="w-5 h-5 mr-3 flex-shrink-0 text-gray-400" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-200 truncate" title={snapshot.label}>
+                        {snapshot.label}
+                        {isCurrent && <span className="ml-2 text-xs text-indigo-300">(current)</span>}
+                        {isUndone && <span className="ml-2 text-xs text-gray-500">(undone)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">{formatTime(snapshot.timestamp)} · {snapshot.files.length} files</p>
+                    </div>
+                  </div>
+                  {!isCurrent && (
+                    <div className="flex items-center space-x-1 flex-shrink-0 ml-3">
+                      <button
+                        onClick={() => setComparedId(isCompared ? null : snapshot.id)}
+                        className="px-3 py-1 rounded text-sm bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+                      >
+                        {isCompared ? 'Hide' : 'Compare'}
+                      </button>
+                      <button
+                        onClick={() => onRestore(index)}
+                        className="px-3 py-1 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {isCompared && (
+                  <div className="mt-3 pt-2 border-t border-gray-700">
+                    {comparison.length === 0 ? (
+                      <p className="text-xs text-gray-500">Identical to the current files.</p>
+                    ) : (
+                      <ul className="space-y-0.5">
+                        {comparison.map(change => (
+                          <li key={change.path}>
+                            <button
+                              onClick={() => onCompare(
+                                { path: change.path, content: change.oldContent ?? '' },
+                                { path: change.path, content: change.newContent ?? '' }
+                              )}
+                              className="w-full flex items-center text-left text-xs text-gray-300 hover:bg-gray-700/60 rounded px-2 py-1"
+                              title={`Compare ${change.path} with the current version`}
+                            >
+                              <FileIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+                              <span className="font-mono truncate flex-1">{change.path}</span>
+                              <span className="ml-2 flex-shrink-0 text-gray-500">
+                                {change.oldContent === null ? 'added since' : change.newContent === null ? 'deleted since' : 'changed since'}
+                              </span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="p-4 flex justify-end bg-gray-800 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
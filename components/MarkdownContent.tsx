@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown } from '../utils/markdown';
+import type { MarkdownBlock, MarkdownInline } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  // Text colour and any other classes for the wrapper, so warnings and errors keep their tint.
+  className?: string;
+}
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm'];
+
+const renderInlines = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.value}</React.Fragment>;
+      case 'code':
+        return <code key={i} className="px-1 py-0.5 rounded bg-gray-900/70 font-mono text-[0.9em] text-indigo-200">{node.value}</code>;
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInlines(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInlines(node.children)}</em>;
+      case 'strikethrough':
+        return <del key={i}>{renderInlines(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline hover:text-indigo-200">
+            {renderInlines(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} font-semibold`}>{renderInlines(block.children)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={i}>{renderInlines(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={i} className="p-3 rounded-md bg-gray-900/80 border border-gray-700 overflow-auto max-h-80 text-sm" title={block.language || undefined}>
+            <code className="font-mono text-gray-200">{block.value}</code>
+          </pre>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex} className="space-y-1">{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={i} className="pl-3 border-l-4 border-gray-500 opacity-90 space-y-2">{renderBlocks(block.children)}</blockquote>;
+      case 'table':
+        return (
+          <div key={i} className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} style={{ textAlign: block.align[column] ?? undefined }} className="px-3 py-1.5 border border-gray-600 bg-gray-800/60 font-semibold">
+                      {renderInlines(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} style={{ textAlign: block.align[column] ?? undefined }} className="px-3 py-1.5 border border-gray-600">
+                        {renderInlines(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={i} className="border-gray-600" />;
+    }
+  });
+
+/**
+ * Renders Markdown as React elements. The source is parsed into data and every piece of
+ * text goes through React's escaping, so model output can't inject markup or scripts,
+ * and only http(s), mailto and in-page links are kept.
+ */
+export function MarkdownContent({ content, className = '' }: MarkdownContentProps): React.ReactElement {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className={`space-y-3 break-words ${className}`}>{renderBlocks(blocks)}</div>;
+}
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import type { FileMerge, ConflictChoice, CleanRegion } from '../utils/threeWayMerge';
+import { resolveMerge } from '../utils/threeWayMerge';
+import { WarningIcon } from './Icons';
+
+interface MergeConflictDialogProps {
+  // The files whose project content changed after the proposal was made; null when closed.
+  merges: FileMerge[] | null;
+  // Receives the resolved content of every merged file, by path. Empty content deletes the file.
+  onApply: (contents: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+// Unchanged lines shown around a conflict; longer runs are collapsed.
+const CONTEXT_LINES = 3;
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  current: 'Keep project',
+  proposed: 'Use proposal',
+  both: 'Keep both',
+};
+
+const toLines = (text: string): string[] => text.replace(/\n$/, '').split('\n');
+
+/**
+ * Shows the unchanged lines next to conflicts and collapses the rest of a clean region.
+ */
+const renderCleanRegion = (region: CleanRegion, isFirst: boolean, isLast: boolean): React.ReactNode => {
+  const lines = toLines(region.value);
+  const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES);
+  const tail = isLast ? [] : lines.slice(Math.max(head.length, lines.length - CONTEXT_LINES));
+  const hiddenCount = lines.length - head.length - tail.length;
+  return (
+    <>
+      {head.length > 0 && <pre className="px-3 text-gray-500">{head.join('\n')}</pre>}
+      {hiddenCount > 0 && <p className="px-3 py-0.5 text-gray-600 italic select-none">⋯ {hiddenCount} merged line(s) ⋯</p>}
+      {tail.length > 0 && <pre className="px-3 text-gray-500">{tail.join('\n')}</pre>}
+    </>
+  );
+};
+
+export function MergeConflictDialog({ merges, onApply, onCancel }: MergeConflictDialogProps): React.ReactElement | null {
+  // Per file, the choice made for each conflict, by conflict index.
+  const [choices, setChoices] = useState<Record<string, ConflictChoice[]>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [merges]);
+
+  if (!merges) {
+    return null;
+  }
+
+  const totalConflicts = merges.reduce((acc, merge) => acc + merge.conflictCount, 0);
+  const resolvedConflicts = merges.reduce((acc, merge) => acc + (choices[merge.filePath] ?? []).filter(Boolean).length, 0);
+
+  const choose = (filePath: string, conflictIndex: number, choice: ConflictChoice) => {
+    setChoices(prev => {
+      const fileChoices = [...(prev[filePath] ?? [])];
+      fileChoices[conflictIndex] = choice;
+      return { ...prev, [filePath]: fileChoices };
+    });
+  };
+
+  const chooseAll = (merge: FileMerge, choice: ConflictChoice) => {
+    setChoices(prev => ({ ...prev, [merge.filePath]: Array(merge.conflictCount).fill(choice) }));
+  };
+
+  const handleApply = () => {
+    if (resolvedConflicts < totalConflicts) return;
+    onApply(Object.fromEntries(merges.map(merge => [merge.filePath, resolveMerge(merge.regions, choices[merge.filePath] ?? [])])));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+      onClick={onCancel}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-100">Resolve Conflicts</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            These files changed in the project after the AI proposed its changes. Changes that don't overlap were merged;
+            for each conflict, choose what to keep. Nothing is applied until every conflict is resolved.
+          </p>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto space-y-4">
+          {merges.map(merge => (
+            <section key={merge.filePath} className="rounded-lg border border-gray-700 overflow-hidden">
+              <div className="px-3 py-2 bg-gray-700/50 flex items-center justify-between gap-3">
+                <span className="font-mono text-sm font-semibold text-gray-200 truncate" title={merge.filePath}>{merge.filePath}</span>
+                {merge.conflictCount === 0 ? (
+                  <span className="text-xs text-green-400 flex-shrink-0">Merged without conflicts</span>
+                ) : (
+                  <span className="flex items-center gap-2 flex-shrink-0 text-xs">
+                    <span className="text-yellow-400">{merge.conflictCount} conflict(s)</span>
+                    {(['current', 'proposed'] as ConflictChoice[]).map(choice => (
+                      <button
+                        key={choice}
+                        onClick={() => chooseAll(merge, choice)}
+                        className="px-2 py-0.5 rounded bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+                      >
+                        {choice === 'current' ? 'Keep project for all' : 'Use proposal for all'}
+                      </button>
+                    ))}
+                  </span>
+                )}
+              </div>
+              {merge.conflictCount > 0 && (
+                <div className="py-2 text-xs font-mono overflow-x-auto bg-gray-900/70 space-y-1">
+                  {merge.regions.map((region, regionIndex) => {
+                    if (region.type === 'clean') {
+                      return (
+                        <React.Fragment key={regionIndex}>
+                          {renderCleanRegion(region, regionIndex === 0, regionIndex === merge.regions.length - 1)}
+                        </React.Fragment>
+                      );
+                    }
+                    const choice = choices[merge.filePath]?.[region.conflictIndex];
+                    return (
+                      <div key={regionIndex} className={`mx-2 rounded-md border ${choice ? 'border-gray-600' : 'border-yellow-500/60'}`}>
+                        <div className="grid grid-cols-2 divide-x divide-gray-700">
+                          <div className={choice === 'proposed' ? 'opacity-40' : ''}>
+                            <p className="px-2 py-1 text-[11px] font-sans text-blue-300 bg-blue-900/30">In the project now</p>
+                            <pre className="px-2 py-1 text-gray-200 whitespace-pre-wrap">{region.current ? region.current.replace(/\n$/, '') : <span className="italic text-gray-500">(removed)</span>}</pre>
+                          </div>
+                          <div className={choice === 'current' ? 'opacity-40' : ''}>
+                            <p className="px-2 py-1 text-[11px] font-sans text-green-300 bg-green-900/30">Proposed by the AI</p>
+                            <pre className="px-2 py-1 text-gray-200 whitespace-pre-wrap">{region.proposed ? region.proposed.replace(/\n$/, '') : <span className="italic text-gray-500">(removed)</span>}</pre>
+                          </div>
+                        </div>
+                        <div className="px-2 py-1.5 border-t border-gray-700 flex items-center gap-2 font-sans">
+                          {!choice && <WarningIcon className="w-3.5 h-3.5 text-yellow-400" />}
+                          {(Object.keys(CHOICE_LABELS) as ConflictChoice[]).map(option => (
+                            <button
+                              key={option}
+                              onClick={() => choose(merge.filePath, region.conflictIndex, option)}
+                              aria-pressed={choice === option}
+                              className={`px-2 py-0.5 rounded transition-colors ${choice === option ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                            >
+                              {CHOICE_LABELS[option]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+
+        <div className="p-4 flex justify-between items-center gap-3 bg-gray-800 border-t border-gray-700">
+          <span className="text-sm text-gray-400">{resolvedConflicts} of {totalConflicts} conflict(s) resolved</span>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={resolvedConflicts < totalConflicts}
+              className="px-4 py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply Merged Changes
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
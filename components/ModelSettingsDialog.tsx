@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ModelId, ModelOption, GenerationSettings, GenerationPreset } from '../types';
+import { MAX_TEMPERATURE, DEFAULT_GENERATION_SETTINGS, describeGenerationSettings } from '../utils/generationSettings';
+import { formatTokenCount } from '../utils/contextBudget';
+import { TrashIcon } from './Icons';
+
+interface ModelSettingsDialogProps {
+  isOpen: boolean;
+  model: ModelId;
+  availableModels: ModelOption[];
+  // The current model's settings.
+  settings: GenerationSettings;
+  presets: GenerationPreset[];
+  // The model that writes session summaries; null to use the chat model.
+  summaryModel: ModelId | null;
+  // The temperature of session summaries, which doesn't follow the summarization model's.
+  summaryTemperature: number;
+  onSettingsChange: (settings: GenerationSettings) => void;
+  onResetSettings: () => void;
+  onSavePreset: (name: string) => void;
+  onApplyPreset: (preset: GenerationPreset) => void;
+  onDeletePreset: (id: string) => void;
+  onSummaryModelChange: (model: ModelId | null) => void;
+  onSummaryTemperatureChange: (temperature: number) => void;
+  onClose: () => void;
+}
+
+// A thinking budget used when the user switches from the model's default to a custom budget.
+const DEFAULT_CUSTOM_THINKING_BUDGET = 8192;
+
+interface OptionalNumberInputProps {
+  id: string;
+  value: number | null;
+  min: number;
+  max: number;
+  placeholder: string;
+  onChange: (value: number | null) => void;
+}
+
+/**
+ * A number field that may be left empty. The value is checked and kept within its range
+ * when the field loses focus or Enter is pressed, not on every keystroke.
+ */
+const OptionalNumberInput = ({ id, value, min, max, placeholder, onChange }: OptionalNumberInputProps): React.ReactElement => {
+  const [draft, setDraft] = useState(value === null ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === null ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (!draft.trim()) {
+      onChange(null);
+    } else if (Number.isFinite(parsed)) {
+      onChange(Math.min(max, Math.max(min, parsed)));
+    } else {
+      setDraft(value === null ? '' : String(value));
+    }
+  };
+
+  return (
+    <input
+      id={id}
+      type="number"
+      value={draft}
+      min={min}
+      max={max}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      className="w-full bg-gray-900 text-gray-200 text-sm rounded-md border border-gray-700 px-2 py-1.5 focus:ring-2 focus:ring-indigo-500 focus:outline-none placeholder-gray-500"
+    />
+  );
+};
+
+export function ModelSettingsDialog({
+  isOpen, model, availableModels, settings, presets, summaryModel, summaryTemperature,
+  onSettingsChange, onResetSettings, onSavePreset, onApplyPreset, onDeletePreset, onSummaryModelChange, onSummaryTemperatureChange, onClose,
+}: ModelSettingsDialogProps): React.ReactElement | null {
+  const [presetName, setPresetName] = useState('');
+
+  const option = availableModels.find(m => m.id === model);
+  const thinkingRange = option?.thinkingBudget;
+
+  const modelGroups = useMemo(() => {
+    const groups = new Map<string, ModelOption[]>();
+    availableModels.forEach(m => {
+      groups.set(m.providerLabel, [...(groups.get(m.providerLabel) ?? []), m]);
+    });
+    return Array.from(groups.entries());
+  }, [availableModels]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const update = (changes: Partial<GenerationSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const thinkingMode = settings.thinkingBudget === null ? 'default' : settings.thinkingBudget === 0 ? 'off' : 'custom';
+  const handleThinkingModeChange = (mode: string) => {
+    if (mode === 'default') {
+      update({ thinkingBudget: null });
+    } else if (mode === 'off') {
+      update({ thinkingBudget: 0 });
+    } else if (thinkingRange) {
+      update({ thinkingBudget: Math.min(thinkingRange.max, Math.max(thinkingRange.min, DEFAULT_CUSTOM_THINKING_BUDGET)) });
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  const modelLabel = (id: ModelId): string => availableModels.find(m => m.id === id)?.model ?? id;
+  const labelClassName = 'block text-xs font-medium text-gray-400 mb-1';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-100">Model Settings</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Settings for <span className="font-mono text-gray-300">{option?.model ?? model}</span>
+            {option && ` (${option.providerLabel}): ${formatTokenCount(option.contextWindow)} token context window, up to ${formatTokenCount(option.maxOutputTokens)} output tokens.`}
+            {' '}Each model keeps its own settings, and changes apply from the next message.
+          </p>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto space-y-6">
+          <section className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label htmlFor="temperature-input" className={labelClassName}>
+                Temperature: <span className="text-gray-200">{settings.temperature.toFixed(2)}</span>
+                <span className="ml-2 text-gray-500">Lower is more focused, higher more varied.</span>
+              </label>
+              <input
+                id="temperature-input"
+                type="range"
+                min={0}
+                max={MAX_TEMPERATURE}
+                step={0.05}
+                value={settings.temperature}
+                onChange={(e) => update({ temperature: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="top-p-input" className={labelClassName}>Top-p</label>
+              <OptionalNumberInput
+                id="top-p-input"
+                value={settings.topP}
+                min={0}
+                max={1}
+                placeholder="Model default"
+                onChange={(topP) => update({ topP })}
+              />
+            </div>
+            <div>
+              <label htmlFor="max-output-input" className={labelClassName}>Max output tokens</label>
+              <OptionalNumberInput
+                id="max-output-input"
+                value={settings.maxOutputTokens}
+                min={1}
+                max={option?.maxOutputTokens ?? Number.MAX_SAFE_INTEGER}
+                placeholder={option ? `Model maximum (${option.maxOutputTokens.toLocaleString()})` : 'Model maximum'}
+                onChange={(maxOutputTokens) => update({ maxOutputTokens: maxOutputTokens === null ? null : Math.round(maxOutputTokens) })}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="thinking-mode-select" className={labelClassName}>Thinking budget</label>
+              {thinkingRange ? (
+                <div className="flex gap-2">
+                  <select
+                    id="thinking-mode-select"
+                    value={thinkingMode}
+                    onChange={(e) => handleThinkingModeChange(e.target.value)}
+                    className="bg-gray-900 text-gray-200 text-sm rounded-md border border-gray-700 px-2 py-1.5 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  >
+                    <option value="default">Model decides</option>
+                    {thinkingRange.canDisable && <option value="off">Off</option>}
+                    <option value="custom">Custom</option>
+                  </select>
+                  {thinkingMode === 'custom' && (
+                    <OptionalNumberInput
+                      id="thinking-budget-input"
+                      value={settings.thinkingBudget}
+                      min={thinkingRange.min}
+                      max={thinkingRange.max}
+                      placeholder={`${thinkingRange.min.toLocaleString()} to ${thinkingRange.max.toLocaleString()} tokens`}
+                      onChange={(thinkingBudget) => update({ thinkingBudget: thinkingBudget === null ? null : Math.round(thinkingBudget) })}
+                    />
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">This model's thinking can't be configured.</p>
+              )}
+            </div>
+            <div className="col-span-2 flex justify-end">
+              <button
+                onClick={onResetSettings}
+                className="text-xs text-indigo-300 hover:text-indigo-200"
+                title={`Reset to ${describeGenerationSettings(DEFAULT_GENERATION_SETTINGS)}`}
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-200">Presets</h3>
+            {presets.length === 0 ? (
+              <p className="text-sm text-gray-500">No presets yet. Save the current model and settings to switch back to them with one click.</p>
+            ) : (
+              presets.map(preset => (
+                <div key={preset.id} className="flex items-center justify-between p-2 rounded-md border border-gray-700 bg-gray-900/40">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-200 truncate">{preset.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      <span className="font-mono">{modelLabel(preset.model)}</span>: {describeGenerationSettings(preset.settings)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0 ml-3">
+                    <button
+                      onClick={() => onApplyPreset(preset)}
+                      className="px-3 py-1 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+                    >
+                      Apply
+                    </button>
+                    <button
+                      onClick={() => onDeletePreset(preset.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md transition-colors"
+                      title={`Delete ${preset.name}`}
+                      aria-label={`Delete ${preset.name}`}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+            <div className="flex gap-2">
+              <input
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSavePreset();
+                }}
+                placeholder="Preset name, e.g. Careful refactoring"
+                aria-label="Preset name"
+                className="flex-1 bg-gray-900 text-gray-200 text-sm rounded-md border border-gray-700 px-2 py-1.5 focus:ring-2 focus:ring-indigo-500 focus:outline-none placeholder-gray-500"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className="px-3 py-1 rounded text-sm font-semibold bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save as preset
+              </button>
+            </div>
+          </section>
+
+          <section>
+            <label htmlFor="summary-model-select" className="block text-sm font-semibold text-gray-200 mb-1">Summarization model</label>
+            <p className="text-xs text-gray-500 mb-2">Writes the session summaries, using that model's settings except for the temperature below. A cheaper, faster model is usually enough.</p>
+            <select
+              id="summary-model-select"
+              value={summaryModel ?? ''}
+              onChange={(e) => onSummaryModelChange(e.target.value || null)}
+              className="w-full bg-gray-900 text-gray-200 text-sm rounded-md border border-gray-700 p-2 font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            >
+              <option value="">Same as the chat model</option>
+              {summaryModel && !availableModels.some(m => m.id === summaryModel) && (
+                <option value={summaryModel}>{summaryModel} (unavailable)</option>
+              )}
+              {modelGroups.map(([providerLabel, options]) => (
+                <optgroup key={providerLabel} label={providerLabel}>
+                  {options.map(m => (
+                    <option key={m.id} value={m.id}>{m.model}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <label htmlFor="summary-temperature-input" className={`${labelClassName} mt-3`}>
+              Summary temperature: <span className="text-gray-200">{summaryTemperature.toFixed(2)}</span>
+            </label>
+            <input
+              id="summary-temperature-input"
+              type="range"
+              min={0}
+              max={MAX_TEMPERATURE}
+              step={0.05}
+              value={summaryTemperature}
+              onChange={(e) => onSummaryTemperatureChange(Number(e.target.value))}
+              className="w-full accent-indigo-500"
+            />
+          </section>
+        </div>
+
+        <div className="p-4 flex justify-end bg-gray-800 border-t border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { UploadedFile } from '../types';
+import { searchProject, formatSearchResultsForChat, MAX_SEARCH_RESULTS, type SearchOptions } from '../utils/projectSearch';
+import { highlightCode, getLanguageForPath } from '../utils/syntaxHighlight';
+import { CodeLine } from './CodeLine';
+import { CloseIcon, ChevronDownIcon, ChevronRightIcon } from './Icons';
+
+interface SearchPanelProps {
+  files: UploadedFile[];
+  isLoading: boolean;
+  onOpenResult: (path: string, lineNumber: number) => void;
+  onSendToChat: (message: string) => void;
+  onClose: () => void;
+}
+
+// How long typing has to pause before the project is searched again.
+const SEARCH_DEBOUNCE_MS = 250;
+
+const INITIAL_OPTIONS: SearchOptions = { query: '', isRegex: false, caseSensitive: false, include: '', exclude: '' };
+
+export function SearchPanel({ files, isLoading, onOpenResult, onSendToChat, onClose }: SearchPanelProps): React.ReactElement {
+  const [options, setOptions] = useState<SearchOptions>(INITIAL_OPTIONS);
+  const [searchedOptions, setSearchedOptions] = useState<SearchOptions>(INITIAL_OPTIONS);
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setSearchedOptions(options), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [options]);
+
+  const result = useMemo(() => searchProject(files, searchedOptions), [files, searchedOptions]);
+  const lineTotal = result.files.reduce((total, file) => total + file.lines.length, 0);
+
+  const updateOptions = (changes: Partial<SearchOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const toggleButton = (isActive: boolean, label: string, title: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`px-1.5 py-0.5 rounded font-mono text-xs ${isActive ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'}`}
+      title={title}
+      aria-label={title}
+      aria-pressed={isActive}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="w-80 flex-shrink-0 flex flex-col bg-gray-800 border-r border-gray-700/50">
+      <div className="p-4 space-y-2 border-b border-gray-700/50">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-200">Search</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-200 rounded-md hover:bg-gray-700" title="Close search" aria-label="Close search">
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex items-center gap-1 bg-gray-900 rounded-md border border-gray-700 pr-1 focus-within:ring-2 focus-within:ring-indigo-500">
+          <input
+            value={options.query}
+            onChange={(e) => updateOptions({ query: e.target.value })}
+            placeholder="Search the project"
+            autoFocus
+            className="flex-1 min-w-0 px-2 py-1.5 bg-transparent text-sm text-gray-200 focus:outline-none"
+            aria-label="Search the project"
+          />
+          {toggleButton(options.caseSensitive, 'Aa', 'Match case', () => updateOptions({ caseSensitive: !options.caseSensitive }))}
+          {toggleButton(options.isRegex, '.*', 'Use regular expression', () => updateOptions({ isRegex: !options.isRegex }))}
+        </div>
+        <input
+          value={options.include}
+          onChange={(e) => updateOptions({ include: e.target.value })}
+          placeholder="Files to include, e.g. src/**, *.ts"
+          className="w-full px-2 py-1 bg-gray-900 text-xs text-gray-200 rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Files to include"
+        />
+        <input
+          value={options.exclude}
+          onChange={(e) => updateOptions({ exclude: e.target.value })}
+          placeholder="Files to exclude, e.g. *.test.ts"
+          className="w-full px-2 py-1 bg-gray-900 text-xs text-gray-200 rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Files to exclude"
+        />
+        {result.error ? (
+          <p className="text-xs text-red-400">{result.error}</p>
+        ) : searchedOptions.query && (
+          <div className="flex justify-between items-center gap-2">
+            <p className="text-xs text-gray-400">
+              {result.matchCount === 0
+                ? 'No results'
+                : `${result.matchCount} match(es) in ${result.files.length} file(s)${result.isTruncated ? ` (first ${MAX_SEARCH_RESULTS} lines)` : ''}`}
+            </p>
+            {result.matchCount > 0 && (
+              <button
+                onClick={() => onSendToChat(formatSearchResultsForChat(searchedOptions, result))}
+                disabled={isLoading}
+                className="text-xs text-indigo-300 hover:text-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                title={`Add these ${lineTotal} line(s) to the chat, so the AI can use them as context`}
+              >
+                Send to chat
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto py-1 text-sm">
+        {result.files.map(file => {
+          const isCollapsed = collapsedPaths.has(file.path);
+          const language = getLanguageForPath(file.path);
+          return (
+            <div key={file.path}>
+              <button
+                onClick={() => toggleCollapsed(file.path)}
+                className="w-full flex items-center gap-1 px-2 py-1 text-left text-gray-300 hover:bg-gray-700/60"
+                title={file.path}
+              >
+                {isCollapsed ? <ChevronRightIcon className="w-3.5 h-3.5 flex-shrink-0" /> : <ChevronDownIcon className="w-3.5 h-3.5 flex-shrink-0" />}
+                <span className="font-mono text-xs truncate flex-1">{file.path}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">{file.lines.length}</span>
+              </button>
+              {!isCollapsed && file.lines.map(line => (
+                <button
+                  key={line.lineNumber}
+                  onClick={() => onOpenResult(file.path, line.lineNumber)}
+                  className="w-full flex items-baseline gap-2 pl-7 pr-2 py-0.5 text-left hover:bg-gray-700/60"
+                  title={`Open ${file.path} at line ${line.lineNumber}`}
+                >
+                  <span className="text-xs text-gray-500 w-8 text-right flex-shrink-0 select-none">{line.lineNumber}</span>
+                  <span className="font-mono text-xs truncate">
+                    <CodeLine
+                      tokens={highlightCode(line.preview, language)[0]}
+                      marks={line.ranges.map(([start, end]) => ({ start, end, className: 'bg-yellow-500/30 rounded-sm' }))}
+                    />
+                  </span>
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { ChatThread } from '../types';
+import { CloseIcon } from './Icons';
+
+interface ThreadTabsProps {
+  threads: ChatThread[];
+  activeThreadId: string;
+  isLoading: boolean;
+  onSwitch: (threadId: string) => void;
+  onCreate: () => void;
+  onRename: (threadId: string, name: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export function ThreadTabs({ threads, activeThreadId, isLoading, onSwitch, onCreate, onRename, onDelete }: ThreadTabsProps): React.ReactElement {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setNameDraft(thread.name);
+  };
+
+  const commitRename = () => {
+    const name = nameDraft.trim();
+    if (renamingId && name) {
+      onRename(renamingId, name);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(`Delete the thread "${thread.name}" and its conversation? The project files are not affected.`)) {
+      onDelete(thread.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-4 pt-2 border-b border-gray-700/50 overflow-x-auto flex-shrink-0" role="tablist" aria-label="Chat threads">
+      {threads.map(thread => {
+        const isActive = thread.id === activeThreadId;
+        if (thread.id === renamingId) {
+          return (
+            <input
+              key={thread.id}
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenamingId(null);
+              }}
+              autoFocus
+              className="px-2 py-1 mb-1 w-40 text-sm bg-gray-900 text-gray-200 rounded-md border border-indigo-500 focus:outline-none"
+              aria-label="Thread name"
+            />
+          );
+        }
+        return (
+          <div
+            key={thread.id}
+            className={`group flex items-center rounded-t-md border-b-2 ${isActive ? 'border-indigo-500 bg-gray-800/60' : 'border-transparent hover:bg-gray-800/40'}`}
+          >
+            <button
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onSwitch(thread.id)}
+              onDoubleClick={() => startRename(thread)}
+              disabled={isLoading && !isActive}
+              className={`px-3 py-1.5 text-sm truncate max-w-[12rem] disabled:opacity-50 disabled:cursor-not-allowed ${isActive ? 'text-gray-100 font-semibold' : 'text-gray-400 hover:text-gray-200'}`}
+              title={`${thread.name} (double-click to rename)`}
+            >
+              {thread.name}
+            </button>
+            {threads.length > 1 && (
+              <button
+                onClick={() => handleDelete(thread)}
+                disabled={isLoading}
+                className="mr-1 p-0.5 rounded text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 disabled:hidden"
+                title={`Delete the thread "${thread.name}"`}
+                aria-label={`Delete the thread "${thread.name}"`}
+              >
+                <CloseIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={onCreate}
+        disabled={isLoading}
+        className="px-2.5 py-1 mb-1 text-sm text-gray-400 hover:text-indigo-300 hover:bg-gray-800/40 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Start a new thread over the same project files"
+        aria-label="New thread"
+      >
+        + New thread
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { UploadPlan } from '../utils/uploadFilter';
+import { DEFAULT_IGNORE_PATTERNS, ROOT_GROUP_NAME, formatBytes } from '../utils/uploadFilter';
+import { FolderIcon, FileIcon } from './Icons';
+
+interface UploadReviewDialogProps {
+  plan: UploadPlan | null;
+  ignorePatterns: string[];
+  onIgnorePatternsChange: (patterns: string[]) => void;
+  onConfirm: (files: File[]) => void;
+  onCancel: () => void;
+}
+
+export function UploadReviewDialog({ plan, ignorePatterns, onIgnorePatternsChange, onConfirm, onCancel }: UploadReviewDialogProps): React.ReactElement | null {
+  const [selectedGroups, setSelectedGroups] = useState<Set<string>>(new Set());
+  const [isEditingPatterns, setIsEditingPatterns] = useState(false);
+  const [patternDraft, setPatternDraft] = useState('');
+
+  // Every folder with readable files starts selected; re-planning (new patterns) resets the selection.
+  useEffect(() => {
+    setSelectedGroups(new Set(plan?.groups.filter(g => g.files.length > 0).map(g => g.name) ?? []));
+  }, [plan]);
+
+  useEffect(() => {
+    setPatternDraft(ignorePatterns.join('\n'));
+  }, [ignorePatterns]);
+
+  const selectedTotals = useMemo(() => {
+    const groups = plan?.groups.filter(g => selectedGroups.has(g.name)) ?? [];
+    return {
+      count: groups.reduce((acc, g) => acc + g.files.length, 0),
+      bytes: groups.reduce((acc, g) => acc + g.totalBytes, 0),
+    };
+  }, [plan, selectedGroups]);
+
+  if (!plan) {
+    return null;
+  }
+
+  const toggleGroup = (name: string) => {
+    setSelectedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const handleApplyPatterns = () => {
+    onIgnorePatternsChange(patternDraft.split('\n').map(p => p.trim()).filter(Boolean));
+    setIsEditingPatterns(false);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(plan.groups.filter(g => selectedGroups.has(g.name)).flatMap(g => g.files));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+      onClick={onCancel}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 id="upload-review-title" className="text-xl font-semibold text-gray-100">Review Upload</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {plan.ignoredCount} file(s) ({formatBytes(plan.ignoredBytes)}) are ignored by {plan.gitignoreCount > 0 ? `${plan.gitignoreCount} .gitignore file(s) and ` : ''}the default ignore list
+            {plan.unreadableCount > 0 && `, and ${plan.unreadableCount} binary file(s) will be skipped`}.
+            Choose which folders to include.
+          </p>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-2" aria-labelledby="upload-review-title">
+          {plan.groups.map(group => {
+            const isEmpty = group.files.length === 0;
+            return (
+              <label
+                key={group.name}
+                className={`flex items-center justify-between p-3 rounded-md border border-gray-700 bg-gray-900/40 ${isEmpty ? 'opacity-50' : 'cursor-pointer hover:bg-gray-700/40'}`}
+              >
+                <div className="flex items-center min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={selectedGroups.has(group.name)}
+                    disabled={isEmpty}
+                    onChange={() => toggleGroup(group.name)}
+                    className="mr-3 h-4 w-4 accent-indigo-500 flex-shrink-0"
+                  />
+                  {group.name === ROOT_GROUP_NAME
+                    ? <FileIcon className="w-5 h-5 mr-2 flex-shrink-0 text-gray-400" />
+                    : <FolderIcon className="w-5 h-5 mr-2 flex-shrink-0 text-gray-400" />}
+                  <span className="text-sm font-medium text-gray-200 truncate" title={group.name}>{group.name}</span>
+                </div>
+                <span className="text-xs text-gray-400 flex-shrink-0 ml-3">
+                  {group.files.length} file(s) · {formatBytes(group.totalBytes)}
+                  {group.ignoredCount > 0 && <span className="text-gray-500"> · {group.ignoredCount} ignored</span>}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+        <div className="px-4 pb-4">
+          <button
+            onClick={() => setIsEditingPatterns(prev => !prev)}
+            className="text-sm text-indigo-300 hover:text-indigo-200"
+          >
+            {isEditingPatterns ? 'Hide default ignore list' : 'Edit default ignore list'}
+          </button>
+          {isEditingPatterns && (
+            <div className="mt-2 space-y-2">
+              <p className="text-xs text-gray-500">One pattern per line, in .gitignore syntax. Applied to every upload, in addition to the project's .gitignore files.</p>
+              <textarea
+                value={patternDraft}
+                onChange={(e) => setPatternDraft(e.target.value)}
+                rows={6}
+                spellCheck={false}
+                className="w-full bg-gray-900 text-gray-200 font-mono text-xs p-2 rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => setPatternDraft(DEFAULT_IGNORE_PATTERNS.join('\n'))}
+                  className="px-3 py-1 rounded text-sm bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+                >
+                  Reset to defaults
+                </button>
+                <button
+                  onClick={handleApplyPatterns}
+                  className="px-3 py-1 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+                >
+                  Apply
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="p-4 flex justify-between items-center space-x-3 bg-gray-800 border-t border-gray-700">
+          <span className="text-sm text-gray-400">{selectedTotals.count} file(s) · {formatBytes(selectedTotals.bytes)}</span>
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={selectedTotals.count === 0}
+              className="px-4 py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Upload
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { UsageRecord, PriceTable, ModelPrice } from '../types';
+import { summarizeUsage, formatCost, formatUsageCsv, getModelName, DEFAULT_PRICE_TABLE, type UsageTotals } from '../utils/usageCost';
+import { downloadBlob, formatFileTimestamp } from '../utils/download';
+import { DownloadIcon } from './Icons';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  usageLog: UsageRecord[];
+  priceTable: PriceTable;
+  // Names of the models that can be chosen, so they can be priced before they are used.
+  modelNames: string[];
+  onPriceTableChange: (priceTable: PriceTable) => void;
+  onClose: () => void;
+}
+
+type PriceDraft = Record<keyof ModelPrice, string>;
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'input', label: 'Input' },
+  { key: 'cachedInput', label: 'Cached input' },
+  { key: 'output', label: 'Output' },
+];
+
+const toDraft = (price: ModelPrice | undefined): PriceDraft => ({
+  input: price ? String(price.input) : '',
+  cachedInput: price ? String(price.cachedInput) : '',
+  output: price ? String(price.output) : '',
+});
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+/**
+ * Parses the edited prices. A model whose fields are all empty is left out of the table;
+ * a missing cached-input price defaults to the input price.
+ * @returns The price table, or an error naming the first invalid price.
+ */
+const parsePriceDrafts = (drafts: Record<string, PriceDraft>): { prices: PriceTable } | { error: string } => {
+  const prices: PriceTable = {};
+  for (const [model, draft] of Object.entries(drafts)) {
+    if (!draft.input.trim() && !draft.cachedInput.trim() && !draft.output.trim()) continue;
+    const input = Number(draft.input);
+    const output = Number(draft.output);
+    const cachedInput = draft.cachedInput.trim() ? Number(draft.cachedInput) : input;
+    if (![input, cachedInput, output].every(value => Number.isFinite(value) && value >= 0) || !draft.input.trim() || !draft.output.trim()) {
+      return { error: `Enter input and output prices of 0 or more for ${model}.` };
+    }
+    prices[model] = { input, cachedInput, output };
+  }
+  return { prices };
+};
+
+export function UsagePanel({ isOpen, usageLog, priceTable, modelNames, onPriceTableChange, onClose }: UsagePanelProps): React.ReactElement | null {
+  const [priceDrafts, setPriceDrafts] = useState<Record<string, PriceDraft>>({});
+  const [priceError, setPriceError] = useState<string | null>(null);
+
+  // Every priced, offered or used model gets a row in the price editor.
+  const pricedModels = useMemo(() => Array.from(new Set([
+    ...Object.keys(priceTable),
+    ...modelNames,
+    ...usageLog.map(record => getModelName(record.model)),
+  ])).sort((a, b) => a.localeCompare(b)), [priceTable, modelNames, usageLog]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPriceDrafts(Object.fromEntries(Object.entries(priceTable).map(([model, price]) => [model, toDraft(price)])));
+    setPriceError(null);
+  }, [isOpen, priceTable]);
+
+  const summary = useMemo(() => summarizeUsage(usageLog, priceTable), [usageLog, priceTable]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handlePriceChange = (model: string, key: keyof ModelPrice, value: string) => {
+    setPriceDrafts(prev => ({ ...prev, [model]: { ...(prev[model] ?? toDraft(undefined)), [key]: value } }));
+    setPriceError(null);
+  };
+
+  const handleSavePrices = () => {
+    const result = parsePriceDrafts(priceDrafts);
+    if ('error' in result) {
+      setPriceError(result.error);
+      return;
+    }
+    onPriceTableChange(result.prices);
+  };
+
+  const handleExportCsv = () => {
+    const blob = new Blob([formatUsageCsv(usageLog, priceTable)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `usage-${formatFileTimestamp()}.csv`);
+  };
+
+  const totalsRow = (label: React.ReactNode, totals: UsageTotals, isTotal = false) => (
+    <tr className={isTotal ? 'border-t border-gray-600 font-semibold text-gray-100' : 'text-gray-300'}>
+      <td className="py-1 pr-3 font-mono truncate max-w-[12rem]">{label}</td>
+      <td className="py-1 px-2 text-right">{totals.calls}</td>
+      <td className="py-1 px-2 text-right">{formatTokens(totals.promptTokens)}</td>
+      <td className="py-1 px-2 text-right">{formatTokens(totals.cachedTokens)}</td>
+      <td className="py-1 px-2 text-right">{formatTokens(totals.outputTokens)}</td>
+      <td className="py-1 px-2 text-right">{formatTokens(totals.thinkingTokens)}</td>
+      <td className="py-1 pl-2 text-right" title={totals.unpricedCalls > 0 ? `${totals.unpricedCalls} call(s) have no price and are not included` : undefined}>
+        {formatCost(totals.cost)}{totals.unpricedCalls > 0 && '*'}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-100">Session Usage</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Tokens reported by the AI provider for every call in this workspace, including self-correction retries and session summaries.
+            Costs are estimates from the price table below.
+          </p>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto space-y-6">
+          <section>
+            {usageLog.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No AI calls in this session yet.</p>
+            ) : (
+              <table className="w-full text-sm table-fixed">
+                <thead>
+                  <tr className="text-xs text-gray-400">
+                    <th className="pb-1 pr-3 text-left font-medium w-48">Model</th>
+                    <th className="pb-1 px-2 text-right font-medium">Calls</th>
+                    <th className="pb-1 px-2 text-right font-medium">Input</th>
+                    <th className="pb-1 px-2 text-right font-medium">Cached</th>
+                    <th className="pb-1 px-2 text-right font-medium">Output</th>
+                    <th className="pb-1 px-2 text-right font-medium">Thinking</th>
+                    <th className="pb-1 pl-2 text-right font-medium">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.byModel.map(({ model, totals }) => (
+                    <React.Fragment key={model}>
+                      {totalsRow(getModelName(model), totals)}
+                    </React.Fragment>
+                  ))}
+                  {totalsRow('Total', summary.total, true)}
+                </tbody>
+              </table>
+            )}
+            {summary.total.unpricedCalls > 0 && (
+              <p className="mt-2 text-xs text-yellow-400">* Some calls used models without a price and are not included in the cost. Add their prices below.</p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-200">Prices (US dollars per million tokens)</h3>
+            <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,6rem)] gap-x-2 gap-y-1 items-center text-sm">
+              <span className="text-xs text-gray-400">Model</span>
+              {PRICE_FIELDS.map(field => (
+                <span key={field.key} className="text-xs text-gray-400">{field.label}</span>
+              ))}
+              {pricedModels.map(model => (
+                <React.Fragment key={model}>
+                  <span className="font-mono text-gray-300 truncate" title={model}>{model}</span>
+                  {PRICE_FIELDS.map(field => (
+                    <input
+                      key={field.key}
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={priceDrafts[model]?.[field.key] ?? ''}
+                      onChange={(e) => handlePriceChange(model, field.key, e.target.value)}
+                      placeholder="—"
+                      aria-label={`${field.label} price of ${model}`}
+                      className="w-full bg-gray-900 text-gray-200 rounded-md border border-gray-700 px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none placeholder-gray-600"
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+            {priceError && <p className="text-xs text-red-400">{priceError}</p>}
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => onPriceTableChange(DEFAULT_PRICE_TABLE)}
+                className="text-xs text-indigo-300 hover:text-indigo-200"
+              >
+                Reset to list prices
+              </button>
+              <button
+                onClick={handleSavePrices}
+                className="px-3 py-1 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+              >
+                Save prices
+              </button>
+            </div>
+          </section>
+        </div>
+
+        <div className="p-4 flex justify-between space-x-3 bg-gray-800 border-t border-gray-700">
+          <button
+            onClick={handleExportCsv}
+            disabled={usageLog.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
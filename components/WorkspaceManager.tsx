@@ -0,0 +1,109 @@
+import React from 'react';
+import type { WorkspaceSummary } from '../types';
+import { FolderIcon, TrashIcon } from './Icons';
+
+interface WorkspaceManagerProps {
+  isOpen: boolean;
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+const formatTimestamp = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+};
+
+export function WorkspaceManager({ isOpen, workspaces, activeWorkspaceId, onClose, onOpen, onDelete, onNew }: WorkspaceManagerProps): React.ReactElement | null {
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleDelete = (workspace: WorkspaceSummary) => {
+    if (window.confirm(`Delete the saved workspace "${workspace.name}"? This cannot be undone.`)) {
+      onDelete(workspace.id);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 id="workspace-manager-title" className="text-xl font-semibold text-gray-100">Workspaces</h2>
+          <p className="text-sm text-gray-400 mt-1">Your files, chat and file history are saved in this browser automatically. Reopen or delete a saved workspace below.</p>
+        </div>
+        <div className="flex-1 p-4 overflow-y-auto space-y-2" aria-labelledby="workspace-manager-title">
+          {workspaces.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No saved workspaces yet.</p>
+          ) : (
+            workspaces.map(workspace => {
+              const isActive = workspace.id === activeWorkspaceId;
+              return (
+                <div
+                  key={workspace.id}
+                  className={`flex items-center justify-between p-3 rounded-md border ${isActive ? 'border-indigo-500/60 bg-indigo-900/20' : 'border-gray-700 bg-gray-900/40'}`}
+                >
+                  <div className="flex items-center min-w-0">
+                    <FolderIcon className="w-5 h-5 mr-3 flex-shrink-0 text-gray-400" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-200 truncate" title={workspace.name}>
+                        {workspace.name}
+                        {isActive && <span className="ml-2 text-xs text-indigo-300">(current)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {workspace.fileCount} files · {workspace.messageCount} messages · saved {formatTimestamp(workspace.updatedAt)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0 ml-3">
+                    <button
+                      onClick={() => onOpen(workspace.id)}
+                      disabled={isActive}
+                      className="px-3 py-1 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => handleDelete(workspace)}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md transition-colors"
+                      title={`Delete ${workspace.name}`}
+                      aria-label={`Delete ${workspace.name}`}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <div className="p-4 flex justify-between space-x-3 bg-gray-800 border-t border-gray-700">
+          <button
+            onClick={onNew}
+            className="px-4 py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white font-semibold transition-colors"
+          >
+            New Workspace
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
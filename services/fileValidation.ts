@@ -0,0 +1,81 @@
+import type { ProposedChange } from '../types';
+import type { ValidationRequest, ValidationResponse } from './fileValidation.worker';
+import { getSyntaxLanguage } from '../utils/syntaxChecks';
+
+// How long to wait for the checks before leaving the proposal unchecked. The first
+// TypeScript check includes loading the compiler into the worker.
+const VALIDATION_TIMEOUT_MS = 20000;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (response: ValidationResponse | null) => void>();
+
+/**
+ * Returns the validation worker, starting it on first use. The worker is kept for the
+ * session so that the TypeScript compiler is only loaded once.
+ */
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./fileValidation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ValidationResponse>) => {
+        pendingRequests.get(event.data.id)?.(event.data);
+        pendingRequests.delete(event.data.id);
+    };
+    worker.onerror = (event) => {
+        console.error("The file validation worker failed:", event.message);
+        // Start over with a fresh worker next time; the requests in flight go unchecked.
+        worker?.terminate();
+        worker = null;
+        pendingRequests.forEach(resolve => resolve(null));
+        pendingRequests.clear();
+    };
+    return worker;
+};
+
+/**
+ * Checks the syntax of proposed files (TypeScript, JavaScript, JSON, YAML, CSS and HTML) in a
+ * web worker, so that large files don't freeze the page.
+ * @param changes The proposed changes.
+ * @returns The changes, with `diagnostics` set on every file that was checked. If the checks
+ *   fail or time out, the changes are returned without them.
+ */
+export const validateProposedChanges = async (changes: ProposedChange[]): Promise<ProposedChange[]> => {
+    // Deleted files (empty content) and files of other types have nothing to check.
+    const checked = changes.filter(change => change.newContent !== '' && getSyntaxLanguage(change.filePath) !== null);
+    if (checked.length === 0 || typeof Worker === 'undefined') {
+        return changes;
+    }
+
+    const id = nextRequestId++;
+    const request: ValidationRequest = { id, files: checked.map(change => ({ filePath: change.filePath, content: change.newContent })) };
+
+    let validationWorker: Worker;
+    try {
+        validationWorker = getWorker();
+    } catch (error) {
+        console.error("Could not start the file validation worker:", error);
+        return changes;
+    }
+
+    const response = await new Promise<ValidationResponse | null>(resolve => {
+        const timeoutId = setTimeout(() => {
+            pendingRequests.delete(id);
+            console.warn(`Validating the proposed files took longer than ${VALIDATION_TIMEOUT_MS / 1000}s; leaving them unchecked.`);
+            resolve(null);
+        }, VALIDATION_TIMEOUT_MS);
+        pendingRequests.set(id, result => {
+            clearTimeout(timeoutId);
+            resolve(result);
+        });
+        validationWorker.postMessage(request);
+    });
+    if (!response) {
+        return changes;
+    }
+
+    const diagnosticsByChange = new Map(checked.map((change, index) => [change, response.results[index]]));
+    return changes.map(change => {
+        const diagnostics = diagnosticsByChange.get(change);
+        return diagnostics ? { ...change, diagnostics } : change;
+    });
+};
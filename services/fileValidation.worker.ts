@@ -0,0 +1,53 @@
+import type { FileDiagnostic } from '../types';
+import { getSyntaxLanguage, checkSyntax, MAX_DIAGNOSTICS_PER_FILE } from '../utils/syntaxChecks';
+
+export interface ValidationRequest {
+    id: number;
+    files: { filePath: string; content: string }[];
+}
+
+export interface ValidationResponse {
+    id: number;
+    // Per requested file: its problems, or null if its type isn't checked.
+    results: (FileDiagnostic[] | null)[];
+}
+
+/**
+ * Reports the syntax errors of a TypeScript or JavaScript file, with JSX allowed in
+ * .tsx, .jsx and .js files. The compiler is only loaded once such a file is checked.
+ */
+const checkTypeScript = async (filePath: string, content: string): Promise<FileDiagnostic[]> => {
+    const ts = (await import('typescript')).default;
+    const { diagnostics = [] } = ts.transpileModule(content, {
+        fileName: filePath,
+        reportDiagnostics: true,
+        compilerOptions: { target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext, jsx: ts.JsxEmit.Preserve },
+    });
+    return diagnostics.slice(0, MAX_DIAGNOSTICS_PER_FILE).map(diagnostic => {
+        const position = diagnostic.file && diagnostic.start !== undefined
+            ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+            : { line: 0, character: 0 };
+        return {
+            line: position.line + 1,
+            column: position.character + 1,
+            message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        };
+    });
+};
+
+self.onmessage = async (event: MessageEvent<ValidationRequest>) => {
+    const { id, files } = event.data;
+    const results = await Promise.all(files.map(async ({ filePath, content }) => {
+        const language = getSyntaxLanguage(filePath);
+        if (!language) return null;
+        try {
+            return language === 'typescript' ? await checkTypeScript(filePath, content) : checkSyntax(filePath, content, language);
+        } catch (error) {
+            // A checker that fails (e.g. the compiler couldn't be loaded) leaves the file unchecked.
+            console.error(`Failed to check ${filePath}:`, error);
+            return null;
+        }
+    }));
+    const response: ValidationResponse = { id, results };
+    self.postMessage(response);
+};
@@ -1,57 +1,13 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import type { UploadedFile, GeminiModel, ChatMessage, ProposedChange } from '../types';
+import type { UploadedFile, ModelId, ChatMessage, ProposedChange, GenerationSettings, TokenUsage } from '../types';
+import type { ContentPart, ModelContent, GenerationOptions } from './providers';
+import { getProvider, parseModelId } from './providers';
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("The API_KEY environment variable is not set. Please ensure it is configured in your deployment environment.");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-// Define explicit types for Gemini content structure to prevent type inference issues.
-type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
-type ModelContent = { role: string; parts: ContentPart[] };
-
-/**
- * A wrapper for Gemini API calls that includes retry logic with exponential backoff
- * for "quota exceeded" errors.
- * @param apiCall The async function to call the Gemini API.
- * @returns The result of the API call.
- */
-const callGeminiWithRetry = async <T>(apiCall: () => Promise<T>): Promise<T> => {
-    const maxRetries = 3;
-    let delay = 1000; // start with 1 second
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-            return await apiCall();
-        } catch (e) {
-            const error = e as Error;
-            // The user reported "QuotaExceededError". We check for "quota" as a robust way to catch it.
-            if (error.message?.toLowerCase().includes('quota')) {
-                if (attempt === maxRetries - 1) {
-                  // On the last attempt, re-throw the original error to be handled by the UI.
-                  console.error(`Gemini API call failed after ${maxRetries} attempts due to quota limits.`);
-                  throw e;
-                }
-                console.warn(`Quota exceeded. Retrying in ${delay}ms... (Attempt ${attempt + 1}/${maxRetries})`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2; // exponential backoff
-            } else {
-                throw e; // re-throw other errors immediately
-            }
-        }
-    }
-    // This line should not be reachable due to the logic above, but it satisfies TypeScript's need for a return path.
-    throw new Error("Gemini API call failed after multiple retries.");
-};
-
-const buildSystemInstruction = (
+export const buildSystemInstruction = (
   prompt: string,
   projectFiles: UploadedFile[],
+  focusPaths: string[],
   allFilePaths: string[],
-  fileHistory: UploadedFile[][],
+  previousFiles: UploadedFile[] | null,
   longTermMemory: string,
   correctionDirective: string | null
 ): string => {
@@ -70,22 +26,52 @@ ${correctionDirective}
 
 1.  **THE GOLDEN RULE:** If your conversational response implies a code change (e.g., "I've updated the file," "Here is the fix," "я внес изменения"), you **MUST** provide the corresponding code in a \`<changes>\` XML block in the SAME response. NO EXCEPTIONS. Talking about code without providing the XML is a critical failure.
 
-2.  **XML IS THE ONLY WAY:** All file creations, updates, and deletions **MUST** be inside a single, perfectly-formed \`<changes>\` block.
+2.  **XML IS THE ONLY WAY:** All file creations, updates, renames, and deletions **MUST** be inside a single, perfectly-formed \`<changes>\` block.
 
 3.  **NO CODE IN CHAT:** You are **STRICTLY FORBIDDEN** from putting any code or diffs in your conversational text. Do not use markdown code blocks (\`\`\`). All code belongs in the XML block.
 
 ## The Required XML Format
+Each \`<change>\` block uses exactly ONE of two methods:
+- **Full Content** (\`<content>\`): the entire new file. Use it to create new files, delete files, or rewrite most of a file.
+- **Search/Replace** (\`<edit>\`): one or more targeted edits to an EXISTING file. Prefer it for small changes to large files.
+
+To rename or move a file, add a \`from\` attribute with its current path; \`file\` is the new path. Either method can change its content in the same block, or leave the block empty to move the file as is.
+
 \`\`\`xml
 <changes>
   <change file="path/to/your/file.ext">
     <content><![CDATA[The *ENTIRE* new content of the file goes here. Not a diff. Not a snippet. The full file.]]></content>
   </change>
+  <change file="path/to/large/existing/file.ext">
+    <edit>
+      <search><![CDATA[The exact existing lines to replace, copied character-for-character from the file.]]></search>
+      <replace><![CDATA[The new lines that take their place.]]></replace>
+    </edit>
+    <edit>
+      <search><![CDATA[Another exact block from the same file.]]></search>
+      <replace><![CDATA[]]></replace> <!-- An empty replace block removes the searched lines. -->
+    </edit>
+  </change>
+  <change file="path/to/new/name.ext" from="path/to/old/name.ext"></change> <!-- Moves the file without changing it. -->
   <change file="path/to/delete.ext">
     <content><![CDATA[]]></content> <!-- An empty CDATA block means DELETE the file. -->
   </change>
 </changes>
 \`\`\`
 
+**Rules for \`<edit>\` blocks:**
+- The \`<search>\` text MUST exist in the current file exactly as written, including indentation. Include enough surrounding lines to make it unique; only the first match is replaced.
+- Edits are applied in order, each to the result of the previous one. Do not overlap them.
+- If any search text cannot be found, the whole response is rejected. When in doubt, use Full Content.
+- Edits must not leave the file empty. To delete a file, use an empty \`<content>\` block.
+- Never mix \`<content>\` and \`<edit>\` in the same \`<change>\` block.
+
+**Rules for renames:**
+- Never rename a file by deleting it and creating it again; use \`from\` so the user sees only what changed.
+- In a rename, \`<search>\` text comes from the file at its old path.
+- The new path must not exist yet; never rename a file onto another one.
+- A renamed file cannot be emptied. To remove a file, delete it at its current path instead.
+
 **Final reminders on format:**
 - Follow the example precisely.
 - Do not add extra tags like \`<description>\` inside a \`<change>\` block.
@@ -124,9 +110,8 @@ ${longTermMemory}
   if (undoRegex.test(prompt)) {
     const mentionedFile = allFilePaths.find(path => prompt.includes(path));
 
-    if (mentionedFile && fileHistory.length > 0) {
-      const previousState = fileHistory[0];
-      const previousFile = previousState.find(f => f.path === mentionedFile);
+    if (mentionedFile && previousFiles) {
+      const previousFile = previousFiles.find(f => f.path === mentionedFile);
       if (previousFile) {
         undoContext = `
 ---
@@ -147,13 +132,16 @@ ${previousFile.content}
   const instructions: string[] = [selfCorrectionBlock, ironLawAndBaseInstructions];
 
   let sessionSummaryContext = '';
+  let focusContext = '';
   let projectContext = '';
   
   if (allFilePaths.length > 0) {
     instructions.push(guidingPrinciples);
 
+    const focus = new Set(focusPaths);
     const summaryFiles = projectFiles.filter(f => f.path.endsWith('session_summary.md'));
-    const otherFiles = projectFiles.filter(f => !f.path.endsWith('session_summary.md'));
+    const focusFiles = projectFiles.filter(f => focus.has(f.path) && !f.path.endsWith('session_summary.md'));
+    const otherFiles = projectFiles.filter(f => !focus.has(f.path) && !f.path.endsWith('session_summary.md'));
     
     if (summaryFiles.length > 0) {
         const summaryContents = summaryFiles
@@ -169,20 +157,51 @@ ${summaryContents}
 `;
     }
 
+    if (focusFiles.length > 0) {
+        const focusContents = focusFiles
+          .map(file => `--- FILE: ${file.path} ---\n${file.content}\n--- END FILE: ${file.path} ---`)
+          .join('\n\n');
+
+        focusContext = `
+---
+FOCUS FILES:
+The user explicitly mentioned these files (as "@path") in their message. They are the focus of this request: read them first, and prefer them when deciding what to change.
+${focusContents}
+---
+`;
+    }
+
+    const providedPaths = new Set(projectFiles.map(f => f.path));
+    const omittedPaths = allFilePaths.filter(path => !providedPaths.has(path));
+
     if (otherFiles.length > 0) {
         const fileContents = otherFiles
           .map(file => `--- FILE: ${file.path} ---\n${file.content}\n--- END FILE: ${file.path} ---`)
           .join('\n\n');
         
+        const coverage = omittedPaths.length === 0
+          ? `You have been provided with the full content of all files in the user's project${focusFiles.length > 0 ? ' (the focus files are above)' : ''}.`
+          : `You have been provided with the full content of the project files most relevant to this request${focusFiles.length > 0 ? ' (the focus files are above)' : ''}. The remaining files are listed by path only under "OTHER PROJECT FILES".`;
+
         projectContext = `
 ---
 PROJECT CONTEXT:
-You have been provided with the full content of all files in the user's project.
+${coverage}
 Analyze them carefully to understand the project's structure, dependencies, and style before making any changes.
 Any modifications you propose MUST be consistent with the existing codebase and architecture.
 
 PROJECT FILES PROVIDED:
 ${fileContents}
+`;
+    }
+
+    if (omittedPaths.length > 0) {
+        projectContext += `
+---
+OTHER PROJECT FILES (CONTENT NOT PROVIDED):
+These files exist in the project, but their content was left out to save space. You MUST NOT propose changes to them, because you cannot see their current content.
+If you need one of them, say so and ask the user to mention it as "@path" in their next message; mentioned files are always provided.
+${omittedPaths.join('\n')}
 `;
     }
   } else {
@@ -199,6 +218,9 @@ ${fileContents}
   if (sessionSummaryContext) {
     instructions.push(sessionSummaryContext);
   }
+  if (focusContext) {
+    instructions.push(focusContext);
+  }
   if (projectContext) {
       instructions.push(projectContext);
   }
@@ -221,18 +243,33 @@ const fileToGenerativePart = async (file: File): Promise<ContentPart> => {
     };
 };
 
+/**
+ * Builds the options of a request from the user's settings for the model.
+ */
+const toGenerationOptions = (systemInstruction: string, settings: GenerationSettings, onUsage?: (usage: TokenUsage) => void): GenerationOptions => ({
+    systemInstruction,
+    onUsage,
+    temperature: settings.temperature,
+    topP: settings.topP ?? undefined,
+    maxOutputTokens: settings.maxOutputTokens ?? undefined,
+    thinkingBudget: settings.thinkingBudget ?? undefined,
+});
+
 export const streamChatResponse = async function* (
   prompt: string,
   chatHistory: ChatMessage[],
-  files: UploadedFile[],
-  fileHistory: UploadedFile[][],
-  model: GeminiModel,
+  contextFiles: UploadedFile[],
+  focusPaths: string[],
+  allFilePaths: string[],
+  previousFiles: UploadedFile[] | null,
+  model: ModelId,
+  generationSettings: GenerationSettings,
   stagedFiles: File[],
   longTermMemory: string,
-  correctionDirective: string | null = null
+  correctionDirective: string | null = null,
+  onUsage?: (usage: TokenUsage) => void
 ): AsyncGenerator<string> {
-    const allFilePaths = files.map(f => f.path);
-    const systemInstruction = buildSystemInstruction(prompt, files, allFilePaths, fileHistory, longTermMemory, correctionDirective);
+    const systemInstruction = buildSystemInstruction(prompt, contextFiles, focusPaths, allFilePaths, previousFiles, longTermMemory, correctionDirective);
     
     // Use the explicit ModelContent[] type to ensure the array can hold mixed part types later.
     const contents: ModelContent[] = chatHistory.slice(0, -1).map(message => ({
@@ -250,28 +287,19 @@ export const streamChatResponse = async function* (
     
     contents.push({ role: 'user', parts: userMessageParts });
 
-    const responseStream = await callGeminiWithRetry<AsyncGenerator<GenerateContentResponse>>(() => 
-      ai.models.generateContentStream({
-        model,
-        contents,
-        config: {
-          systemInstruction,
-          temperature: 0.8, // Set temperature for more creative/varied responses
-        }
-      })
-    );
-
-    for await (const chunk of responseStream) {
-      if (chunk.text) {
-        yield chunk.text;
-      }
-    }
+    const { providerId, model: modelName } = parseModelId(model);
+    const provider = getProvider(providerId);
+
+    yield* provider.streamChat(modelName, contents, toGenerationOptions(systemInstruction, generationSettings, onUsage));
 };
 
 export const generateContextResponse = async (
   chatHistory: ChatMessage[],
   files: UploadedFile[],
-  summaryFilePath: string
+  summaryFilePath: string,
+  model: ModelId,
+  generationSettings: GenerationSettings,
+  onUsage?: (usage: TokenUsage) => void
 ): Promise<ProposedChange> => {
   const systemInstruction = `You are an expert summarizer. Your task is to summarize the provided chat history into a concise, well-structured markdown document.
 Focus on key decisions, important code snippets, file changes, and unresolved questions. The user will use this summary to restore context in a future session.
@@ -281,20 +309,14 @@ Be thorough but not overly verbose. Use headings and bullet points for clarity.`
     .map(msg => `**${msg.role === 'user' ? 'User' : 'Gemini'}:**\n${msg.content || ''}${msg.warning ? `\n*[Warning: ${msg.warning}]*` : ''}${msg.error ? `\n*[Error: ${msg.error}]*` : ''}`)
     .join('\n\n---\n\n');
   
-  const contents = `${historyText}`;
-
-  const response = await callGeminiWithRetry<GenerateContentResponse>(() =>
-    ai.models.generateContent({
-      model: 'gemini-2.5-flash', // Use a fast model for summarization
-      contents,
-      config: {
-        systemInstruction,
-        temperature: 0.5,
-      }
-    })
-  );
+  const contents: ModelContent[] = [{ role: 'user', parts: [{ text: historyText }] }];
+
+  const { providerId, model: modelName } = parseModelId(model);
+  const provider = getProvider(providerId);
 
-  const summaryContent = response.text.trim();
+  const responseText = await provider.generate(modelName, contents, toGenerationOptions(systemInstruction, generationSettings, onUsage));
+
+  const summaryContent = responseText.trim();
 
   const existingFile = files.find(f => f.path === summaryFilePath);
   const oldContent = existingFile?.content ?? '';
@@ -306,4 +328,4 @@ Be thorough but not overly verbose. Use headings and bullet points for clarity.`
   };
 
   return change;
-};
\ No newline at end of file
+};
@@ -0,0 +1,172 @@
+// The File System Access API's folder picker, which TypeScript's DOM typings don't include yet.
+declare global {
+    interface Window {
+        showDirectoryPicker(options?: { mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+    }
+}
+
+// A folder on the user's disk that the session reads from and writes changes back to.
+export interface LocalFolder {
+    handle: FileSystemDirectoryHandle;
+    // The folder's name. Like a folder upload, every project path starts with it.
+    name: string;
+}
+
+// A file as the session last read it from or wrote it to disk.
+export interface DiskFileState {
+    content: string;
+    lastModified: number;
+}
+
+// A file whose modification time changed on disk; null content means it was deleted.
+export interface ChangedDiskFile {
+    path: string;
+    content: string | null;
+    lastModified: number;
+}
+
+export const isLocalFolderSupported = (): boolean => typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+/**
+ * Asks the user to pick a folder and for permission to edit it.
+ * @returns The folder, or null if the user cancelled the picker.
+ */
+export const pickLocalFolder = async (): Promise<LocalFolder | null> => {
+    try {
+        const handle = await window.showDirectoryPicker({ mode: 'readwrite' });
+        return { handle, name: handle.name };
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+            return null;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Lists every file in the folder. Each file gets the same relative path a folder upload
+ * would give it (e.g. "my-project/src/index.ts"), so it can go through the upload plan.
+ * @param folder The folder to walk.
+ * @param isIgnoredFolder Folders to skip entirely, such as node_modules.
+ */
+export const listLocalFolderFiles = async (folder: LocalFolder, isIgnoredFolder: (path: string) => boolean): Promise<File[]> => {
+    const files: File[] = [];
+    const walk = async (directory: FileSystemDirectoryHandle, path: string) => {
+        for await (const entry of directory.values()) {
+            const entryPath = `${path}/${entry.name}`;
+            if (entry.kind === 'directory') {
+                if (!isIgnoredFolder(entryPath)) {
+                    await walk(entry as FileSystemDirectoryHandle, entryPath);
+                }
+            } else {
+                const file = await (entry as FileSystemFileHandle).getFile();
+                Object.defineProperty(file, 'webkitRelativePath', { value: entryPath });
+                files.push(file);
+            }
+        }
+    };
+    await walk(folder.handle, folder.name);
+    return files;
+};
+
+/**
+ * Splits a project path into the folder names below the picked folder and the file name.
+ */
+const splitPath = (folder: LocalFolder, path: string): { folders: string[]; fileName: string } => {
+    const segments = path.split('/');
+    if (segments[0] !== folder.name || segments.length < 2) {
+        throw new Error(`${path} is not inside the folder ${folder.name}.`);
+    }
+    return { folders: segments.slice(1, -1), fileName: segments[segments.length - 1] };
+};
+
+const getDirectory = async (folder: LocalFolder, folders: string[], create: boolean): Promise<FileSystemDirectoryHandle> => {
+    let directory = folder.handle;
+    for (const name of folders) {
+        directory = await directory.getDirectoryHandle(name, { create });
+    }
+    return directory;
+};
+
+/**
+ * Checks whether a project path belongs to the folder (and so is written back to it).
+ */
+export const isInLocalFolder = (folder: LocalFolder, path: string): boolean => path.startsWith(`${folder.name}/`);
+
+/**
+ * Reads a file from the folder.
+ * @returns The file's content and modification time, or null if it doesn't exist.
+ */
+export const readLocalFile = async (folder: LocalFolder, path: string): Promise<DiskFileState | null> => {
+    const { folders, fileName } = splitPath(folder, path);
+    try {
+        const directory = await getDirectory(folder, folders, false);
+        const file = await (await directory.getFileHandle(fileName)).getFile();
+        return { content: await file.text(), lastModified: file.lastModified };
+    } catch (error) {
+        if (error instanceof DOMException && (error.name === 'NotFoundError' || error.name === 'TypeMismatchError')) {
+            return null;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Writes a file to the folder, creating it and any missing folders.
+ * @returns The file's state on disk after writing.
+ */
+export const writeLocalFile = async (folder: LocalFolder, path: string, content: string): Promise<DiskFileState> => {
+    const { folders, fileName } = splitPath(folder, path);
+    const directory = await getDirectory(folder, folders, true);
+    const handle = await directory.getFileHandle(fileName, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+    const file = await handle.getFile();
+    return { content, lastModified: file.lastModified };
+};
+
+/**
+ * Deletes a file from the folder. A file that is already gone is not an error.
+ */
+export const deleteLocalFile = async (folder: LocalFolder, path: string): Promise<void> => {
+    const { folders, fileName } = splitPath(folder, path);
+    try {
+        const directory = await getDirectory(folder, folders, false);
+        await directory.removeEntry(fileName);
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'NotFoundError') {
+            return;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Reads the files that were touched on disk since the session last read or wrote them.
+ * Only files with a new modification time are read; the caller decides whether the
+ * content actually changed.
+ * @param folder The folder.
+ * @param diskState What the session last saw of each file it tracks.
+ */
+export const readChangedLocalFiles = async (folder: LocalFolder, diskState: Map<string, DiskFileState>): Promise<ChangedDiskFile[]> => {
+    const changes: ChangedDiskFile[] = [];
+    for (const [path, known] of diskState) {
+        const { folders, fileName } = splitPath(folder, path);
+        let file: File;
+        try {
+            const directory = await getDirectory(folder, folders, false);
+            file = await (await directory.getFileHandle(fileName)).getFile();
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'NotFoundError') {
+                changes.push({ path, content: null, lastModified: 0 });
+                continue;
+            }
+            throw error;
+        }
+        if (file.lastModified !== known.lastModified) {
+            changes.push({ path, content: await file.text(), lastModified: file.lastModified });
+        }
+    }
+    return changes;
+};
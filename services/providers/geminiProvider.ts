@@ -0,0 +1,104 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { ModelOption, TokenUsage } from '../../types';
+import { AVAILABLE_MODELS, GEMINI_MODEL_LIMITS } from '../../types';
+import type { LlmProvider, ModelContent, GenerationOptions } from './provider';
+import { ProviderError, callWithRetry, extractErrorMessage, classifyErrorMessage, toModelId } from './provider';
+
+export const GEMINI_PROVIDER_ID = 'gemini';
+
+/**
+ * Maps the provider-neutral options to the Gemini SDK's request config.
+ */
+const toGenerateConfig = (options: GenerationOptions) => ({
+  systemInstruction: options.systemInstruction,
+  temperature: options.temperature,
+  topP: options.topP,
+  maxOutputTokens: options.maxOutputTokens,
+  ...(options.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: options.thinkingBudget } }),
+});
+
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata): TokenUsage => ({
+  promptTokens: metadata.promptTokenCount ?? 0,
+  cachedTokens: metadata.cachedContentTokenCount ?? 0,
+  outputTokens: metadata.candidatesTokenCount ?? 0,
+  thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+});
+
+/**
+ * Creates the provider for Google's Gemini API.
+ * @param apiKey The Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const provider: LlmProvider = {
+    id: GEMINI_PROVIDER_ID,
+    label: 'Gemini',
+
+    listModels: async (): Promise<ModelOption[]> => {
+      return AVAILABLE_MODELS.map(model => ({
+        id: toModelId(GEMINI_PROVIDER_ID, model),
+        providerId: GEMINI_PROVIDER_ID,
+        providerLabel: provider.label,
+        model,
+        ...GEMINI_MODEL_LIMITS[model],
+      }));
+    },
+
+    streamChat: async function* (model: string, contents: ModelContent[], options: GenerationOptions): AsyncGenerator<string> {
+      const responseStream = await callWithRetry<AsyncGenerator<GenerateContentResponse>>(provider, () =>
+        ai.models.generateContentStream({
+          model,
+          contents,
+          config: toGenerateConfig(options),
+        })
+      );
+
+      // Every chunk carries the counts so far; the last one has the totals.
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+      try {
+        for await (const chunk of responseStream) {
+          usageMetadata = chunk.usageMetadata ?? usageMetadata;
+          if (chunk.text) {
+            yield chunk.text;
+          }
+        }
+      } catch (e) {
+        throw provider.normalizeError(e);
+      } finally {
+        if (usageMetadata) {
+          options.onUsage?.(toTokenUsage(usageMetadata));
+        }
+      }
+    },
+
+    generate: async (model: string, contents: ModelContent[], options: GenerationOptions): Promise<string> => {
+      const response = await callWithRetry<GenerateContentResponse>(provider, () =>
+        ai.models.generateContent({
+          model,
+          contents,
+          config: toGenerateConfig(options),
+        })
+      );
+      if (response.usageMetadata) {
+        options.onUsage?.(toTokenUsage(response.usageMetadata));
+      }
+      return response.text ?? '';
+    },
+
+    normalizeError: (error: unknown): ProviderError => {
+      if (error instanceof ProviderError) {
+        return error;
+      }
+      const message = extractErrorMessage(error);
+      // The Gemini SDK reports the HTTP status as a `status` or `code` field on some errors.
+      const errorObject = (typeof error === 'object' && error !== null ? error : {}) as Record<string, any>;
+      const status = typeof errorObject.status === 'number' ? errorObject.status
+        : typeof errorObject.code === 'number' ? errorObject.code
+        : undefined;
+      return new ProviderError(message, classifyErrorMessage(message, status), GEMINI_PROVIDER_ID, error);
+    },
+  };
+
+  return provider;
+};
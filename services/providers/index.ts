@@ -0,0 +1,86 @@
+import type { ModelOption } from '../../types';
+import type { LlmProvider } from './provider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export type { LlmProvider, ModelContent, ContentPart, GenerationOptions } from './provider';
+export { ProviderError, parseModelId, toModelId } from './provider';
+export { GEMINI_PROVIDER_ID } from './geminiProvider';
+
+const GEMINI_API_KEY = process.env.API_KEY;
+const OPENAI_COMPATIBLE_BASE_URL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+// Ollama's default context is small; 8k is a safe assumption when none is configured.
+const DEFAULT_LOCAL_CONTEXT_WINDOW = 8192;
+const DEFAULT_LOCAL_MAX_OUTPUT_TOKENS = 2048;
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Builds the list of providers from the environment. Gemini is enabled by API_KEY;
+ * an OpenAI-compatible server (e.g. a local Ollama) by OPENAI_COMPATIBLE_BASE_URL.
+ */
+const createConfiguredProviders = (): LlmProvider[] => {
+  const providers: LlmProvider[] = [];
+
+  if (GEMINI_API_KEY) {
+    providers.push(createGeminiProvider(GEMINI_API_KEY));
+  }
+
+  if (OPENAI_COMPATIBLE_BASE_URL) {
+    const models = (process.env.OPENAI_COMPATIBLE_MODELS ?? '')
+      .split(',')
+      .map(model => model.trim())
+      .filter(Boolean);
+    providers.push(createOpenAiCompatibleProvider({
+      id: 'openai-compatible',
+      label: process.env.OPENAI_COMPATIBLE_LABEL || 'Local (OpenAI-compatible)',
+      baseUrl: OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+      models,
+      contextWindow: parsePositiveInt(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW, DEFAULT_LOCAL_CONTEXT_WINDOW),
+      maxOutputTokens: parsePositiveInt(process.env.OPENAI_COMPATIBLE_MAX_OUTPUT_TOKENS, DEFAULT_LOCAL_MAX_OUTPUT_TOKENS),
+    }));
+  }
+
+  return providers;
+};
+
+const providers = createConfiguredProviders();
+
+if (providers.length === 0) {
+  throw new Error("No AI provider is configured. Set the GEMINI_API_KEY environment variable, or OPENAI_COMPATIBLE_BASE_URL for a local OpenAI-compatible server, in your deployment environment.");
+}
+
+export const getProvider = (providerId: string): LlmProvider => {
+  const provider = providers.find(p => p.id === providerId);
+  if (!provider) {
+    throw new Error(`The AI provider "${providerId}" is not configured.`);
+  }
+  return provider;
+};
+
+/**
+ * Lists the models of every configured provider. A provider that cannot be reached
+ * (e.g. a local server that isn't running) is skipped rather than failing the whole list.
+ * @returns The available models, plus an error message for each provider that failed.
+ */
+export const listAvailableModels = async (): Promise<{ models: ModelOption[]; errors: string[] }> => {
+  const results = await Promise.allSettled(providers.map(provider => provider.listModels()));
+  const models: ModelOption[] = [];
+  const errors: string[] = [];
+
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      models.push(...result.value);
+    } else {
+      const error = providers[i].normalizeError(result.reason);
+      console.warn(`Could not list models for ${providers[i].label}:`, error);
+      errors.push(`${providers[i].label}: ${error.message}`);
+    }
+  });
+
+  return { models, errors };
+};
@@ -0,0 +1,242 @@
+import type { ModelOption, TokenUsage } from '../../types';
+import type { LlmProvider, ModelContent, ContentPart, GenerationOptions } from './provider';
+import { ProviderError, callWithRetry, extractErrorMessage, classifyErrorMessage, toModelId } from './provider';
+
+export interface OpenAiCompatibleConfig {
+  id: string;
+  label: string;
+  /** Base URL including the version prefix, e.g. "http://localhost:11434/v1" for Ollama. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Models to offer. When empty, they are discovered from the server's /models endpoint. */
+  models?: string[];
+  /** Context window of the served models. The OpenAI API doesn't report it, so it is configured. */
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+type OpenAiMessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type OpenAiUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+};
+
+type OpenAiMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAiMessagePart[];
+};
+
+/**
+ * An HTTP error response from the server, kept with its status so it can be classified.
+ */
+class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+const isTextMimeType = (mimeType: string): boolean => {
+  return mimeType.startsWith('text/') || ['application/json', 'application/javascript', 'application/xml', 'application/x-sh'].includes(mimeType);
+};
+
+const decodeBase64Text = (data: string): string => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Converts a Gemini-style content part into the OpenAI chat format. Text attachments are
+ * inlined as text, since most local servers don't accept arbitrary file parts.
+ */
+const toOpenAiPart = (part: ContentPart): OpenAiMessagePart => {
+  if ('text' in part) {
+    return { type: 'text', text: part.text };
+  }
+  const { mimeType, data } = part.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  if (isTextMimeType(mimeType) || mimeType === '') {
+    return { type: 'text', text: `--- ATTACHED FILE (${mimeType || 'text/plain'}) ---\n${decodeBase64Text(data)}\n--- END ATTACHED FILE ---` };
+  }
+  return { type: 'text', text: `[An attachment of type ${mimeType} was omitted because this model cannot read it.]` };
+};
+
+const toOpenAiMessages = (contents: ModelContent[], systemInstruction: string): OpenAiMessage[] => {
+  const messages: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+  contents.forEach(content => {
+    const parts = content.parts.map(toOpenAiPart);
+    const role = content.role === 'model' ? 'assistant' : 'user';
+    // Plain strings are the most widely supported form, so only use part arrays when needed.
+    const isTextOnly = parts.every(part => part.type === 'text');
+    messages.push({
+      role,
+      content: isTextOnly ? parts.map(part => (part as { text: string }).text).join('\n\n') : parts,
+    });
+  });
+  return messages;
+};
+
+/**
+ * Maps the OpenAI usage object to TokenUsage. Reasoning tokens are part of the
+ * completion tokens there, so they are moved out of the output count.
+ */
+const toTokenUsage = (usage: OpenAiUsage): TokenUsage => {
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    outputTokens: Math.max(0, (usage.completion_tokens ?? 0) - thinkingTokens),
+    thinkingTokens,
+  };
+};
+
+/**
+ * Creates a provider for any server that implements the OpenAI chat completions API,
+ * such as Ollama, llama.cpp's server, LM Studio or vLLM.
+ * @param config The server's connection details.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LlmProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        detail = extractErrorMessage(await response.json());
+      } catch {
+        // The body was not JSON; keep the status text.
+      }
+      throw new HttpStatusError(`${config.label} request failed (HTTP ${response.status}): ${detail}`, response.status);
+    }
+    return response;
+  };
+
+  const provider: LlmProvider = {
+    id: config.id,
+    label: config.label,
+
+    listModels: async (): Promise<ModelOption[]> => {
+      let models = config.models ?? [];
+      if (models.length === 0) {
+        const response = await callWithRetry(provider, () => request('/models'));
+        const body = await response.json() as { data?: { id: string }[] };
+        models = (body.data ?? []).map(entry => entry.id).sort((a, b) => a.localeCompare(b));
+      }
+      return models.map(model => ({
+        id: toModelId(config.id, model),
+        providerId: config.id,
+        providerLabel: config.label,
+        model,
+        contextWindow: config.contextWindow,
+        maxOutputTokens: config.maxOutputTokens,
+      }));
+    },
+
+    streamChat: async function* (model: string, contents: ModelContent[], options: GenerationOptions): AsyncGenerator<string> {
+      const response = await callWithRetry(provider, () => request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model,
+          messages: toOpenAiMessages(contents, options.systemInstruction),
+          temperature: options.temperature,
+          top_p: options.topP,
+          max_tokens: options.maxOutputTokens,
+          stream: true,
+          // Asks for a final chunk with the token counts; servers that don't support it ignore it.
+          stream_options: { include_usage: true },
+        }),
+      }));
+
+      if (!response.body) {
+        throw new ProviderError(`${config.label} returned an empty response stream.`, 'unknown', config.id);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let usage: OpenAiUsage | undefined;
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Server-sent events are separated by newlines; keep any incomplete line for the next read.
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const data = trimmed.slice('data:'.length).trim();
+            if (data === '[DONE]') return;
+
+            const event = JSON.parse(data) as { choices?: { delta?: { content?: string } }[]; usage?: OpenAiUsage | null; error?: unknown };
+            if (event.error) {
+              throw event.error;
+            }
+            usage = event.usage ?? usage;
+            const text = event.choices?.[0]?.delta?.content;
+            if (text) {
+              yield text;
+            }
+          }
+        }
+      } catch (e) {
+        throw provider.normalizeError(e);
+      } finally {
+        reader.releaseLock();
+        if (usage) {
+          options.onUsage?.(toTokenUsage(usage));
+        }
+      }
+    },
+
+    generate: async (model: string, contents: ModelContent[], options: GenerationOptions): Promise<string> => {
+      const response = await callWithRetry(provider, () => request('/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model,
+          messages: toOpenAiMessages(contents, options.systemInstruction),
+          temperature: options.temperature,
+          top_p: options.topP,
+          max_tokens: options.maxOutputTokens,
+          stream: false,
+        }),
+      }));
+      const body = await response.json() as { choices?: { message?: { content?: string } }[]; usage?: OpenAiUsage };
+      if (body.usage) {
+        options.onUsage?.(toTokenUsage(body.usage));
+      }
+      return body.choices?.[0]?.message?.content ?? '';
+    },
+
+    normalizeError: (error: unknown): ProviderError => {
+      if (error instanceof ProviderError) {
+        return error;
+      }
+      const message = extractErrorMessage(error);
+      const status = error instanceof HttpStatusError ? error.status : undefined;
+      return new ProviderError(message, classifyErrorMessage(message, status), config.id, error);
+    },
+  };
+
+  return provider;
+};
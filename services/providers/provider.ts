@@ -0,0 +1,140 @@
+import type { ModelId, ModelOption, TokenUsage } from '../../types';
+
+// Provider-neutral message structure. It mirrors Gemini's content format, which
+// the rest of the app was originally written against.
+export type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+export type ModelContent = { role: 'user' | 'model'; parts: ContentPart[] };
+
+export interface GenerationOptions {
+  systemInstruction: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  // Ignored by providers and models without a configurable thinking budget.
+  thinkingBudget?: number;
+  // Receives the call's token counts once the provider reports them. Also called for a
+  // stream the caller stops early, with the counts reported so far.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export type ProviderErrorKind = 'quota' | 'auth' | 'network' | 'unavailable' | 'unknown';
+
+/**
+ * An error from an LLM provider, normalized so the UI doesn't need to know
+ * each provider's error shape.
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly providerId: string;
+
+  constructor(message: string, kind: ProviderErrorKind, providerId: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.providerId = providerId;
+  }
+}
+
+export interface LlmProvider {
+  /** Stable identifier used as the prefix of a ModelId, e.g. "gemini". Must not contain ":". */
+  readonly id: string;
+  /** Human-readable name shown in the model selector. */
+  readonly label: string;
+  listModels(): Promise<ModelOption[]>;
+  streamChat(model: string, contents: ModelContent[], options: GenerationOptions): AsyncGenerator<string>;
+  generate(model: string, contents: ModelContent[], options: GenerationOptions): Promise<string>;
+  normalizeError(error: unknown): ProviderError;
+}
+
+export const toModelId = (providerId: string, model: string): ModelId => `${providerId}:${model}`;
+
+/**
+ * Splits a ModelId into its provider and model name. Only the first ":" separates
+ * them, since local model names often contain one themselves (e.g. "llama3.1:8b").
+ */
+export const parseModelId = (modelId: ModelId): { providerId: string; model: string } => {
+  const separatorIndex = modelId.indexOf(':');
+  if (separatorIndex === -1) {
+    throw new Error(`Invalid model identifier "${modelId}". Expected "<provider>:<model>".`);
+  }
+  return { providerId: modelId.slice(0, separatorIndex), model: modelId.slice(separatorIndex + 1) };
+};
+
+/**
+ * Extracts a readable message from the many error shapes returned by SDKs and HTTP APIs,
+ * such as `{ error: { message } }` or `{ message }`.
+ */
+export const extractErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null) {
+    const errorObject = error as Record<string, any>;
+    if (errorObject.error && typeof errorObject.error === 'object' && errorObject.error.message) {
+      return String(errorObject.error.message);
+    }
+    if (errorObject.message) {
+      return String(errorObject.message);
+    }
+    try {
+      return JSON.stringify(error);
+    } catch {
+      return 'An unknown error object was received.';
+    }
+  }
+  return String(error);
+};
+
+/**
+ * Classifies an error message into a ProviderErrorKind using the wording
+ * common to most LLM APIs.
+ */
+export const classifyErrorMessage = (message: string, status?: number): ProviderErrorKind => {
+  const lowerMessage = message.toLowerCase();
+  if (status === 429 || lowerMessage.includes('quota') || lowerMessage.includes('rate limit') || lowerMessage.includes('resource_exhausted')) {
+    return 'quota';
+  }
+  if (status === 401 || status === 403 || lowerMessage.includes('api key') || lowerMessage.includes('unauthorized') || lowerMessage.includes('permission_denied')) {
+    return 'auth';
+  }
+  if (status === 0 || lowerMessage.includes('http status code: 0') || lowerMessage.includes('failed to fetch') || lowerMessage.includes('networkerror')) {
+    return 'network';
+  }
+  if (status === 503 || lowerMessage.includes('unavailable') || lowerMessage.includes('overloaded')) {
+    return 'unavailable';
+  }
+  return 'unknown';
+};
+
+/**
+ * A wrapper for provider calls that normalizes errors and retries with
+ * exponential backoff for "quota exceeded" errors.
+ * @param provider The provider the call is made against.
+ * @param apiCall The async function to call the provider's API.
+ * @returns The result of the API call.
+ */
+export const callWithRetry = async <T>(provider: LlmProvider, apiCall: () => Promise<T>): Promise<T> => {
+  const maxRetries = 3;
+  let delay = 1000; // start with 1 second
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await apiCall();
+    } catch (e) {
+      const error = provider.normalizeError(e);
+      if (error.kind !== 'quota') {
+        throw error; // re-throw other errors immediately
+      }
+      if (attempt === maxRetries - 1) {
+        // On the last attempt, re-throw the error to be handled by the UI.
+        console.error(`${provider.label} API call failed after ${maxRetries} attempts due to quota limits.`);
+        throw error;
+      }
+      console.warn(`Quota exceeded. Retrying in ${delay}ms... (Attempt ${attempt + 1}/${maxRetries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay *= 2; // exponential backoff
+    }
+  }
+  // This line should not be reachable due to the logic above, but it satisfies TypeScript's need for a return path.
+  throw new ProviderError(`${provider.label} API call failed after multiple retries.`, 'quota', provider.id);
+};
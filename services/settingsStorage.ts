@@ -0,0 +1,26 @@
+// User preferences that apply to every workspace are kept in localStorage under this prefix.
+const SETTINGS_KEY_PREFIX = 'gemini-cloud-cli:settings:';
+
+/**
+ * Reads a setting saved with `saveSetting`.
+ * @param key The setting's name.
+ * @param fallback The value to use when the setting was never saved or can't be read.
+ * @returns The saved value, or the fallback.
+ */
+export const loadSetting = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(SETTINGS_KEY_PREFIX + key);
+        return raw === null ? fallback : JSON.parse(raw) as T;
+    } catch (e) {
+        console.warn(`Could not read the "${key}" setting:`, e);
+        return fallback;
+    }
+};
+
+export const saveSetting = <T>(key: string, value: T): void => {
+    try {
+        localStorage.setItem(SETTINGS_KEY_PREFIX + key, JSON.stringify(value));
+    } catch (e) {
+        console.warn(`Could not save the "${key}" setting:`, e);
+    }
+};
@@ -0,0 +1,167 @@
+import type { SavedWorkspace, WorkspaceState, WorkspaceSummary, UploadedFile } from '../types';
+import { timelineFromLegacyHistory } from '../utils/fileTimeline';
+import { createThread, DEFAULT_THREAD_NAME } from '../utils/chatThreads';
+
+const DB_NAME = 'gemini-cloud-cli';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspaces';
+const ACTIVE_WORKSPACE_KEY = 'gemini-cloud-cli:active-workspace';
+const MEMORY_FOLDER = 'AI_Memory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps a single IndexedDB request in a promise.
+ * @param request The IndexedDB request to await.
+ * @returns The result of the request.
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error('Unknown IndexedDB error.'));
+    });
+};
+
+/**
+ * Opens (and on first use, creates) the workspace database.
+ * The connection is cached for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) {
+        return dbPromise;
+    }
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+                db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error(`Failed to open database "${DB_NAME}".`));
+    });
+
+    // Allow a later call to retry if opening failed (e.g. private browsing restrictions).
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+
+    return dbPromise;
+};
+
+/**
+ * Derives a human-readable workspace name from the project's top-level folder.
+ * @param files The files currently in the workspace.
+ * @returns The project folder name, or a generic fallback.
+ */
+export const deriveWorkspaceName = (files: UploadedFile[]): string => {
+    const projectRoots = [...new Set(files.map(f => f.path.split('/')[0]).filter(p => p !== MEMORY_FOLDER && !p.includes('.')))];
+    if (projectRoots.length === 0) {
+        return 'Untitled workspace';
+    }
+    return projectRoots.join(', ');
+};
+
+export const createWorkspaceId = (): string => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const getActiveWorkspaceId = (): string | null => {
+    try {
+        return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setActiveWorkspaceId = (id: string): void => {
+    try {
+        localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+    } catch (e) {
+        console.warn('Could not remember the active workspace:', e);
+    }
+};
+
+/**
+ * Saves the given workspace state, creating the record if it doesn't exist yet.
+ * The original creation time is preserved across saves.
+ * @param id The workspace identifier.
+ * @param state The workspace state to persist.
+ * @returns The stored workspace record.
+ */
+export const saveWorkspace = async (id: string, state: WorkspaceState): Promise<SavedWorkspace> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(WORKSPACE_STORE, 'readwrite');
+    const store = transaction.objectStore(WORKSPACE_STORE);
+
+    const existing = await requestToPromise<SavedWorkspace | undefined>(store.get(id));
+    const now = Date.now();
+    const record: SavedWorkspace = {
+        ...state,
+        id,
+        name: deriveWorkspaceName(state.files),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+
+    await requestToPromise(store.put(record));
+    return record;
+};
+
+export const loadWorkspace = async (id: string): Promise<SavedWorkspace | null> => {
+    const db = await openDatabase();
+    const store = db.transaction(WORKSPACE_STORE, 'readonly').objectStore(WORKSPACE_STORE);
+    const record = await requestToPromise<SavedWorkspace | undefined>(store.get(id));
+    if (!record) {
+        return null;
+    }
+    // Workspaces saved by earlier versions lack a baseline, branches, threads and a usage log, and store file history as plain states.
+    const legacyRecord = record as SavedWorkspace & { fileHistory?: UploadedFile[][] };
+    const threads = record.threads ?? [createThread(DEFAULT_THREAD_NAME, [])];
+    return {
+        ...record,
+        baselineFiles: record.baselineFiles ?? record.files,
+        branchPoints: record.branchPoints ?? [],
+        threads,
+        activeThreadId: record.activeThreadId ?? threads[0].id,
+        fileTimeline: record.fileTimeline ?? timelineFromLegacyHistory(record.files, legacyRecord.fileHistory ?? []),
+        usageLog: record.usageLog ?? [],
+    };
+};
+
+/**
+ * Lists all saved workspaces, most recently updated first.
+ * Only lightweight summaries are returned; use `loadWorkspace` to get the full state.
+ */
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+    const db = await openDatabase();
+    const store = db.transaction(WORKSPACE_STORE, 'readonly').objectStore(WORKSPACE_STORE);
+    const records = await requestToPromise<SavedWorkspace[]>(store.getAll());
+
+    return records
+        .map(record => ({
+            id: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            fileCount: record.files.length,
+            messageCount: record.chatHistory.length + (record.threads ?? []).reduce((acc, thread) => acc + thread.chatHistory.length, 0),
+        }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const store = db.transaction(WORKSPACE_STORE, 'readwrite').objectStore(WORKSPACE_STORE);
+    await requestToPromise(store.delete(id));
+};
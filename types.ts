@@ -10,16 +10,117 @@ export interface FileChange {
   newContent: string;
 }
 
+// A syntax problem found in a proposed file before it is applied. Lines and columns start at 1.
+export interface FileDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+}
+
 // This is what we store in the ChatMessage state, after enriching it with the old content for diffing.
 export interface ProposedChange extends FileChange {
   oldContent: string;
+  // The file's path before this change, when the change renames (moves) it; oldContent is that file's content.
+  renamedFrom?: string;
+  // The problems the syntax check found; missing when the file's type isn't checked or the check didn't run.
+  diagnostics?: FileDiagnostic[];
+}
+
+// An <edit> block from the AI that could not be applied to its target file.
+export interface UnmatchedEdit {
+  filePath: string;
+  search: string;
+  // 'empties-file': the edits would leave the file empty, which the app can only store as a deletion.
+  reason: 'not-found' | 'missing-file' | 'malformed' | 'empties-file';
+}
+
+// Which hunks of one proposed file change were applied when the proposal was handled.
+export interface FileChangeResolution {
+  filePath: string;
+  totalHunks: number;
+  appliedHunks: number[];
+  discardedHunks: number[];
+  // For a rename without content changes, which has no hunks: whether the rename was applied.
+  renameApplied?: boolean;
+}
+
+// Recorded on a message once the user applies or rejects its proposed changes.
+export interface ProposalResolution {
+  status: 'applied' | 'partial' | 'rejected';
+  files: FileChangeResolution[];
+}
+
+// Which files a zip export contains: only those with unacknowledged changes, or all of them.
+export type ZipExportScope = 'modified' | 'project';
+
+// How diffs are displayed, in the chat's change previews and in the diff viewer alike.
+export interface DiffOptions {
+  layout: 'split' | 'unified';
+  // Hides changes that only touch whitespace, such as re-indentation.
+  ignoreWhitespace: boolean;
 }
 
+// The model response currently being received, shown live in the chat.
+export interface StreamingResponse {
+  text: string;
+  // True while the model retries after its previous answer failed validation.
+  isCorrection: boolean;
+}
+
+// Why a project file was included in the model's context for a turn.
+export type ContextFileReason = 'pinned' | 'focus' | 'mentioned' | 'import' | 'relevant' | 'fill';
+
+export interface ContextSelectionSummary {
+  includedFiles: { path: string; reason: ContextFileReason }[];
+  omittedCount: number;
+  tokens: number;
+}
+
+// Tokens a provider reported for one model call.
+export interface TokenUsage {
+  // Input tokens, including those served from the provider's cache.
+  promptTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  // Tokens spent thinking before answering, billed as output.
+  thinkingTokens: number;
+}
+
+// Why a model call was made: a chat answer, a retry after an invalid answer, or a session summary.
+export type UsageCallKind = 'chat' | 'correction' | 'summary';
+
+// One model call, as recorded in the session's usage log.
+export interface UsageRecord extends TokenUsage {
+  model: ModelId;
+  kind: UsageCallKind;
+  timestamp: number;
+  // The chat thread the call was made from.
+  threadName: string;
+}
+
+// Prices of a model in US dollars per million tokens.
+export interface ModelPrice {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+// Prices by model name, e.g. "gemini-2.5-flash".
+export type PriceTable = Record<string, ModelPrice>;
+
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
   attachments?: { name: string }[];
+  // Project files the user @-mentioned in the prompt.
+  mentionedFiles?: { path: string }[];
+  contextFiles?: ContextSelectionSummary;
   proposedChanges?: ProposedChange[];
+  proposalResolution?: ProposalResolution;
+  // Describes the proposal in the history timeline once applied, e.g. "Revert src/app.ts".
+  proposalLabel?: string;
+  // The model calls that produced this message, including self-correction retries.
+  usage?: UsageRecord[];
   error?: string;
   warning?: string;
 }
@@ -34,8 +135,135 @@ export interface FileTreeNode {
   [key: string]: TreeNodeValue;
 }
 
-export type GeminiModel = 'gemini-2.5-flash';
+export type GeminiModel = 'gemini-2.5-flash' | 'gemini-2.5-pro' | 'gemini-2.5-flash-lite';
 
+// The first model is the default.
 export const AVAILABLE_MODELS: GeminiModel[] = [
-  'gemini-2.5-flash'
-];
\ No newline at end of file
+  'gemini-2.5-flash',
+  'gemini-2.5-pro',
+  'gemini-2.5-flash-lite',
+];
+
+// The thinking budgets a model accepts, in tokens.
+export interface ThinkingBudgetRange {
+  min: number;
+  max: number;
+  // Whether a budget of 0 turns thinking off.
+  canDisable: boolean;
+}
+
+// Token limits of each Gemini model: input context window, maximum output and thinking budget.
+export const GEMINI_MODEL_LIMITS: Record<GeminiModel, { contextWindow: number; maxOutputTokens: number; thinkingBudget: ThinkingBudgetRange }> = {
+  'gemini-2.5-flash': { contextWindow: 1_048_576, maxOutputTokens: 65_536, thinkingBudget: { min: 1, max: 24_576, canDisable: true } },
+  'gemini-2.5-pro': { contextWindow: 1_048_576, maxOutputTokens: 65_536, thinkingBudget: { min: 128, max: 32_768, canDisable: false } },
+  'gemini-2.5-flash-lite': { contextWindow: 1_048_576, maxOutputTokens: 65_536, thinkingBudget: { min: 512, max: 24_576, canDisable: true } },
+};
+
+// Identifies a model across providers as "<providerId>:<model>", e.g. "gemini:gemini-2.5-flash".
+export type ModelId = string;
+
+// A model offered by one of the configured LLM providers.
+export interface ModelOption {
+  id: ModelId;
+  providerId: string;
+  providerLabel: string;
+  model: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  // Absent for models whose thinking can't be configured.
+  thinkingBudget?: ThinkingBudgetRange;
+}
+
+// How a model generates its answers. Null leaves the setting to the model's default.
+export interface GenerationSettings {
+  temperature: number;
+  topP: number | null;
+  maxOutputTokens: number | null;
+  // Tokens the model may spend thinking before it answers; 0 turns thinking off.
+  thinkingBudget: number | null;
+}
+
+// A named set of generation settings for a model, to switch between setups quickly.
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  model: ModelId;
+  settings: GenerationSettings;
+}
+
+// A state of the project files, labelled with the action that produced it (an upload, an applied proposal, ...).
+export interface FileSnapshot {
+  id: string;
+  label: string;
+  timestamp: number;
+  files: UploadedFile[];
+}
+
+// Every recorded state of the project files, oldest first. The current files are
+// snapshots[currentIndex]; later snapshots were undone and can be redone.
+export interface FileTimeline {
+  snapshots: FileSnapshot[];
+  currentIndex: number;
+}
+
+// One alternative continuation of the conversation from a branch point.
+export interface ChatBranch {
+  // The messages from the branch point on. Empty for the branch being shown, whose
+  // messages are the live chat history.
+  messages: ChatMessage[];
+  // Branch points further along this branch, stored the same way.
+  branchPoints: ChatBranchPoint[];
+}
+
+// A user message that was edited and resent, with every version of the conversation from there on.
+export interface ChatBranchPoint {
+  messageIndex: number;
+  branches: ChatBranch[];
+  activeBranch: number;
+}
+
+// A named conversation over the project files, which every thread of a workspace shares.
+export interface ChatThread {
+  id: string;
+  name: string;
+  // The name of the thread's session summary file, e.g. "session_summary.md".
+  summaryFileName: string;
+  createdAt: number;
+  // The thread's conversation. Empty for the active thread, whose conversation is the
+  // live chat history and branch points of the workspace.
+  chatHistory: ChatMessage[];
+  branchPoints: ChatBranchPoint[];
+}
+
+// The parts of the session that are persisted to IndexedDB.
+export interface WorkspaceState {
+  files: UploadedFile[];
+  // The files as they were uploaded, before any applied changes; the base of the session patch.
+  baselineFiles: UploadedFile[];
+  // The conversation of the active thread.
+  chatHistory: ChatMessage[];
+  // The branch points along the chat history being shown, in message order.
+  branchPoints: ChatBranchPoint[];
+  threads: ChatThread[];
+  activeThreadId: string;
+  fileTimeline: FileTimeline;
+  modifiedFiles: Record<string, number>;
+  // Every model call of the session, including those in cleared chats, other branches and deleted threads.
+  usageLog: UsageRecord[];
+}
+
+export interface SavedWorkspace extends WorkspaceState {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  fileCount: number;
+  messageCount: number;
+}
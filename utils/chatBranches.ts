@@ -0,0 +1,112 @@
+import type { ChatMessage, ChatBranch, ChatBranchPoint, ProposedChange } from '../types';
+import { getAppliedProposalChanges } from './patch';
+
+export interface BranchedConversation {
+  chatHistory: ChatMessage[];
+  branchPoints: ChatBranchPoint[];
+}
+
+/**
+ * Packs the messages from a branch point on, with the branch points along them, into a
+ * branch that can be stored while another one is shown.
+ */
+const storeBranch = (history: ChatMessage[], branchPoints: ChatBranchPoint[], messageIndex: number): ChatBranch => ({
+  messages: history.slice(messageIndex),
+  branchPoints: branchPoints.filter(point => point.messageIndex > messageIndex),
+});
+
+const EMPTY_BRANCH: ChatBranch = { messages: [], branchPoints: [] };
+
+/**
+ * Starts a new branch at a user message that is about to be edited and resent. The
+ * current continuation is stored as a branch of the message, and the history is cut
+ * back to just before it so the edited prompt can be sent in its place.
+ * @param history The chat history being shown.
+ * @param branchPoints The branch points along it.
+ * @param messageIndex The index of the edited user message.
+ * @returns The shortened history and the updated branch points.
+ */
+export const branchConversation = (
+  history: ChatMessage[],
+  branchPoints: ChatBranchPoint[],
+  messageIndex: number
+): BranchedConversation => {
+  const leftBranch = storeBranch(history, branchPoints, messageIndex);
+  const existing = branchPoints.find(point => point.messageIndex === messageIndex);
+  const point: ChatBranchPoint = existing
+    ? {
+        messageIndex,
+        branches: [...existing.branches.map((branch, i) => (i === existing.activeBranch ? leftBranch : branch)), EMPTY_BRANCH],
+        activeBranch: existing.branches.length,
+      }
+    : { messageIndex, branches: [leftBranch, EMPTY_BRANCH], activeBranch: 1 };
+
+  return {
+    chatHistory: history.slice(0, messageIndex),
+    branchPoints: [...branchPoints.filter(p => p.messageIndex < messageIndex), point],
+  };
+};
+
+/**
+ * Shows another branch of a branch point. Only the conversation changes; the project
+ * files stay as they are.
+ * @param history The chat history being shown.
+ * @param branchPoints The branch points along it.
+ * @param messageIndex The index of the user message the branches start at.
+ * @param branchIndex The branch to show.
+ * @returns The new history and branch points, or null if there is nothing to switch.
+ */
+export const switchBranch = (
+  history: ChatMessage[],
+  branchPoints: ChatBranchPoint[],
+  messageIndex: number,
+  branchIndex: number
+): BranchedConversation | null => {
+  const point = branchPoints.find(p => p.messageIndex === messageIndex);
+  if (!point || branchIndex === point.activeBranch || !point.branches[branchIndex]) {
+    return null;
+  }
+
+  const target = point.branches[branchIndex];
+  const leftBranch = storeBranch(history, branchPoints, messageIndex);
+  const updatedPoint: ChatBranchPoint = {
+    messageIndex,
+    branches: point.branches.map((branch, i) => (i === point.activeBranch ? leftBranch : i === branchIndex ? EMPTY_BRANCH : branch)),
+    activeBranch: branchIndex,
+  };
+
+  return {
+    chatHistory: [...history.slice(0, messageIndex), ...target.messages],
+    branchPoints: [...branchPoints.filter(p => p.messageIndex < messageIndex), updatedPoint, ...target.branchPoints],
+  };
+};
+
+/**
+ * Combines what the proposals applied in some messages changed into one set of changes,
+ * e.g. to apply a branch's proposals again after switching to it. A file changed by
+ * several proposals goes from its content before the first to its content after the last;
+ * renames are followed.
+ * @param messages The messages, in order.
+ * @returns The combined changes; files that end up as they started are left out.
+ */
+export const collectAppliedChanges = (messages: ChatMessage[]): ProposedChange[] => {
+  const changesByPath = new Map<string, ProposedChange>();
+  messages.forEach(message => {
+    if (!message.proposedChanges || !message.proposalResolution || message.proposalResolution.status === 'rejected') return;
+    getAppliedProposalChanges(message.proposedChanges, message.proposalResolution).forEach(change => {
+      const earlier = changesByPath.get(change.oldPath ?? change.path);
+      if (change.oldPath) {
+        changesByPath.delete(change.oldPath);
+      }
+      // A file that an earlier proposal created is simply created at its new path.
+      const renamedFrom = earlier ? earlier.renamedFrom ?? (change.oldPath && earlier.oldContent !== '' ? change.oldPath : undefined) : change.oldPath;
+      changesByPath.set(change.path, {
+        filePath: change.path,
+        oldContent: earlier ? earlier.oldContent : change.oldContent ?? '',
+        newContent: change.newContent ?? '',
+        ...(renamedFrom && { renamedFrom }),
+      });
+    });
+  });
+  return [...changesByPath.values()].filter(change => change.renamedFrom || change.oldContent !== change.newContent);
+};
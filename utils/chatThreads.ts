@@ -0,0 +1,92 @@
+import type { ChatMessage, ChatBranchPoint, ChatThread } from '../types';
+
+export const DEFAULT_THREAD_NAME = 'Main';
+// Every session summary file name ends with this; the first thread uses it as is.
+export const SESSION_SUMMARY_FILE_NAME = 'session_summary.md';
+
+export interface ThreadConversation {
+  threads: ChatThread[];
+  chatHistory: ChatMessage[];
+  branchPoints: ChatBranchPoint[];
+}
+
+const getFileName = (path: string): string => path.split('/').pop() ?? path;
+
+/**
+ * Turns a thread name into something usable in a file name, e.g. "CSS questions" -> "css-questions".
+ */
+const slugify = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'thread';
+
+/**
+ * Creates a thread with an empty conversation. The first thread of a workspace keeps the
+ * plain "session_summary.md"; later ones get a summary file named after the thread, e.g.
+ * "thread-2.session_summary.md". The name is fixed at creation, so renaming a
+ * thread doesn't orphan its summary.
+ * @param name The thread's name.
+ * @param existingThreads The workspace's other threads, whose summary file names are taken.
+ */
+export const createThread = (name: string, existingThreads: ChatThread[]): ChatThread => {
+  const taken = new Set(existingThreads.map(thread => thread.summaryFileName));
+  let summaryFileName = SESSION_SUMMARY_FILE_NAME;
+  if (taken.has(summaryFileName)) {
+    const slug = slugify(name);
+    summaryFileName = `${slug}.${SESSION_SUMMARY_FILE_NAME}`;
+    for (let n = 2; taken.has(summaryFileName); n++) {
+      summaryFileName = `${slug}-${n}.${SESSION_SUMMARY_FILE_NAME}`;
+    }
+  }
+  return {
+    id: `thread-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    summaryFileName,
+    createdAt: Date.now(),
+    chatHistory: [],
+    branchPoints: [],
+  };
+};
+
+/**
+ * Suggests a name for a new thread that no other thread has, e.g. "Thread 3".
+ */
+export const getNextThreadName = (threads: ChatThread[]): string => {
+  const names = new Set(threads.map(thread => thread.name));
+  let n = threads.length + 1;
+  while (names.has(`Thread ${n}`)) n++;
+  return `Thread ${n}`;
+};
+
+export const isSessionSummaryFile = (path: string): boolean => getFileName(path).endsWith(SESSION_SUMMARY_FILE_NAME);
+
+/**
+ * Checks whether a file is the session summary of a thread other than the given one.
+ * Those are left out of the AI's context, so each thread only builds on its own summary.
+ */
+export const isOtherThreadSummary = (path: string, thread: ChatThread): boolean =>
+  isSessionSummaryFile(path) && getFileName(path) !== thread.summaryFileName;
+
+/**
+ * Makes another thread the active one: the live conversation is stored in the thread
+ * being left and the target thread's conversation is taken out of storage.
+ * @param conversation The threads and the live conversation of the active thread.
+ * @param activeThreadId The thread being left.
+ * @param targetThreadId The thread to show.
+ * @returns The updated threads and the conversation to show, or null if the target doesn't exist.
+ */
+export const switchThread = (
+  { threads, chatHistory, branchPoints }: ThreadConversation,
+  activeThreadId: string,
+  targetThreadId: string
+): ThreadConversation | null => {
+  const target = threads.find(thread => thread.id === targetThreadId);
+  if (!target) return null;
+  return {
+    threads: threads.map(thread => {
+      if (thread.id === activeThreadId) return { ...thread, chatHistory, branchPoints };
+      if (thread.id === targetThreadId) return { ...thread, chatHistory: [], branchPoints: [] };
+      return thread;
+    }),
+    chatHistory: target.chatHistory,
+    branchPoints: target.branchPoints,
+  };
+};
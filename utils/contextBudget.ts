@@ -0,0 +1,181 @@
+import type { ChatMessage } from '../types';
+
+// Per-message overhead for role markers and separators added by the APIs.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Gemini bills a fixed amount per image regardless of its size; other providers are similar.
+const IMAGE_ATTACHMENT_TOKENS = 258;
+// Never reserve more than this share of the window for the model's answer.
+const MAX_OUTPUT_RESERVE_RATIO = 0.25;
+// Project files may use at most this share of the input budget, leaving room for history,
+// and never more than a fixed cap, since very large prompts are slow and costly even when they fit.
+const PROJECT_CONTEXT_RATIO = 0.5;
+const PROJECT_CONTEXT_TOKEN_CAP = 200_000;
+
+export const YELLOW_USAGE_THRESHOLD = 0.6;
+export const RED_USAGE_THRESHOLD = 0.85;
+
+export interface ModelLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+export interface ContextBudget {
+  contextWindow: number;
+  reservedForOutput: number;
+  // Tokens available for the prompt: the window minus the output reserve.
+  inputBudget: number;
+  systemTokens: number;
+  historyTokens: number;
+  attachmentTokens: number;
+  totalTokens: number;
+  // totalTokens / inputBudget; can exceed 1 when the history must be pruned.
+  usage: number;
+}
+
+// Latin words, other-script words, digit runs, single punctuation marks, and whitespace runs.
+const TOKEN_PIECE_PATTERN = /[A-Za-z]+|[^\s\x00-\x7F]+|\d+|[^\sA-Za-z\d]|\s+/g;
+
+/**
+ * Estimates how many tokens a model's tokenizer will produce for the given text.
+ * This mirrors how BPE/SentencePiece tokenizers behave rather than counting characters:
+ * English words average about 4 characters per token, non-Latin scripts (e.g. Cyrillic)
+ * about 2.5, digits about 3, and each punctuation mark is usually its own token, which
+ * is why code is much denser than prose. Plain spaces merge into the following word.
+ * The result is typically within 10-15% of the real count.
+ * @param text The text to estimate.
+ * @returns The estimated number of tokens.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+
+  let tokens = 0;
+  for (const piece of text.match(TOKEN_PIECE_PATTERN) ?? []) {
+    const first = piece.charCodeAt(0);
+    if ((first >= 65 && first <= 90) || (first >= 97 && first <= 122)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (first >= 48 && first <= 57) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (first > 127 && !/\s/.test(piece[0])) {
+      tokens += Math.ceil(piece.length / 2.5);
+    } else if (/\s/.test(piece[0])) {
+      // Newlines and indentation runs become tokens of their own; single spaces don't.
+      if (piece.includes('\n') || piece.length > 1) {
+        tokens += 1;
+      }
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Estimates the tokens a chat message contributes when it is sent as history.
+ * Only the message content is sent to the model.
+ */
+export const estimateMessageTokens = (message: ChatMessage): number => {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+};
+
+/**
+ * Estimates the tokens of a file attached to a prompt. Images are billed at a flat rate;
+ * other files are assumed to be text, at roughly 3.5 bytes per token.
+ */
+export const estimateAttachmentTokens = (file: File): number => {
+  if (file.type.startsWith('image/')) {
+    return IMAGE_ATTACHMENT_TOKENS;
+  }
+  return Math.ceil(file.size / 3.5);
+};
+
+export const getOutputReserve = (limits: ModelLimits): number => {
+  return Math.min(limits.maxOutputTokens, Math.floor(limits.contextWindow * MAX_OUTPUT_RESERVE_RATIO));
+};
+
+/**
+ * Returns how many tokens of project file content may be sent with each request.
+ */
+export const getProjectContextBudget = (limits: ModelLimits): number => {
+  const inputBudget = Math.max(1, limits.contextWindow - getOutputReserve(limits));
+  return Math.min(PROJECT_CONTEXT_TOKEN_CAP, Math.floor(inputBudget * PROJECT_CONTEXT_RATIO));
+};
+
+/**
+ * Computes how much of the selected model's context window a request would use.
+ * @param limits The model's context window and output limit.
+ * @param systemTokens The estimated tokens of the system instruction (including project files).
+ * @param history The chat history that would be sent.
+ * @param attachments Files attached to the prompt.
+ * @returns A breakdown of the token usage.
+ */
+export const computeContextBudget = (
+  limits: ModelLimits,
+  systemTokens: number,
+  history: ChatMessage[],
+  attachments: File[] = []
+): ContextBudget => {
+  const reservedForOutput = getOutputReserve(limits);
+  const inputBudget = Math.max(1, limits.contextWindow - reservedForOutput);
+  const historyTokens = history.reduce((acc, message) => acc + estimateMessageTokens(message), 0);
+  const attachmentTokens = attachments.reduce((acc, file) => acc + estimateAttachmentTokens(file), 0);
+  const totalTokens = systemTokens + historyTokens + attachmentTokens;
+
+  return {
+    contextWindow: limits.contextWindow,
+    reservedForOutput,
+    inputBudget,
+    systemTokens,
+    historyTokens,
+    attachmentTokens,
+    totalTokens,
+    usage: totalTokens / inputBudget,
+  };
+};
+
+/**
+ * Prunes the chat history so that it fits in the given number of tokens.
+ * It always keeps the first message (initial welcome/context) and the most recent messages
+ * that fit within the budget.
+ * @param history The full chat history.
+ * @param availableTokens The tokens left for history after the system instruction and attachments.
+ * @returns A potentially pruned version of the chat history.
+ */
+export const pruneHistoryToBudget = (history: ChatMessage[], availableTokens: number): ChatMessage[] => {
+  const totalTokens = history.reduce((acc, message) => acc + estimateMessageTokens(message), 0);
+  if (totalTokens <= availableTokens) {
+    return history; // No pruning needed
+  }
+
+  const firstMessage = history[0];
+  let runningTokens = firstMessage ? estimateMessageTokens(firstMessage) : 0;
+  const keptMessages: ChatMessage[] = [];
+
+  // Iterate backwards from the end to keep the most recent messages.
+  for (let i = history.length - 1; i > 0; i--) {
+    const messageTokens = estimateMessageTokens(history[i]);
+
+    // Stop if adding the next message would exceed the budget.
+    if (runningTokens + messageTokens > availableTokens) {
+      break;
+    }
+
+    runningTokens += messageTokens;
+    keptMessages.unshift(history[i]); // Add to the beginning to maintain order
+  }
+
+  // Ensure the very first message is always included.
+  if (firstMessage) {
+    keptMessages.unshift(firstMessage);
+  }
+
+  return keptMessages;
+};
+
+/**
+ * Formats a token count compactly for display, e.g. 950, 12.3k, 1.05M.
+ */
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+};
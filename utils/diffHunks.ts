@@ -0,0 +1,71 @@
+import { diffLines } from 'diff';
+
+export interface CommonSegment {
+  type: 'common';
+  value: string;
+}
+
+export interface HunkSegment {
+  type: 'hunk';
+  hunkIndex: number;
+  removed: string;
+  added: string;
+}
+
+export type DiffSegment = CommonSegment | HunkSegment;
+
+/**
+ * Splits a line diff into unchanged runs and "hunks". A hunk is a run of
+ * consecutive removed and added lines, so a modified block is one hunk
+ * rather than separate removal and addition parts.
+ * @param oldContent The original file content.
+ * @param newContent The proposed file content.
+ * @returns The ordered segments of the diff.
+ */
+export const splitIntoHunks = (oldContent: string, newContent: string): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let currentHunk: HunkSegment | null = null;
+  let hunkCount = 0;
+
+  for (const part of diffLines(oldContent, newContent)) {
+    // The diff library sometimes emits empty parts, which carry no information.
+    if (!part.value) continue;
+
+    if (part.added || part.removed) {
+      if (!currentHunk) {
+        currentHunk = { type: 'hunk', hunkIndex: hunkCount++, removed: '', added: '' };
+        segments.push(currentHunk);
+      }
+      if (part.added) {
+        currentHunk.added += part.value;
+      } else {
+        currentHunk.removed += part.value;
+      }
+    } else {
+      currentHunk = null;
+      segments.push({ type: 'common', value: part.value });
+    }
+  }
+
+  return segments;
+};
+
+export const countHunks = (segments: DiffSegment[]): number => {
+  return segments.filter(segment => segment.type === 'hunk').length;
+};
+
+/**
+ * Rebuilds file content from diff segments, taking the new side of accepted
+ * hunks and the old side of rejected ones.
+ * @param segments The segments produced by `splitIntoHunks`.
+ * @param isHunkAccepted Whether the hunk with the given index should be applied.
+ * @returns The reconstructed file content.
+ */
+export const reconstructContent = (segments: DiffSegment[], isHunkAccepted: (hunkIndex: number) => boolean): string => {
+  return segments
+    .map(segment => {
+      if (segment.type === 'common') return segment.value;
+      return isHunkAccepted(segment.hunkIndex) ? segment.added : segment.removed;
+    })
+    .join('');
+};
@@ -0,0 +1,167 @@
+import { diffWordsWithSpace } from 'diff';
+import type { DiffSegment } from './diffHunks';
+
+// Unchanged lines shown around each change; longer unchanged runs are collapsed.
+export const CONTEXT_LINES = 3;
+
+// Below this share of unchanged characters, a line pair is shown as replaced outright
+// rather than with word highlights, which would just be noise.
+const MIN_WORD_DIFF_SIMILARITY = 0.4;
+
+// A column range within a line, end exclusive.
+export type ColumnRange = [number, number];
+
+// A line of a change, by its line number on its side, with the columns that changed in it.
+export interface ChangedLine {
+  lineNumber: number;
+  changedRanges: ColumnRange[];
+}
+
+export type DiffRow =
+  // An unchanged line. A line from a hidden whitespace-only change may have no old line number.
+  | { type: 'context'; oldLine: number | null; newLine: number }
+  // Unchanged lines that are collapsed until the user expands them.
+  | { type: 'collapsed'; blockIndex: number; lineCount: number }
+  // The start of a hunk.
+  | { type: 'hunk'; hunkIndex: number }
+  // A removed line and the added line that replaces it; either may be missing.
+  | { type: 'change'; hunkIndex: number; removed: ChangedLine | null; added: ChangedLine | null };
+
+type ContextRow = Extract<DiffRow, { type: 'context' }>;
+
+/**
+ * Splits text into lines, without an extra empty line for a trailing newline.
+ */
+export const splitLines = (value: string): string[] => {
+  if (value === '') return [];
+  return value.endsWith('\n') ? value.slice(0, -1).split('\n') : value.split('\n');
+};
+
+const stripWhitespace = (value: string): string => value.replace(/\s+/g, '');
+
+/**
+ * Finds the words that changed between a removed line and the added line replacing it.
+ * @param oldText The removed line.
+ * @param newText The added line.
+ * @param ignoreWhitespace Whether changes that only touch whitespace are left unmarked.
+ * @returns The changed columns on each side, or null if the lines are too different for
+ *   word highlights to help.
+ */
+export const computeWordChanges = (
+  oldText: string,
+  newText: string,
+  ignoreWhitespace: boolean
+): { removed: ColumnRange[]; added: ColumnRange[] } | null => {
+  const removed: ColumnRange[] = [];
+  const added: ColumnRange[] = [];
+  let oldColumn = 0;
+  let newColumn = 0;
+  let unchanged = 0;
+
+  for (const part of diffWordsWithSpace(oldText, newText) as { value: string; added?: boolean; removed?: boolean }[]) {
+    const length = part.value.length;
+    const isMarked = !ignoreWhitespace || /\S/.test(part.value);
+    if (part.added) {
+      if (isMarked) added.push([newColumn, newColumn + length]);
+      newColumn += length;
+    } else if (part.removed) {
+      if (isMarked) removed.push([oldColumn, oldColumn + length]);
+      oldColumn += length;
+    } else {
+      unchanged += length;
+      oldColumn += length;
+      newColumn += length;
+    }
+  }
+
+  const longest = Math.max(oldText.length, newText.length);
+  return longest === 0 || unchanged / longest >= MIN_WORD_DIFF_SIMILARITY ? { removed, added } : null;
+};
+
+/**
+ * Collapses the middle of a run of unchanged lines, keeping CONTEXT_LINES next to each
+ * change. A run at the start or end of the file keeps only the lines next to its change.
+ */
+const collapseBlock = (block: ContextRow[], blockIndex: number, isFirst: boolean, isLast: boolean, isExpanded: boolean): DiffRow[] => {
+  const keepHead = isFirst ? 0 : CONTEXT_LINES;
+  const keepTail = isLast ? 0 : CONTEXT_LINES;
+  const hiddenCount = block.length - keepHead - keepTail;
+  // Collapsing a single line would hide nothing worth the extra click.
+  if (isExpanded || hiddenCount <= 1) return block;
+  return [
+    ...block.slice(0, keepHead),
+    { type: 'collapsed', blockIndex, lineCount: hiddenCount },
+    ...block.slice(block.length - keepTail),
+  ];
+};
+
+/**
+ * Lays out diff segments as display rows: hunks with their removed and added lines
+ * paired up, word changes within each pair, and collapsed runs of unchanged lines.
+ * @param segments The segments produced by `splitIntoHunks`.
+ * @param oldContent The old file content, for the word diff.
+ * @param newContent The new file content.
+ * @param ignoreWhitespace Whether hunks that only change whitespace are shown as unchanged lines.
+ * @param expandedBlocks The runs of unchanged lines the user expanded, by block index.
+ */
+export const buildDiffRows = (
+  segments: DiffSegment[],
+  oldContent: string,
+  newContent: string,
+  ignoreWhitespace: boolean,
+  expandedBlocks: Set<number>
+): DiffRow[] => {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const rows: DiffRow[] = [];
+  let block: ContextRow[] = [];
+  let blockCount = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  const flushBlock = (isLast: boolean) => {
+    if (block.length === 0) return;
+    const blockIndex = blockCount++;
+    rows.push(...collapseBlock(block, blockIndex, !rows.some(row => row.type === 'hunk'), isLast, expandedBlocks.has(blockIndex)));
+    block = [];
+  };
+
+  segments.forEach(segment => {
+    if (segment.type === 'common') {
+      splitLines(segment.value).forEach(() => block.push({ type: 'context', oldLine: oldLine++, newLine: newLine++ }));
+      return;
+    }
+
+    const removedCount = splitLines(segment.removed).length;
+    const addedCount = splitLines(segment.added).length;
+    if (ignoreWhitespace && stripWhitespace(segment.removed) === stripWhitespace(segment.added)) {
+      for (let i = 0; i < addedCount; i++) {
+        block.push({ type: 'context', oldLine: i < removedCount ? oldLine + i : null, newLine: newLine + i });
+      }
+      oldLine += removedCount;
+      newLine += addedCount;
+      return;
+    }
+
+    flushBlock(false);
+    rows.push({ type: 'hunk', hunkIndex: segment.hunkIndex });
+    for (let i = 0; i < Math.max(removedCount, addedCount); i++) {
+      const removedLine = i < removedCount ? oldLine + i : null;
+      const addedLine = i < addedCount ? newLine + i : null;
+      const wordChanges = removedLine !== null && addedLine !== null
+        ? computeWordChanges(oldLines[removedLine - 1] ?? '', newLines[addedLine - 1] ?? '', ignoreWhitespace)
+        : null;
+      rows.push({
+        type: 'change',
+        hunkIndex: segment.hunkIndex,
+        removed: removedLine === null ? null : { lineNumber: removedLine, changedRanges: wordChanges?.removed ?? [] },
+        added: addedLine === null ? null : { lineNumber: addedLine, changedRanges: wordChanges?.added ?? [] },
+      });
+    }
+    oldLine += removedCount;
+    newLine += addedCount;
+  });
+  flushBlock(true);
+
+  return rows;
+};
@@ -0,0 +1,23 @@
+/**
+ * Saves a blob to the user's machine through a temporary download link.
+ * @param blob The data to save.
+ * @param fileName The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Formats a date for use in a file name, e.g. 2024-05-01_14-03-59.
+ */
+export const formatFileTimestamp = (date: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+};
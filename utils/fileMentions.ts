@@ -0,0 +1,72 @@
+// Project files can be mentioned in a prompt as "@path/to/file". Mentioned files are the
+// focus of the prompt: they are always sent to the AI, ahead of the other context.
+
+// Most files suggested while a mention is typed.
+const MAX_MENTION_SUGGESTIONS = 8;
+
+// A mention starts the prompt or follows whitespace, and runs until the next whitespace.
+const MENTION_PATTERN = /(^|\s)@([^\s@]+)/g;
+
+// Punctuation that ends a sentence rather than a path, as in "look at @src/app.ts, please".
+const TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+export interface MentionAtCursor {
+  // Where the "@" is in the text.
+  start: number;
+  // What was typed after the "@", up to the cursor.
+  query: string;
+}
+
+/**
+ * Finds the project files mentioned in a prompt.
+ * @param prompt The prompt.
+ * @param filePaths The paths of the project files.
+ * @returns The mentioned paths, in the order they first appear.
+ */
+export const extractFileMentions = (prompt: string, filePaths: string[]): string[] => {
+  const knownPaths = new Set(filePaths);
+  const mentions = new Set<string>();
+  for (const match of prompt.matchAll(MENTION_PATTERN)) {
+    const token = match[2];
+    const path = knownPaths.has(token) ? token : token.replace(TRAILING_PUNCTUATION, '');
+    if (knownPaths.has(path)) {
+      mentions.add(path);
+    }
+  }
+  return [...mentions];
+};
+
+/**
+ * Finds the mention being typed at the cursor, if any.
+ * @param text The text in the input.
+ * @param cursor The cursor position in the text.
+ */
+export const findMentionAtCursor = (text: string, cursor: number): MentionAtCursor | null => {
+  const beforeCursor = text.slice(0, cursor);
+  const match = beforeCursor.match(/(?:^|\s)@([^\s@]*)$/);
+  if (!match) return null;
+  return { start: cursor - match[1].length - 1, query: match[1] };
+};
+
+/**
+ * Suggests project files for a mention being typed: paths starting with the query first,
+ * then file names starting with it, then paths containing it.
+ * @param query What was typed after the "@".
+ * @param filePaths The paths of the project files.
+ */
+export const getMentionSuggestions = (query: string, filePaths: string[]): string[] => {
+  const lowerQuery = query.toLowerCase();
+  const rank = (path: string): number => {
+    const lowerPath = path.toLowerCase();
+    if (lowerPath.startsWith(lowerQuery)) return 0;
+    if ((lowerPath.split('/').pop() ?? '').startsWith(lowerQuery)) return 1;
+    if (lowerPath.includes(lowerQuery)) return 2;
+    return -1;
+  };
+  return filePaths
+    .map(path => ({ path, rank: rank(path) }))
+    .filter(({ path, rank }) => rank >= 0 && path !== query)
+    .sort((a, b) => a.rank - b.rank || a.path.length - b.path.length)
+    .slice(0, MAX_MENTION_SUGGESTIONS)
+    .map(({ path }) => path);
+};
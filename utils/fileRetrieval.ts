@@ -0,0 +1,298 @@
+import type { UploadedFile, ContextFileReason, ContextSelectionSummary } from '../types';
+import { estimateTokens } from './contextBudget';
+
+// Scoring weights. A mention of the file in the prompt always wins, its import-graph
+// neighbours come next, and everything else is ranked by TF-IDF similarity.
+const MENTION_BOOST = 1000;
+const NEIGHBOUR_BOOST = 100;
+const PATH_TERM_WEIGHT = 3;
+const HISTORY_TERM_WEIGHT = 0.5;
+// Only the start of very large files is indexed, which is plenty to judge relevance.
+const MAX_INDEXED_CHARS = 200_000;
+// Wrapper text added around each file in the system instruction.
+const FILE_WRAPPER_TOKENS = 20;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'are', 'was', 'not', 'but', 'can', 'you',
+  'your', 'please', 'file', 'files', 'code', 'make', 'add', 'use', 'all', 'how', 'what', 'why', 'when',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'default', 'true', 'false', 'null',
+  'undefined', 'new', 'class', 'type', 'interface', 'if', 'else', 'def', 'self', 'string', 'number',
+]);
+
+const RESOLVABLE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json', '.css', '.scss', '.vue', '.svelte'];
+const INDEX_FILES = ['/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+interface FileIndexEntry {
+  file: UploadedFile;
+  termFrequencies: Map<string, number>;
+  pathTerms: Set<string>;
+  imports: Set<string>;
+  tokens: number;
+}
+
+interface RetrievalIndex {
+  entries: FileIndexEntry[];
+  documentFrequencies: Map<string, number>;
+  importedBy: Map<string, Set<string>>;
+}
+
+export interface ContextSelectionOptions {
+  // The most tokens the selected file contents may use.
+  tokenBudget: number;
+  // Files that are always included, e.g. the memory file and session summaries.
+  isPinned?: (path: string) => boolean;
+  // Files the user @-mentioned. They are always included and ranked above everything else
+  // except pinned files.
+  focusPaths?: string[];
+  // Earlier user prompts, which add weaker relevance signals for follow-up questions.
+  recentPrompts?: string[];
+}
+
+export interface ContextSelection {
+  files: UploadedFile[];
+  omittedPaths: string[];
+  summary: ContextSelectionSummary;
+}
+
+/**
+ * Splits text into lowercase search terms. Identifiers are kept whole and also split
+ * into their camelCase/snake_case parts, so "parseFileChanges" matches "parse" and "changes".
+ */
+const extractTerms = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const word of text.match(/[\p{L}_$][\p{L}\p{N}_$]*/gu) ?? []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 2 && !STOP_WORDS.has(lower)) {
+      terms.push(lower);
+    }
+    const parts = word.split(/_|\$|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/);
+    if (parts.length > 1) {
+      parts.forEach(part => {
+        const lowerPart = part.toLowerCase();
+        if (lowerPart.length > 2 && !STOP_WORDS.has(lowerPart)) {
+          terms.push(lowerPart);
+        }
+      });
+    }
+  }
+  return terms;
+};
+
+const dirname = (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+/**
+ * Normalizes a path containing "." and ".." segments.
+ */
+const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '' || part === '.') return;
+    if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  });
+  return parts.join('/');
+};
+
+/**
+ * Finds the import specifiers in a file. Covers ES modules, CommonJS, dynamic imports,
+ * CSS @import and Python relative imports, which are the common cases in uploaded projects.
+ */
+const extractImportSpecifiers = (file: UploadedFile): string[] => {
+  const specifiers: string[] = [];
+  const content = file.content.slice(0, MAX_INDEXED_CHARS);
+
+  const jsImportPattern = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)|@import\s+(?:url\()?['"]([^'"]+)['"]/g;
+  for (const match of content.matchAll(jsImportPattern)) {
+    const specifier = match[1] ?? match[2] ?? match[3] ?? match[4];
+    if (specifier) specifiers.push(specifier);
+  }
+
+  if (file.path.endsWith('.py')) {
+    for (const match of content.matchAll(/^\s*from\s+(\.+)([\w.]*)\s+import/gm)) {
+      const [, dots, module] = match;
+      const up = '../'.repeat(dots.length - 1);
+      specifiers.push(`./${up}${module.replace(/\./g, '/')}.py`);
+    }
+  }
+
+  return specifiers;
+};
+
+/**
+ * Resolves an import specifier to the path of an uploaded file, if it refers to one.
+ * Relative specifiers resolve against the importing file; "@/" resolves against the
+ * project's top-level folder, matching the usual bundler alias.
+ */
+const resolveImport = (fromPath: string, specifier: string, knownPaths: Set<string>): string | null => {
+  let basePath: string;
+  if (specifier.startsWith('.')) {
+    basePath = normalizePath(`${dirname(fromPath)}/${specifier}`);
+  } else if (specifier.startsWith('@/')) {
+    basePath = normalizePath(`${fromPath.split('/')[0]}/${specifier.slice(2)}`);
+  } else {
+    return null; // A package import; not part of the project.
+  }
+
+  for (const extension of RESOLVABLE_EXTENSIONS) {
+    if (knownPaths.has(basePath + extension)) return basePath + extension;
+  }
+  for (const indexFile of INDEX_FILES) {
+    if (knownPaths.has(basePath + indexFile)) return basePath + indexFile;
+  }
+  return null;
+};
+
+// Indexes are cached per files array, which only changes identity when the project changes.
+const indexCache = new WeakMap<UploadedFile[], RetrievalIndex>();
+
+const buildIndex = (files: UploadedFile[]): RetrievalIndex => {
+  const cached = indexCache.get(files);
+  if (cached) return cached;
+
+  const knownPaths = new Set(files.map(f => f.path));
+  const documentFrequencies = new Map<string, number>();
+  const importedBy = new Map<string, Set<string>>();
+
+  const entries = files.map(file => {
+    const termFrequencies = new Map<string, number>();
+    extractTerms(file.content.slice(0, MAX_INDEXED_CHARS)).forEach(term => {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    });
+    termFrequencies.forEach((_, term) => {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    });
+
+    const imports = new Set<string>();
+    extractImportSpecifiers(file).forEach(specifier => {
+      const resolved = resolveImport(file.path, specifier, knownPaths);
+      if (resolved && resolved !== file.path) {
+        imports.add(resolved);
+        if (!importedBy.has(resolved)) importedBy.set(resolved, new Set());
+        importedBy.get(resolved)!.add(file.path);
+      }
+    });
+
+    return {
+      file,
+      termFrequencies,
+      pathTerms: new Set(extractTerms(file.path.replace(/[./\\-]/g, ' '))),
+      imports,
+      tokens: estimateTokens(file.content) + FILE_WRAPPER_TOKENS,
+    };
+  });
+
+  const index = { entries, documentFrequencies, importedBy };
+  indexCache.set(files, index);
+  return index;
+};
+
+/**
+ * Checks whether the prompt refers to a file by its full path or, for reasonably
+ * distinctive names, by its file name (e.g. "FileExplorer.tsx").
+ */
+const isMentioned = (prompt: string, path: string): boolean => {
+  if (prompt.includes(path)) return true;
+  const fileName = path.split('/').pop() ?? path;
+  if (!fileName.includes('.') || fileName.length < 5) return false;
+  const escaped = fileName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w./-])${escaped}($|[^\\w-])`).test(prompt);
+};
+
+/**
+ * Picks the project files most relevant to a prompt that fit in a token budget.
+ * Files are ranked by, in order: being pinned, being @-mentioned, being mentioned in the prompt, being an
+ * import-graph neighbour of a mentioned file, and TF-IDF similarity between the prompt
+ * and the file's content and path. Files are then taken in rank order while they fit.
+ * Pinned and mentioned files are always included, even over budget, because the user asked for them.
+ * @param prompt The user's prompt.
+ * @param files All project files.
+ * @param options The token budget and ranking hints.
+ * @returns The selected files (in their original order), the omitted paths, and a summary for the chat.
+ */
+export const selectContextFiles = (prompt: string, files: UploadedFile[], options: ContextSelectionOptions): ContextSelection => {
+  const { tokenBudget, isPinned = () => false, focusPaths = [], recentPrompts = [] } = options;
+  const index = buildIndex(files);
+  const totalDocuments = index.entries.length;
+
+  const queryWeights = new Map<string, number>();
+  recentPrompts.forEach(text => extractTerms(text).forEach(term => {
+    queryWeights.set(term, Math.max(queryWeights.get(term) ?? 0, HISTORY_TERM_WEIGHT));
+  }));
+  extractTerms(prompt).forEach(term => queryWeights.set(term, 1));
+
+  const focus = new Set(focusPaths);
+  const mentionedPaths = new Set(index.entries
+    .filter(entry => focus.has(entry.file.path) || isMentioned(prompt, entry.file.path))
+    .map(entry => entry.file.path));
+  const neighbourPaths = new Set<string>();
+  index.entries.forEach(entry => {
+    if (!mentionedPaths.has(entry.file.path)) return;
+    entry.imports.forEach(path => neighbourPaths.add(path));
+    index.importedBy.get(entry.file.path)?.forEach(path => neighbourPaths.add(path));
+  });
+
+  const ranked = index.entries.map(entry => {
+    const path = entry.file.path;
+    let score = 0;
+    queryWeights.forEach((weight, term) => {
+      const idf = Math.log((totalDocuments + 1) / ((index.documentFrequencies.get(term) ?? 0) + 1)) + 1;
+      const termFrequency = entry.termFrequencies.get(term) ?? 0;
+      if (termFrequency > 0) {
+        score += weight * (1 + Math.log(termFrequency)) * idf;
+      }
+      if (entry.pathTerms.has(term)) {
+        score += weight * PATH_TERM_WEIGHT * idf;
+      }
+    });
+    // Dampen long files, which match many terms simply by being long.
+    score /= Math.log(2 + entry.termFrequencies.size);
+
+    let reason: ContextFileReason = score > 0 ? 'relevant' : 'fill';
+    if (isPinned(path)) {
+      reason = 'pinned';
+    } else if (focus.has(path)) {
+      reason = 'focus';
+      score += MENTION_BOOST;
+    } else if (mentionedPaths.has(path)) {
+      reason = 'mentioned';
+      score += MENTION_BOOST;
+    } else if (neighbourPaths.has(path)) {
+      reason = 'import';
+      score += NEIGHBOUR_BOOST;
+    }
+
+    return { entry, score, reason };
+  });
+
+  const reasonOrder: Record<ContextFileReason, number> = { pinned: 0, focus: 1, mentioned: 2, import: 3, relevant: 4, fill: 5 };
+  ranked.sort((a, b) =>
+    reasonOrder[a.reason] - reasonOrder[b.reason] ||
+    b.score - a.score ||
+    a.entry.tokens - b.entry.tokens
+  );
+
+  let usedTokens = 0;
+  const included = new Map<string, ContextFileReason>();
+  for (const { entry, reason } of ranked) {
+    const mustInclude = reason === 'pinned' || reason === 'focus' || reason === 'mentioned';
+    if (mustInclude || usedTokens + entry.tokens <= tokenBudget) {
+      included.set(entry.file.path, reason);
+      usedTokens += entry.tokens;
+    }
+  }
+
+  return {
+    files: files.filter(f => included.has(f.path)),
+    omittedPaths: files.filter(f => !included.has(f.path)).map(f => f.path),
+    summary: {
+      includedFiles: ranked
+        .filter(({ entry }) => included.has(entry.file.path))
+        .map(({ entry, reason }) => ({ path: entry.file.path, reason })),
+      omittedCount: files.length - included.size,
+      tokens: usedTokens,
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import type { UploadedFile, FileSnapshot, FileTimeline } from '../types';
+
+/**
+ * Creates a snapshot of the project files, labelled with the action that produced them.
+ */
+export const createSnapshot = (files: UploadedFile[], label: string): FileSnapshot => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  timestamp: Date.now(),
+  files,
+});
+
+export const createTimeline = (files: UploadedFile[], label: string): FileTimeline => ({
+  snapshots: [createSnapshot(files, label)],
+  currentIndex: 0,
+});
+
+/**
+ * Records a new state of the files. Any undone states after the current one are dropped,
+ * as in an editor's undo stack, and the oldest states go once the limit is reached.
+ * @param timeline The current timeline.
+ * @param files The new state of the files.
+ * @param label The action that produced the new state.
+ * @param maxSnapshots The most snapshots to keep, including the current one.
+ */
+export const pushSnapshot = (timeline: FileTimeline, files: UploadedFile[], label: string, maxSnapshots: number): FileTimeline => {
+  const snapshots = [...timeline.snapshots.slice(0, timeline.currentIndex + 1), createSnapshot(files, label)].slice(-maxSnapshots);
+  return { snapshots, currentIndex: snapshots.length - 1 };
+};
+
+/**
+ * Returns the state before the current one, which is what "undo" would restore.
+ */
+export const getPreviousSnapshot = (timeline: FileTimeline): FileSnapshot | null => {
+  return timeline.currentIndex > 0 ? timeline.snapshots[timeline.currentIndex - 1] : null;
+};
+
+/**
+ * Builds a timeline for a workspace saved before snapshots were labelled, when file
+ * history was a plain list of earlier states (newest first).
+ */
+export const timelineFromLegacyHistory = (files: UploadedFile[], legacyHistory: UploadedFile[][]): FileTimeline => {
+  const earlier = [...legacyHistory].reverse().map(state => createSnapshot(state, 'Earlier state'));
+  const snapshots = [...earlier, createSnapshot(files, 'Current state')];
+  return { snapshots, currentIndex: snapshots.length - 1 };
+};
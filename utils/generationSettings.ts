@@ -0,0 +1,73 @@
+import type { GenerationSettings, GenerationPreset, ModelId, ModelOption } from '../types';
+
+// The settings of a model the user hasn't configured. The temperature leaves room for
+// varied answers; everything else is the model's own default.
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0.8,
+  topP: null,
+  maxOutputTokens: null,
+  thinkingBudget: null,
+};
+
+// Session summaries should stick to what was said, so they have a temperature of their
+// own, lower than the chat's, instead of the summarization model's.
+export const DEFAULT_SUMMARY_TEMPERATURE = 0.5;
+
+export const MAX_TEMPERATURE = 2;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Fills in a model's saved settings with the defaults and brings them within the model's
+ * limits, e.g. after a setting was saved for a model whose limits have since changed.
+ * @param saved The settings saved for the model, if any. They may come from old or hand-edited storage.
+ * @param option The model, when its limits are known.
+ * @returns Settings that can be sent with a request to the model.
+ */
+export const resolveGenerationSettings = (saved: Partial<GenerationSettings> | undefined, option: ModelOption | undefined): GenerationSettings => {
+  const settings = { ...DEFAULT_GENERATION_SETTINGS, ...saved };
+  const range = option?.thinkingBudget;
+
+  let thinkingBudget = isNumber(settings.thinkingBudget) ? Math.round(settings.thinkingBudget) : null;
+  if (thinkingBudget !== null && option) {
+    if (!range) {
+      thinkingBudget = null;
+    } else if (thinkingBudget !== 0 || !range.canDisable) {
+      thinkingBudget = clamp(thinkingBudget, range.min, range.max);
+    }
+  }
+
+  let maxOutputTokens = isNumber(settings.maxOutputTokens) ? Math.max(1, Math.round(settings.maxOutputTokens)) : null;
+  if (maxOutputTokens !== null && option) {
+    maxOutputTokens = Math.min(maxOutputTokens, option.maxOutputTokens);
+  }
+
+  return {
+    temperature: isNumber(settings.temperature) ? clamp(settings.temperature, 0, MAX_TEMPERATURE) : DEFAULT_GENERATION_SETTINGS.temperature,
+    topP: isNumber(settings.topP) ? clamp(settings.topP, 0, 1) : null,
+    maxOutputTokens,
+    thinkingBudget,
+  };
+};
+
+/**
+ * Describes settings in a few words, e.g. "temperature 0.8, thinking off".
+ */
+export const describeGenerationSettings = (settings: GenerationSettings): string => [
+  `temperature ${settings.temperature}`,
+  settings.topP !== null && `top-p ${settings.topP}`,
+  settings.maxOutputTokens !== null && `${settings.maxOutputTokens.toLocaleString()} output tokens`,
+  settings.thinkingBudget === 0 ? 'thinking off' : settings.thinkingBudget !== null && `thinking ${settings.thinkingBudget.toLocaleString()} tokens`,
+].filter(Boolean).join(', ');
+
+/**
+ * Creates a preset from a model's current settings.
+ */
+export const createGenerationPreset = (name: string, model: ModelId, settings: GenerationSettings): GenerationPreset => ({
+  id: `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  model,
+  settings,
+});
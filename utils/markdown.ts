@@ -0,0 +1,360 @@
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'code'; value: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; value: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_REGEX = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_REGEX = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE_REGEX = /^ {0,3}>\s?(.*)$/;
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Only these link targets are kept; anything else (javascript:, data:, ...) is shown as plain text.
+const SAFE_URL_REGEX = /^(https?:\/\/|mailto:|#)/i;
+
+/**
+ * Returns the URL if it is safe to use as a link target, or null otherwise.
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  return SAFE_URL_REGEX.test(trimmed) ? trimmed : null;
+};
+
+const isBlank = (line: string): boolean => line.trim() === '';
+
+/**
+ * Splits a table row into its cells, honouring escaped pipes and pipes inside inline code.
+ */
+const splitTableRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      current += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+/**
+ * Checks whether a line starts a block other than a paragraph, which ends the paragraph before it.
+ */
+const startsBlock = (line: string, nextLine: string | undefined): boolean =>
+  FENCE_REGEX.test(line) ||
+  HEADING_REGEX.test(line) ||
+  RULE_REGEX.test(line) ||
+  LIST_ITEM_REGEX.test(line) ||
+  BLOCKQUOTE_REGEX.test(line) ||
+  (line.includes('|') && nextLine !== undefined && TABLE_DELIMITER_REGEX.test(nextLine) && nextLine.includes('-'));
+
+const ESCAPABLE_REGEX = /[\\`*_{}[\]()#+\-.!|~<>]/;
+
+// Sticky patterns, matched at the current position of the inline scan without slicing the text.
+const LINK_REGEX = /\[((?:[^[\]\\]|\\.)*)\]\(\s*<?([^()\s>]*(?:\([^()\s]*\)[^()\s>]*)*)>?(?:\s+"[^"]*")?\s*\)/y;
+const ANGLE_AUTOLINK_REGEX = /<(https?:\/\/[^\s<>]+)>/y;
+const BARE_AUTOLINK_REGEX = /https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/y;
+
+const matchAt = (regex: RegExp, text: string, index: number): RegExpExecArray | null => {
+  regex.lastIndex = index;
+  return regex.exec(text);
+};
+
+/**
+ * Parses the inline syntax of a run of text: code spans, bold, italics, strikethrough,
+ * links, bare URLs and line breaks. Everything else is kept as literal text.
+ * The text is scanned once by index, so long (and streaming) messages stay cheap to parse.
+ * @param text The text to parse.
+ * @returns The inline nodes.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', value: buffer });
+      buffer = '';
+    }
+  };
+
+  // Code spans whose closing run of backticks is known to be missing. The scan only moves
+  // forward, so a run that has no closer once never finds one later.
+  const unclosedCodeTicks = new Set<string>();
+  // The first closing emphasis delimiter found from a position, per delimiter, for the same reason.
+  const closers = new Map<string, { from: number; at: number }>();
+  const isCloser = (delimiter: string, at: number): boolean =>
+    delimiter.length === 1
+      ? /[^\s\\]/.test(text[at - 1]) && text[at + 1] !== delimiter
+      : /\S/.test(text[at - 1]);
+  const findCloser = (delimiter: string, from: number): number => {
+    const cached = closers.get(delimiter);
+    if (cached && cached.from <= from && (cached.at === -1 || cached.at >= from)) {
+      return cached.at;
+    }
+    let at = text.indexOf(delimiter, from);
+    while (at !== -1 && !isCloser(delimiter, at)) {
+      at = text.indexOf(delimiter, at + 1);
+    }
+    closers.set(delimiter, { from, at });
+    return at;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE_REGEX.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      let tickCount = 1;
+      while (text[i + tickCount] === '`') tickCount++;
+      const ticks = '`'.repeat(tickCount);
+      const end = unclosedCodeTicks.has(ticks) ? -1 : text.indexOf(ticks, i + tickCount);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', value: text.slice(i + tickCount, end).replace(/^ (.+) $/, '$1') });
+        i = end + tickCount;
+        continue;
+      }
+      unclosedCodeTicks.add(ticks);
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      // Bold and strikethrough need two delimiters and text that doesn't start with a space;
+      // italics need text that doesn't start with a space or another delimiter.
+      let delimiter = '';
+      let closer = -1;
+      if (text[i + 1] === char && /\S/.test(text[i + 2] ?? '')) {
+        delimiter = char + char;
+        closer = findCloser(delimiter, i + 3);
+      }
+      if (closer === -1 && char !== '~' && /[^\s*_]/.test(text[i + 1] ?? '')) {
+        delimiter = char;
+        closer = findCloser(delimiter, i + 2);
+      }
+      // Underscores inside words (snake_case) are not emphasis.
+      const isIntraword = char === '_' && /\w/.test(text[i - 1] ?? '');
+      if (closer !== -1 && !isIntraword) {
+        flush();
+        const type = char === '~' ? 'strikethrough' : delimiter.length === 2 ? 'strong' : 'emphasis';
+        nodes.push({ type, children: parseInline(text.slice(i + delimiter.length, closer)) });
+        i = closer + delimiter.length;
+        continue;
+      }
+    }
+
+    const link = char === '[' ? matchAt(LINK_REGEX, text, i) : null;
+    if (link) {
+      flush();
+      const href = sanitizeUrl(link[2]);
+      const children = parseInline(link[1]);
+      if (href) {
+        nodes.push({ type: 'link', href, children });
+      } else {
+        nodes.push(...children);
+      }
+      i += link[0].length;
+      continue;
+    }
+
+    const autolink = char === '<' ? matchAt(ANGLE_AUTOLINK_REGEX, text, i)
+      : char === 'h' && !/\w/.test(text[i - 1] ?? '') ? matchAt(BARE_AUTOLINK_REGEX, text, i)
+      : null;
+    if (autolink) {
+      flush();
+      const url = autolink[1] ?? autolink[0];
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', value: url }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses Markdown into blocks: headings, paragraphs, fenced and indented code, ordered
+ * and unordered lists (nested by indentation), blockquotes, GitHub-style tables and
+ * horizontal rules. The result is data rather than HTML, so the renderer never has to
+ * inject markup and raw HTML in the source is shown as text.
+ * @param markdown The Markdown source.
+ * @returns The blocks, in order.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const marker = fence[1];
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(marker) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Skip the closing fence (or the end of the text, if it was never closed).
+      blocks.push({ type: 'code', language: fence[2], value: codeLines.join('\n') });
+      continue;
+    }
+
+    if (line.startsWith('    ')) {
+      const codeLines: string[] = [];
+      while (i < lines.length && (lines[i].startsWith('    ') || isBlank(lines[i]))) {
+        codeLines.push(lines[i].slice(4));
+        i++;
+      }
+      blocks.push({ type: 'code', language: '', value: codeLines.join('\n').replace(/\n+$/, '') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const match = lines[i].match(BLOCKQUOTE_REGEX);
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_REGEX);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const items: MarkdownBlock[][] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_REGEX);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+        // Continuation lines are indented past the marker; nested lists are parsed recursively.
+        const contentIndent = item[1].length + item[2].length + 1;
+        const itemLines = [item[3]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            const following = lines[i + 1];
+            if (following !== undefined && following.search(/\S/) >= contentIndent) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          const indent = next.search(/\S/);
+          if (indent >= Math.min(contentIndent, 2)) {
+            itemLines.push(next.slice(Math.min(indent, contentIndent)));
+          } else if (!startsBlock(next, lines[i + 1])) {
+            itemLines.push(next.trim()); // A lazy continuation of the item's paragraph.
+          } else {
+            break;
+          }
+          i++;
+        }
+        items.push(parseMarkdown(itemLines.join('\n')));
+        // A blank line between items keeps the list going.
+        if (i < lines.length && isBlank(lines[i]) && lines[i + 1]?.match(LIST_ITEM_REGEX)) {
+          i++;
+        }
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_REGEX.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const headerCells = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlignment);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(headerCells.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: headerCells.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i], lines[i + 1])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,130 @@
+import { structuredPatch } from 'diff';
+import type { UploadedFile, ProposedChange, ProposalResolution } from '../types';
+import { splitIntoHunks, reconstructContent } from './diffHunks';
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+const CONTEXT_LINES = 3;
+
+// A file's content before and after; null means the file does not exist on that side.
+export interface PatchFileChange {
+  path: string;
+  // The file's path before the change, when it was renamed.
+  oldPath?: string;
+  oldContent: string | null;
+  newContent: string | null;
+}
+
+/**
+ * Formats the change to one file in the `git diff` format, with `diff --git`, file mode
+ * and rename headers so that `git apply` can create, delete and rename files.
+ */
+const formatFilePatch = ({ path, oldPath = path, oldContent, newContent }: PatchFileChange): string => {
+  const before = oldContent ?? '';
+  const after = newContent ?? '';
+  const { hunks } = structuredPatch(`a/${oldPath}`, `b/${path}`, before, after, '', '', { context: CONTEXT_LINES });
+
+  const lines = [`diff --git a/${oldPath} b/${path}`];
+  if (oldContent === null) {
+    lines.push('new file mode 100644');
+  } else if (newContent === null) {
+    lines.push('deleted file mode 100644');
+  } else if (oldPath !== path) {
+    lines.push(`rename from ${oldPath}`, `rename to ${path}`);
+  }
+  if (hunks.length === 0) {
+    // An empty file being created or deleted, or a file renamed as is, has headers but no hunks.
+    return lines.join('\n');
+  }
+  lines.push(oldContent === null ? '--- /dev/null' : `--- a/${oldPath}`);
+  lines.push(newContent === null ? '+++ /dev/null' : `+++ b/${path}`);
+
+  hunks.forEach(hunk => {
+    // Git numbers an empty side of a hunk from line 0; the diff library starts at 1.
+    const oldStart = hunk.oldLines === 0 ? 0 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? 0 : hunk.newStart;
+    let hunkLines = hunk.lines;
+    if (after === '' && before.endsWith('\n')) {
+      // The diff library marks an emptied file as lacking a final newline, which git rejects.
+      hunkLines = hunkLines.filter(line => line !== NO_NEWLINE_MARKER);
+    }
+    lines.push(`@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`, ...hunkLines);
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Builds a unified patch that `git apply` accepts.
+ * @param changes The changed files. Unchanged entries are skipped.
+ * @returns The patch text, or an empty string when nothing changed.
+ */
+export const createGitPatch = (changes: PatchFileChange[]): string => {
+  const filePatches = changes
+    .filter(change => change.oldContent !== change.newContent || (change.oldPath !== undefined && change.oldPath !== change.path))
+    .map(formatFilePatch);
+  return filePatches.length > 0 ? `${filePatches.join('\n')}\n` : '';
+};
+
+/**
+ * Lists the differences between two versions of the project, sorted by path.
+ * @param before The files in the earlier state.
+ * @param after The files in the later state.
+ */
+export const diffFileSets = (before: UploadedFile[], after: UploadedFile[]): PatchFileChange[] => {
+  const beforeMap = new Map(before.map(f => [f.path, f.content]));
+  const afterMap = new Map(after.map(f => [f.path, f.content]));
+  const paths = [...new Set([...beforeMap.keys(), ...afterMap.keys()])].sort((a, b) => a.localeCompare(b));
+
+  return paths
+    .map(path => ({ path, oldContent: beforeMap.get(path) ?? null, newContent: afterMap.get(path) ?? null }))
+    .filter(change => change.oldContent !== change.newContent);
+};
+
+/**
+ * Works out what an applied proposal actually changed, honouring a partial apply.
+ * Like `handleApplyChanges`, an empty old content means the file was created and an
+ * empty new content means it was deleted.
+ * @param changes The proposal's changes.
+ * @param resolution Which hunks of each file were applied.
+ */
+export const getAppliedProposalChanges = (changes: ProposedChange[], resolution: ProposalResolution): PatchFileChange[] => {
+  return changes.flatMap((change, index) => {
+    const applied = new Set(resolution.files[index]?.appliedHunks ?? []);
+    // A rename without content changes has no hunks; the resolution records whether it was applied.
+    const isAppliedRename = resolution.files[index]?.renameApplied === true;
+    if (applied.size === 0 && !isAppliedRename) return [];
+
+    const newContent = reconstructContent(splitIntoHunks(change.oldContent, change.newContent), hunkIndex => applied.has(hunkIndex));
+    return [{
+      path: change.filePath,
+      ...(change.renamedFrom && { oldPath: change.renamedFrom }),
+      oldContent: change.oldContent === '' ? null : change.oldContent,
+      newContent: newContent === '' ? null : newContent,
+    }];
+  });
+};
+
+/**
+ * Returns the folder that contains every given path (the uploaded project folder), or ''
+ * when the paths don't share a single top-level folder.
+ */
+export const getSharedTopFolder = (paths: string[]): string => {
+  const folders = new Set(paths.map(path => (path.includes('/') ? path.split('/')[0] : '')));
+  return folders.size === 1 ? [...folders][0] : '';
+};
+
+/**
+ * Rewrites the paths of a set of changes relative to a folder, e.g. the uploaded
+ * project folder, so the patch applies from the root of the user's repository.
+ * Files outside the folder are dropped.
+ */
+export const relativizePatchChanges = (changes: PatchFileChange[], folder: string): PatchFileChange[] => {
+  if (!folder) return changes;
+  const prefix = `${folder}/`;
+  return changes
+    .filter(change => change.path.startsWith(prefix) && (change.oldPath ?? change.path).startsWith(prefix))
+    .map(change => ({
+      ...change,
+      path: change.path.slice(prefix.length),
+      ...(change.oldPath && { oldPath: change.oldPath.slice(prefix.length) }),
+    }));
+};
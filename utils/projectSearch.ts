@@ -0,0 +1,149 @@
+import type { UploadedFile } from '../types';
+import { createPathMatcher } from './uploadFilter';
+import type { ColumnRange } from './diffRows';
+
+// Searching stops after this many matching lines, to keep the results panel responsive.
+export const MAX_SEARCH_RESULTS = 500;
+
+// Long lines are cut down to this many characters around their first match.
+const PREVIEW_LENGTH = 160;
+const PREVIEW_LEAD = 40;
+
+/**
+ * Escapes the characters that have a meaning in regular expressions, to match text literally.
+ */
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  // Comma-separated globs; when given, only matching files are searched.
+  include: string;
+  // Comma-separated globs of files to skip.
+  exclude: string;
+}
+
+// A line containing at least one match.
+export interface SearchLineMatch {
+  lineNumber: number;
+  // The line, cut down around the first match if it is long.
+  preview: string;
+  // The matches within the preview.
+  ranges: ColumnRange[];
+}
+
+export interface FileSearchResult {
+  path: string;
+  lines: SearchLineMatch[];
+}
+
+export interface SearchResult {
+  files: FileSearchResult[];
+  matchCount: number;
+  // True if the search stopped at MAX_SEARCH_RESULTS lines.
+  isTruncated: boolean;
+  // Why the query is not a valid regular expression, if it is not.
+  error: string | null;
+}
+
+const EMPTY_RESULT: SearchResult = { files: [], matchCount: 0, isTruncated: false, error: null };
+
+const splitGlobs = (value: string): string[] => value.split(',').map(glob => glob.trim()).filter(Boolean);
+
+/**
+ * Cuts a long line down to a preview around its first match and moves the match ranges along.
+ */
+const buildPreview = (line: string, ranges: ColumnRange[]): { preview: string; ranges: ColumnRange[] } => {
+  if (line.length <= PREVIEW_LENGTH) return { preview: line, ranges };
+  const start = Math.max(0, Math.min(ranges[0][0] - PREVIEW_LEAD, line.length - PREVIEW_LENGTH));
+  const end = start + PREVIEW_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  return {
+    preview: prefix + line.slice(start, end) + (end < line.length ? '…' : ''),
+    ranges: ranges
+      .filter(([from]) => from < end)
+      .map(([from, to]) => [Math.max(from, start) - start + prefix.length, Math.min(to, end) - start + prefix.length]),
+  };
+};
+
+/**
+ * Searches the content of every project file line by line.
+ * @param files The project files.
+ * @param options The query and filters.
+ * @returns The matching lines grouped by file, in file order.
+ */
+export const searchProject = (files: UploadedFile[], options: SearchOptions): SearchResult => {
+  if (!options.query) return EMPTY_RESULT;
+
+  let regex: RegExp;
+  try {
+    const source = options.isRegex ? options.query : escapeRegExp(options.query);
+    regex = new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    return { ...EMPTY_RESULT, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const includes = splitGlobs(options.include);
+  const isIncluded = includes.length > 0 ? createPathMatcher(includes) : () => true;
+  const isExcluded = createPathMatcher(splitGlobs(options.exclude));
+
+  const results: FileSearchResult[] = [];
+  let lineCount = 0;
+  let matchCount = 0;
+
+  for (const file of files) {
+    if (!isIncluded(file.path) || isExcluded(file.path)) continue;
+    const lines: SearchLineMatch[] = [];
+    const fileLines = file.content.split('\n');
+    for (let i = 0; i < fileLines.length; i++) {
+      const line = fileLines[i].replace(/\r$/, '');
+      const ranges: ColumnRange[] = [];
+      for (const match of line.matchAll(regex)) {
+        // Empty matches (e.g. of "^" or "a*") have nothing to highlight.
+        if (match[0].length > 0) {
+          ranges.push([match.index!, match.index! + match[0].length]);
+        }
+      }
+      if (ranges.length === 0) continue;
+
+      matchCount += ranges.length;
+      lines.push({ lineNumber: i + 1, ...buildPreview(line, ranges) });
+      if (++lineCount >= MAX_SEARCH_RESULTS) {
+        results.push({ path: file.path, lines });
+        return { files: results, matchCount, isTruncated: true, error: null };
+      }
+    }
+    if (lines.length > 0) {
+      results.push({ path: file.path, lines });
+    }
+  }
+
+  return { files: results, matchCount, isTruncated: false, error: null };
+};
+
+/**
+ * Formats search results as a Markdown chat message, so the AI can see them as context
+ * in the following turns.
+ * @param options The search that produced the results.
+ * @param result The results.
+ */
+export const formatSearchResultsForChat = (options: SearchOptions, result: SearchResult): string => {
+  const flags = [options.isRegex && 'regex', options.caseSensitive && 'case-sensitive'].filter(Boolean).join(', ');
+  const filters = [options.include.trim() && `in \`${options.include.trim()}\``, options.exclude.trim() && `excluding \`${options.exclude.trim()}\``]
+    .filter(Boolean)
+    .join(' ');
+  const lineTotal = result.files.reduce((total, file) => total + file.lines.length, 0);
+  let message = `**Search results** for \`${options.query}\`${flags ? ` (${flags})` : ''}${filters ? ` ${filters}` : ''}: ` +
+    `${result.matchCount} match(es) on ${lineTotal} line(s) in ${result.files.length} file(s)` +
+    `${result.isTruncated ? `, stopped after the first ${MAX_SEARCH_RESULTS} lines` : ''}.\n`;
+
+  result.files.forEach(file => {
+    const body = file.lines.map(line => `${line.lineNumber}: ${line.preview}`).join('\n');
+    // Use a fence the lines themselves don't contain.
+    let fence = '```';
+    while (body.includes(fence)) fence += '`';
+    message += `\n\`${file.path}\`\n${fence}\n${body}\n${fence}\n`;
+  });
+  return message;
+};
@@ -0,0 +1,150 @@
+// Commands typed in the chat input as "/name arguments". They run in the app directly
+// instead of being sent to the model.
+export type SlashCommandName = 'undo' | 'summarize' | 'model' | 'clear' | 'files' | 'memory' | 'export' | 'help';
+
+// What the argument suggestions of a command are drawn from.
+export interface SlashCommandContext {
+  filePaths: string[];
+  modelNames: string[];
+}
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  // The arguments, as shown in the autocomplete, e.g. "<path>"; optional ones in brackets.
+  usage: string;
+  description: string;
+  // Whether the command can't run without arguments.
+  requiresArgs?: boolean;
+  // Complete values for the arguments typed so far.
+  suggestArgs?: (context: SlashCommandContext) => string[];
+}
+
+export interface SlashCommandSuggestion {
+  // The input text after picking the suggestion.
+  value: string;
+  label: string;
+  hint: string;
+}
+
+export type ParsedSlashCommand =
+  | { type: 'command'; command: SlashCommand; args: string }
+  | { type: 'error'; message: string };
+
+// Most suggestions shown at once.
+const MAX_SUGGESTIONS = 8;
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'undo',
+    usage: '[path]',
+    description: 'Revert a file to its previous version, or undo the last change to the project',
+    suggestArgs: context => context.filePaths,
+  },
+  { name: 'summarize', usage: '', description: "Save a summary of this thread's session to its summary file" },
+  {
+    name: 'model',
+    usage: '<name>',
+    description: 'Switch the AI model',
+    requiresArgs: true,
+    suggestArgs: context => context.modelNames,
+  },
+  { name: 'clear', usage: '', description: "Clear this thread's conversation; the files are kept" },
+  {
+    name: 'files',
+    usage: '[glob]',
+    description: 'List the project files, or those matching comma-separated globs',
+  },
+  {
+    name: 'memory',
+    usage: 'add <rule>',
+    description: "Add a rule to the AI's long-term memory",
+    requiresArgs: true,
+    suggestArgs: () => ['add '],
+  },
+  {
+    name: 'export',
+    usage: 'zip [all] | patch',
+    description: 'Download the modified files (or all files) as a zip, or the session as a patch',
+    requiresArgs: true,
+    suggestArgs: () => ['zip', 'zip all', 'patch'],
+  },
+  { name: 'help', usage: '', description: 'List the available commands' },
+];
+
+const COMMANDS_BY_NAME = new Map(SLASH_COMMANDS.map(command => [command.name as string, command]));
+
+export const isSlashCommandInput = (input: string): boolean => /^\/[a-z]*(\s|$)/i.test(input);
+
+/**
+ * Whether a command name is still being typed, e.g. "/und", as opposed to a complete
+ * command name or a command with arguments.
+ */
+export const isPartialCommandName = (input: string): boolean => {
+  const nameMatch = input.match(/^\/(\S*)$/);
+  return !!nameMatch && !COMMANDS_BY_NAME.has(nameMatch[1].toLowerCase());
+};
+
+/**
+ * Splits a command line into the command and its arguments.
+ * @param input The text typed in the chat input, starting with "/".
+ * @returns The command and its trimmed arguments, or an error for an unknown command or
+ *   missing arguments.
+ */
+export const parseSlashCommand = (input: string): ParsedSlashCommand => {
+  const [, name = '', args = ''] = input.trim().match(/^\/(\S*)\s*([\s\S]*)$/) ?? [];
+  const command = COMMANDS_BY_NAME.get(name.toLowerCase());
+  if (!command) {
+    return { type: 'error', message: `Unknown command "/${name}". Type /help to see the available commands.` };
+  }
+  if (command.requiresArgs && !args.trim()) {
+    return { type: 'error', message: `Usage: /${command.name} ${command.usage}` };
+  }
+  return { type: 'command', command, args: args.trim() };
+};
+
+/**
+ * Suggests how to complete a command line: command names while the name is being typed,
+ * then the command's argument values.
+ * @param input The text typed in the chat input.
+ * @param context The values arguments can be completed from.
+ */
+export const getSlashCommandSuggestions = (input: string, context: SlashCommandContext): SlashCommandSuggestion[] => {
+  if (!input.startsWith('/') || input.includes('\n')) return [];
+
+  const nameMatch = input.match(/^\/(\S*)$/);
+  if (nameMatch) {
+    const typed = nameMatch[1].toLowerCase();
+    return SLASH_COMMANDS
+      .filter(command => command.name.startsWith(typed))
+      .map(command => ({
+        value: `/${command.name}${command.usage ? ' ' : ''}`,
+        label: `/${command.name}${command.usage ? ` ${command.usage}` : ''}`,
+        hint: command.description,
+      }));
+  }
+
+  const argsMatch = input.match(/^\/(\S+)\s+(.*)$/);
+  const command = argsMatch && COMMANDS_BY_NAME.get(argsMatch[1].toLowerCase());
+  if (!command?.suggestArgs) return [];
+  const typedArgs = argsMatch[2].toLowerCase();
+  const values = command.suggestArgs(context);
+  // An exact match comes first, then values that start with what was typed, then those that
+  // merely contain it.
+  const ranked = [
+    ...values.filter(value => value.toLowerCase() === typedArgs),
+    ...values.filter(value => value.toLowerCase() !== typedArgs && value.toLowerCase().startsWith(typedArgs)),
+    ...values.filter(value => !value.toLowerCase().startsWith(typedArgs) && value.toLowerCase().includes(typedArgs)),
+  ];
+  // Nothing to complete when the typed value is the only match.
+  if (ranked.length === 1 && ranked[0].toLowerCase() === typedArgs) return [];
+  return ranked
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => ({ value: `/${command.name} ${value}`, label: value, hint: `/${command.name} ${command.usage}` }));
+};
+
+/**
+ * Lists the commands as a Markdown chat message, for /help.
+ */
+export const formatSlashCommandHelp = (): string =>
+  '**Commands**\n\n' +
+  SLASH_COMMANDS.map(command => `- \`/${command.name}${command.usage ? ` ${command.usage}` : ''}\`: ${command.description}`).join('\n');
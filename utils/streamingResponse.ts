@@ -0,0 +1,62 @@
+export interface StreamingFileProgress {
+  filePath: string;
+  lineCount: number;
+  isComplete: boolean;
+}
+
+export interface StreamingResponseView {
+  // The conversational text received so far, without the XML block.
+  text: string;
+  files: StreamingFileProgress[];
+}
+
+/**
+ * Hides a tag that has only partly arrived at the end of the text (e.g. "<chan"),
+ * so it doesn't flash up in the chat before the rest of the tag is received.
+ */
+const stripPartialTag = (text: string): string => {
+  const lastOpen = text.lastIndexOf('<');
+  if (lastOpen === -1 || text.indexOf('>', lastOpen) !== -1) return text;
+  const fragment = text.slice(lastOpen);
+  return '<changes'.startsWith(fragment) || fragment.startsWith('<changes') ? text.slice(0, lastOpen) : text;
+};
+
+/**
+ * Splits a partially received model response into its conversational text and the
+ * progress of each file in its `<changes>` block. It is only meant for display while
+ * streaming; the complete response is parsed and validated once the stream ends.
+ * @param response The response text received so far.
+ * @returns What to show in the chat.
+ */
+export const parseStreamingResponse = (response: string): StreamingResponseView => {
+  const changesStart = response.search(/<changes[\s>]/);
+  if (changesStart === -1) {
+    return { text: stripPartialTag(response).trim(), files: [] };
+  }
+
+  const changesEnd = response.indexOf('</changes>', changesStart);
+  const xmlPart = changesEnd === -1 ? response.slice(changesStart) : response.slice(changesStart, changesEnd);
+  const textAfter = changesEnd === -1 ? '' : response.slice(changesEnd + '</changes>'.length);
+  const text = `${response.slice(0, changesStart).trim()}\n\n${stripPartialTag(textAfter).trim()}`.trim();
+
+  const files: StreamingFileProgress[] = [];
+  const changeTagRegex = /<change\s+file="([^"]*)"[^>]*>/g;
+  const matches = [...xmlPart.matchAll(changeTagRegex)];
+  matches.forEach((match, i) => {
+    const bodyStart = match.index! + match[0].length;
+    const bodyEnd = i + 1 < matches.length ? matches[i + 1].index! : xmlPart.length;
+    const body = xmlPart.slice(bodyStart, bodyEnd);
+    const closeIndex = body.indexOf('</change>');
+    const content = (closeIndex === -1 ? body : body.slice(0, closeIndex))
+      .replace(/<\/?(content|edit|search|replace)>|<!\[CDATA\[|\]\]>/g, '')
+      .trim();
+    files.push({
+      filePath: match[1],
+      lineCount: content ? content.split('\n').length : 0,
+      // The last file is still being written until the stream ends or its tag closes.
+      isComplete: closeIndex !== -1 || (changesEnd !== -1 && i === matches.length - 1),
+    });
+  });
+
+  return { text, files };
+};
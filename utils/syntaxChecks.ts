@@ -0,0 +1,421 @@
+import type { FileDiagnostic, ProposedChange } from '../types';
+
+// The file types whose proposed content is checked before it can be applied.
+// TypeScript (which also covers JavaScript) needs the TypeScript parser; the others are checked here.
+export type SyntaxLanguage = 'typescript' | 'json' | 'yaml' | 'css' | 'html';
+
+// Reporting stops after this many problems in one file; the first few are what matter.
+export const MAX_DIAGNOSTICS_PER_FILE = 20;
+
+const EXTENSION_LANGUAGES: Record<string, SyntaxLanguage> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+  json: 'json', jsonc: 'json',
+  yaml: 'yaml', yml: 'yaml',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'html', htm: 'html',
+};
+
+// JSON files that are read by tools allowing comments and trailing commas.
+const JSON_WITH_COMMENTS_REGEX = /(^|\/)((tsconfig|jsconfig)[^/]*\.json|\.eslintrc\.json|devcontainer\.json|\.vscode\/[^/]+\.json|[^/]+\.jsonc)$/i;
+
+/**
+ * Picks the syntax check for a file from its extension.
+ * @returns The language, or null if files of this type aren't checked.
+ */
+export const getSyntaxLanguage = (path: string): SyntaxLanguage | null => {
+  const fileName = path.split('/').pop() ?? '';
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_LANGUAGES[extension] ?? null;
+};
+
+const toDiagnostic = (content: string, offset: number, message: string): FileDiagnostic => {
+  const before = content.slice(0, offset);
+  return {
+    line: before.split('\n').length,
+    column: offset - before.lastIndexOf('\n'),
+    message,
+  };
+};
+
+/**
+ * Calls `visit` for every character of JSON text that is outside a string.
+ */
+const forEachJsonCodeChar = (text: string, visit: (index: number) => number | undefined): void => {
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"' && text[i] !== '\n') {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      i++;
+    } else {
+      // The visitor may return where to continue, to skip over what it handled.
+      i = visit(i) ?? i + 1;
+    }
+  }
+};
+
+/**
+ * Blanks out comments and trailing commas with spaces, so that JSON with comments parses
+ * and error positions still point into the original text.
+ */
+const blankJsonComments = (content: string): string => {
+  const chars = content.split('');
+  forEachJsonCodeChar(content, i => {
+    if (content[i] !== '/' || (content[i + 1] !== '/' && content[i + 1] !== '*')) return;
+    const isBlock = content[i + 1] === '*';
+    const end = isBlock ? content.indexOf('*/', i + 2) : content.indexOf('\n', i);
+    const stop = end === -1 ? content.length : isBlock ? end + 2 : end;
+    for (let j = i; j < stop; j++) {
+      if (chars[j] !== '\n') chars[j] = ' ';
+    }
+    return stop;
+  });
+
+  const withoutComments = chars.join('');
+  const closingBracket = /\s*[}\]]/y;
+  forEachJsonCodeChar(withoutComments, i => {
+    closingBracket.lastIndex = i + 1;
+    if (withoutComments[i] === ',' && closingBracket.test(withoutComments)) chars[i] = ' ';
+    return undefined;
+  });
+  return chars.join('');
+};
+
+/**
+ * Checks that a file parses as JSON.
+ * @param allowComments Whether comments and trailing commas are allowed, as in tsconfig.json.
+ */
+const checkJson = (content: string, allowComments: boolean): FileDiagnostic[] => {
+  try {
+    JSON.parse(allowComments ? blankJsonComments(content) : content);
+    return [];
+  } catch (e) {
+    const detail = e instanceof Error ? e.message : String(e);
+    // Browsers word the error differently; take the location from whichever form is used.
+    const message = detail
+      .replace(/^JSON\.parse: /, '')
+      .replace(/\s*(in JSON )?at position \d+.*$/, '')
+      .replace(/\s*at line \d+ column \d+ of the JSON data$/, '');
+    const lineColumn = detail.match(/line (\d+) column (\d+)/);
+    if (lineColumn) {
+      return [{ line: Number(lineColumn[1]), column: Number(lineColumn[2]), message }];
+    }
+    const position = detail.match(/at position (\d+)/);
+    return [toDiagnostic(content, position ? Number(position[1]) : content.length, message)];
+  }
+};
+
+const CLOSING_BRACKETS: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+
+/**
+ * Checks that a stylesheet's comments and strings are terminated and its brackets balanced.
+ * @param allowLineComments Whether `//` starts a comment, as in SCSS and Less.
+ */
+const checkCss = (content: string, allowLineComments: boolean): FileDiagnostic[] => {
+  const diagnostics: FileDiagnostic[] = [];
+  const open: { bracket: string; offset: number }[] = [];
+  let i = 0;
+  while (i < content.length && diagnostics.length < MAX_DIAGNOSTICS_PER_FILE) {
+    const ch = content[i];
+    if (ch === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      if (end === -1) {
+        diagnostics.push(toDiagnostic(content, i, 'Comment is never closed with */.'));
+        return diagnostics;
+      }
+      i = end + 2;
+    } else if (allowLineComments && ch === '/' && content[i + 1] === '/') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < content.length && content[j] !== ch && content[j] !== '\n') {
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      if (content[j] !== ch) {
+        diagnostics.push(toDiagnostic(content, i, 'String is not closed on the same line.'));
+      }
+      i = j + 1;
+    } else if (ch === '(' && /url$/i.test(content.slice(Math.max(0, i - 3), i)) && !/^\s*["']/.test(content.slice(i + 1, i + 20))) {
+      // An unquoted url() may contain slashes and quotes-free text that would look like comments.
+      const end = content.indexOf(')', i);
+      if (end === -1) {
+        diagnostics.push(toDiagnostic(content, i, 'url( is never closed.'));
+        return diagnostics;
+      }
+      i = end + 1;
+    } else if (ch === '{' || ch === '(' || ch === '[') {
+      open.push({ bracket: ch, offset: i });
+      i++;
+    } else if (ch in CLOSING_BRACKETS) {
+      const expected = CLOSING_BRACKETS[ch];
+      if (open.length > 0 && open[open.length - 1].bracket === expected) {
+        open.pop();
+      } else if (open.some(entry => entry.bracket === expected)) {
+        // Close what the bracket skips over, reporting each one once.
+        while (open[open.length - 1].bracket !== expected) {
+          const unclosed = open.pop()!;
+          const opened = toDiagnostic(content, unclosed.offset, '');
+          diagnostics.push(toDiagnostic(content, i, `'${unclosed.bracket}' opened on line ${opened.line} is not closed before '${ch}'.`));
+        }
+        open.pop();
+      } else {
+        diagnostics.push(toDiagnostic(content, i, `Unexpected '${ch}' without a matching '${expected}'.`));
+      }
+      i++;
+    } else {
+      i++;
+    }
+  }
+  open.forEach(({ bracket, offset }) => diagnostics.push(toDiagnostic(content, offset, `'${bracket}' is never closed.`)));
+  return diagnostics.slice(0, MAX_DIAGNOSTICS_PER_FILE);
+};
+
+// Elements that never have content or a closing tag.
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Elements whose closing tag may be left out; the parser closes them by itself.
+const OPTIONAL_CLOSE_ELEMENTS = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'colgroup', 'rb', 'rt', 'rtc', 'rp']);
+// Elements whose content is text up to the closing tag, not markup.
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+/**
+ * Checks that an HTML document's tags are closed and nested properly. Closing tags the HTML
+ * standard lets you leave out (e.g. </li> or </p>) are not required.
+ */
+const checkHtml = (content: string): FileDiagnostic[] => {
+  const diagnostics: FileDiagnostic[] = [];
+  const open: { name: string; offset: number }[] = [];
+  const tagRegex = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+  let i = 0;
+  while (i < content.length && diagnostics.length < MAX_DIAGNOSTICS_PER_FILE) {
+    const start = content.indexOf('<', i);
+    if (start === -1) break;
+
+    if (content.startsWith('<!--', start)) {
+      const end = content.indexOf('-->', start + 4);
+      if (end === -1) {
+        diagnostics.push(toDiagnostic(content, start, 'Comment is never closed with -->.'));
+        break;
+      }
+      i = end + 3;
+      continue;
+    }
+    if (content.startsWith('<!', start) || content.startsWith('<?', start)) {
+      const end = content.indexOf('>', start);
+      i = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    tagRegex.lastIndex = start;
+    const match = tagRegex.exec(content);
+    if (!match) {
+      // A "<" that doesn't start a tag is text, unless it looks like the start of a broken tag.
+      if (/^<\/?[a-zA-Z]/.test(content.slice(start, start + 3))) {
+        diagnostics.push(toDiagnostic(content, start, 'Tag is not properly closed with >.'));
+      }
+      i = start + 1;
+      continue;
+    }
+
+    const [tag, slash, rawName, , selfClosing] = match;
+    const name = rawName.toLowerCase();
+    i = start + tag.length;
+
+    if (!slash) {
+      if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+      if (RAW_TEXT_ELEMENTS.has(name)) {
+        const end = content.toLowerCase().indexOf(`</${name}`, i);
+        if (end === -1) {
+          diagnostics.push(toDiagnostic(content, start, `<${name}> is never closed.`));
+          break;
+        }
+        const closeEnd = content.indexOf('>', end);
+        i = closeEnd === -1 ? content.length : closeEnd + 1;
+        continue;
+      }
+      open.push({ name, offset: start });
+      continue;
+    }
+
+    if (VOID_ELEMENTS.has(name)) {
+      diagnostics.push(toDiagnostic(content, start, `<${name}> is a void element and has no closing tag.`));
+      continue;
+    }
+    const matchIndex = open.map(entry => entry.name).lastIndexOf(name);
+    if (matchIndex === -1) {
+      diagnostics.push(toDiagnostic(content, start, `Unexpected closing tag </${name}> without an opening tag.`));
+      continue;
+    }
+    open.splice(matchIndex).slice(1).forEach(unclosed => {
+      if (!OPTIONAL_CLOSE_ELEMENTS.has(unclosed.name)) {
+        const opened = toDiagnostic(content, unclosed.offset, '');
+        diagnostics.push(toDiagnostic(content, start, `<${unclosed.name}> opened on line ${opened.line} is not closed before </${name}>.`));
+      }
+    });
+  }
+  open
+    .filter(entry => !OPTIONAL_CLOSE_ELEMENTS.has(entry.name))
+    .forEach(entry => diagnostics.push(toDiagnostic(content, entry.offset, `<${entry.name}> is never closed.`)));
+  return diagnostics.slice(0, MAX_DIAGNOSTICS_PER_FILE);
+};
+
+/**
+ * Removes a YAML line's comment and the text of its quoted strings, keeping the length.
+ * @returns The line, and the quote character of a string still open at its end.
+ */
+const blankYamlStrings = (line: string, openQuote: string | null): { text: string; openQuote: string | null } => {
+  let text = '';
+  let quote = openQuote;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (quote === "'" && ch === "'" && line[i + 1] === "'") {
+        text += '  ';
+        i++;
+      } else if (quote === '"' && ch === '\\') {
+        text += '  ';
+        i++;
+      } else if (ch === quote) {
+        text += ch;
+        quote = null;
+      } else {
+        text += ' ';
+      }
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      break;
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s:,[{-]/.test(line[i - 1]))) {
+      // A quote only starts a string at the start of a value; elsewhere (e.g. "it's") it is text.
+      text += ch;
+      quote = ch;
+    } else {
+      text += ch;
+    }
+  }
+  return { text, openQuote: quote };
+};
+
+/**
+ * Checks a YAML file for common well-formedness errors: tab indentation, strings and
+ * flow collections ([...] and {...}) that are never closed, and duplicate keys in a mapping.
+ */
+const checkYaml = (content: string): FileDiagnostic[] => {
+  const diagnostics: FileDiagnostic[] = [];
+  const lines = content.split('\n');
+  // The keys seen in each open block mapping, by indentation.
+  let mappings: { indent: number; keys: Set<string> }[] = [];
+  const flow: { bracket: string; line: number; column: number }[] = [];
+  let openQuote: { quote: string; line: number; column: number } | null = null;
+  // While inside a block scalar (| or >), the indentation its content must exceed.
+  let blockScalarIndent: number | null = null;
+
+  for (let index = 0; index < lines.length && diagnostics.length < MAX_DIAGNOSTICS_PER_FILE; index++) {
+    const line = lines[index].replace(/\r$/, '');
+    const lineNumber = index + 1;
+    const indent = line.length - line.trimStart().length;
+
+    if (blockScalarIndent !== null) {
+      if (!line.trim() || indent > blockScalarIndent) continue;
+      blockScalarIndent = null;
+    }
+    if (/^---(\s|$)|^\.\.\.(\s|$)/.test(line)) {
+      // A new document starts with its own keys.
+      mappings = [];
+      continue;
+    }
+
+    const { text, openQuote: quoteAtEnd } = blankYamlStrings(line, openQuote?.quote ?? null);
+    if (!openQuote && /^ *\t/.test(line)) {
+      diagnostics.push({ line: lineNumber, column: indent + 1, message: 'Tabs are not allowed in YAML indentation.' });
+    }
+
+    // Keys of block mappings, outside strings and flow collections.
+    if (!openQuote && flow.length === 0) {
+      const keyMatch = text.match(/^(\s*(?:-\s+)*)([^\s#'"[\]{},:][^:#]*?|"[^"]*"|'[^']*')\s*:(\s|$)/);
+      if (keyMatch) {
+        const keyIndent = keyMatch[1].length;
+        const key = line.slice(keyIndent, keyIndent + keyMatch[2].length).trim();
+        // A list item ("- key: value") starts a new mapping even at the same indentation.
+        const startsItem = /-\s/.test(keyMatch[1]);
+        mappings = mappings.filter(mapping => mapping.indent < keyIndent || (mapping.indent === keyIndent && !startsItem));
+        let mapping = mappings[mappings.length - 1];
+        if (!mapping || mapping.indent !== keyIndent) {
+          mapping = { indent: keyIndent, keys: new Set() };
+          mappings.push(mapping);
+        }
+        if (mapping.keys.has(key) && key !== '<<') {
+          diagnostics.push({ line: lineNumber, column: keyIndent + 1, message: `Duplicate key "${key}" in the same mapping.` });
+        }
+        mapping.keys.add(key);
+        if (/:\s*[|>][-+0-9]*\s*$/.test(text)) {
+          blockScalarIndent = keyIndent;
+        }
+      } else if (/^\s*-\s*[|>][-+0-9]*\s*$/.test(text) || /^\s*[|>][-+0-9]*\s*$/.test(text)) {
+        blockScalarIndent = indent;
+      }
+    }
+
+    for (let column = 0; column < text.length; column++) {
+      const ch = text[column];
+      if (ch === '[' || ch === '{') {
+        // Outside a flow collection, brackets only open one at the start of a value.
+        if (flow.length > 0 || column === 0 || /[\s:,-]/.test(text[column - 1])) {
+          flow.push({ bracket: ch, line: lineNumber, column: column + 1 });
+        }
+      } else if ((ch === ']' || ch === '}') && flow.length > 0) {
+        const expected = ch === ']' ? '[' : '{';
+        const top = flow.pop()!;
+        if (top.bracket !== expected) {
+          diagnostics.push({ line: lineNumber, column: column + 1, message: `'${ch}' does not match '${top.bracket}' opened on line ${top.line}.` });
+        }
+      }
+    }
+
+    if (quoteAtEnd && !openQuote) {
+      const column = text.lastIndexOf(quoteAtEnd) + 1;
+      openQuote = { quote: quoteAtEnd, line: lineNumber, column };
+    } else if (!quoteAtEnd) {
+      openQuote = null;
+    }
+  }
+
+  if (openQuote) {
+    diagnostics.push({ line: openQuote.line, column: openQuote.column, message: `String starting with ${openQuote.quote} is never closed.` });
+  }
+  flow.forEach(entry => diagnostics.push({ line: entry.line, column: entry.column, message: `'${entry.bracket}' is never closed.` }));
+  return diagnostics.slice(0, MAX_DIAGNOSTICS_PER_FILE);
+};
+
+/**
+ * Runs the syntax check for a file type that doesn't need the TypeScript parser.
+ * @returns The problems found, in file order where possible.
+ */
+export const checkSyntax = (filePath: string, content: string, language: Exclude<SyntaxLanguage, 'typescript'>): FileDiagnostic[] => {
+  switch (language) {
+    case 'json':
+      return checkJson(content, JSON_WITH_COMMENTS_REGEX.test(filePath));
+    case 'yaml':
+      return checkYaml(content);
+    case 'css':
+      return checkCss(content, !filePath.toLowerCase().endsWith('.css'));
+    case 'html':
+      return checkHtml(content);
+  }
+};
+
+/**
+ * Writes the prompt that asks the AI to fix the problems found in its proposed files.
+ * @param changes The proposed changes, with the diagnostics of the checked files.
+ */
+export const formatDiagnosticsCorrection = (changes: ProposedChange[]): string => {
+  const problems = changes
+    .filter(change => change.diagnostics && change.diagnostics.length > 0)
+    .map(change => [
+      `\`${change.filePath}\`:`,
+      ...change.diagnostics!.map(d => `- Line ${d.line}, column ${d.column}: ${d.message}`),
+    ].join('\n'))
+    .join('\n\n');
+  return `The files you proposed have syntax errors, so I haven't applied them:\n\n${problems}\n\nPlease fix these errors and propose the corrected files again.`;
+};
@@ -0,0 +1,188 @@
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'literal' | 'type' | 'tag' | 'attribute' | 'property';
+
+export interface HighlightToken {
+  type: TokenType;
+  text: string;
+}
+
+export type LanguageId = 'javascript' | 'json' | 'css' | 'html' | 'python' | 'markdown' | 'yaml' | 'shell' | 'clike' | 'plain';
+
+interface LanguageDefinition {
+  // Tried in order at each position; the first match wins. All patterns are sticky.
+  rules: [TokenType, RegExp][];
+  keywords?: Set<string>;
+  literals?: Set<string>;
+  // Whether capitalised identifiers (classes, types, components) are highlighted as types.
+  capitalizedTypes?: boolean;
+}
+
+// Files larger than this are shown without highlighting, to keep the editor responsive.
+const MAX_HIGHLIGHT_LENGTH = 300_000;
+
+const IDENTIFIER_REGEX = /[A-Za-z_$][\w$]*/y;
+const NUMBER_RULE: [TokenType, RegExp] = ['number', /\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)[a-z%]*\b/iy];
+const DOUBLE_QUOTED: [TokenType, RegExp] = ['string', /"(?:[^"\\\n]|\\.)*"?/y];
+const SINGLE_QUOTED: [TokenType, RegExp] = ['string', /'(?:[^'\\\n]|\\.)*'?/y];
+const SLASH_COMMENTS: [TokenType, RegExp][] = [
+  ['comment', /\/\/.*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+];
+const HASH_COMMENT: [TokenType, RegExp] = ['comment', /#.*/y];
+
+const words = (list: string): Set<string> => new Set(list.split(' '));
+
+const LANGUAGES: Record<Exclude<LanguageId, 'plain'>, LanguageDefinition> = {
+  javascript: {
+    rules: [...SLASH_COMMENTS, DOUBLE_QUOTED, SINGLE_QUOTED, ['string', /`(?:[^`\\]|\\[\s\S])*`?/y], NUMBER_RULE],
+    keywords: words('abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield'),
+    literals: words('true false null undefined NaN Infinity'),
+    capitalizedTypes: true,
+  },
+  json: {
+    rules: [['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y], DOUBLE_QUOTED, NUMBER_RULE],
+    literals: words('true false null'),
+  },
+  css: {
+    rules: [
+      ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      ['keyword', /@[\w-]+/y],
+      ['number', /#[\da-f]{3,8}\b/iy],
+      ['property', /(?:--)?[a-z-]+(?=\s*:[^:{]*[;}\n])/iy],
+      NUMBER_RULE,
+      ['keyword', /!important\b/y],
+    ],
+  },
+  html: {
+    rules: [
+      ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+      ['tag', /<\/?[\w:-]+|\/?>/y],
+      ['attribute', /[\w:@.-]+(?==)/y],
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+    ],
+  },
+  python: {
+    rules: [
+      HASH_COMMENT,
+      ['string', /[rbuf]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/iy],
+      ['string', /[rbuf]{0,2}(?:"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/iy],
+      ['type', /@[\w.]+/y],
+      NUMBER_RULE,
+    ],
+    keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield self'),
+    literals: words('True False None'),
+    capitalizedTypes: true,
+  },
+  markdown: {
+    rules: [
+      ['keyword', /^#{1,6} .*/my],
+      ['string', /^(?:```|~~~)[\s\S]*?(?:^(?:```|~~~)|$(?![\s\S]))/my],
+      ['string', /`[^`\n]+`/y],
+      ['attribute', /\[[^\]\n]*\]\([^)\n]*\)/y],
+      ['tag', /^\s*(?:[-*+]|\d+\.)(?= )/my],
+    ],
+  },
+  yaml: {
+    rules: [
+      HASH_COMMENT,
+      ['property', /[\w.-]+(?=\s*:(?:\s|$))/y],
+      DOUBLE_QUOTED,
+      SINGLE_QUOTED,
+      ['keyword', /^---$/my],
+      NUMBER_RULE,
+    ],
+    literals: words('true false null yes no on off'),
+  },
+  shell: {
+    rules: [HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['property', /\$\{[^}\n]*\}|\$[\w@#?*!$-]/y], NUMBER_RULE],
+    keywords: words('if then else elif fi for in do done while until case esac function return local export readonly source exit echo set unset shift'),
+  },
+  clike: {
+    rules: [...SLASH_COMMENTS, DOUBLE_QUOTED, ['string', /'(?:[^'\\\n]|\\.){0,8}'/y], ['type', /#\s*\w+/y], NUMBER_RULE],
+    keywords: words('abstract as async await break case catch char class const continue default defer do double else enum extends final finally float fn for func go goto if impl implements import int interface let long loop match mod mut namespace new override package private protected pub public return select self short signed sizeof static struct super switch this throw throws trait try type typedef union unsafe unsigned use using var virtual void volatile where while'),
+    literals: words('true false null nil None NULL nullptr'),
+    capitalizedTypes: true,
+  },
+};
+
+const EXTENSION_LANGUAGES: Record<string, LanguageId> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript', mts: 'javascript', cts: 'javascript',
+  json: 'json', jsonc: 'json',
+  css: 'css', scss: 'css', sass: 'css', less: 'css',
+  html: 'html', htm: 'html', xml: 'html', svg: 'html', vue: 'html', svelte: 'html',
+  py: 'python', pyi: 'python',
+  md: 'markdown', mdx: 'markdown',
+  yml: 'yaml', yaml: 'yaml',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  c: 'clike', h: 'clike', cpp: 'clike', hpp: 'clike', cc: 'clike', cs: 'clike', java: 'clike', kt: 'clike', go: 'clike', rs: 'clike', swift: 'clike', php: 'clike', dart: 'clike', scala: 'clike',
+};
+
+/**
+ * Picks the highlighting language for a file from its extension.
+ */
+export const getLanguageForPath = (path: string): LanguageId => {
+  const fileName = path.split('/').pop() ?? '';
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_LANGUAGES[extension] ?? 'plain';
+};
+
+/**
+ * Splits code into highlighted tokens, one list per line. The whole text is scanned in
+ * one pass, so comments and strings that span lines are highlighted correctly.
+ * @param content The code.
+ * @param language The language to highlight it as.
+ * @returns The tokens of each line; joining a line's token texts gives the line back.
+ */
+export const highlightCode = (content: string, language: LanguageId): HighlightToken[][] => {
+  const definition = language === 'plain' || content.length > MAX_HIGHLIGHT_LENGTH ? null : LANGUAGES[language];
+  const tokens: HighlightToken[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  if (!definition) {
+    push('plain', content);
+  } else {
+    let i = 0;
+    scan: while (i < content.length) {
+      for (const [type, regex] of definition.rules) {
+        regex.lastIndex = i;
+        const match = regex.exec(content);
+        if (match && match[0].length > 0) {
+          push(type, match[0]);
+          i += match[0].length;
+          continue scan;
+        }
+      }
+      IDENTIFIER_REGEX.lastIndex = i;
+      const identifier = IDENTIFIER_REGEX.exec(content)?.[0];
+      if (identifier) {
+        let type: TokenType = 'plain';
+        if (definition.keywords?.has(identifier)) type = 'keyword';
+        else if (definition.literals?.has(identifier)) type = 'literal';
+        else if (definition.capitalizedTypes && /^[A-Z]/.test(identifier)) type = 'type';
+        push(type, identifier);
+        i += identifier.length;
+      } else {
+        push('plain', content[i]);
+        i++;
+      }
+    }
+  }
+
+  const lines: HighlightToken[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((part, partIndex) => {
+      if (partIndex > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  });
+  return lines;
+};
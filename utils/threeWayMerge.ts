@@ -0,0 +1,165 @@
+import { diffArrays } from 'diff';
+
+// Text that the project and the proposal agree on, or that only one of them changed.
+export interface CleanRegion {
+  type: 'clean';
+  value: string;
+}
+
+// Lines that the project and the proposal both changed, differently, since the proposal was made.
+export interface ConflictRegion {
+  type: 'conflict';
+  conflictIndex: number;
+  base: string;
+  current: string;
+  proposed: string;
+}
+
+export type MergeRegion = CleanRegion | ConflictRegion;
+
+// How a conflict is resolved: keep the project's lines, take the proposal's, or keep both (project first).
+export type ConflictChoice = 'current' | 'proposed' | 'both';
+
+// A proposed file whose project content changed after the proposal was made, merged with that change.
+export interface FileMerge {
+  filePath: string;
+  // The content the file has in the project now.
+  current: string;
+  regions: MergeRegion[];
+  conflictCount: number;
+}
+
+const splitLines = (content: string): string[] => content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+/**
+ * For each base line, the index of the same line in the other version, or -1 if it was
+ * removed or changed there.
+ */
+const matchLines = (base: string[], other: string[]): number[] => {
+  const matches: number[] = [];
+  let otherIndex = 0;
+  for (const part of diffArrays(base, other) as { value: string[]; added?: boolean; removed?: boolean }[]) {
+    if (part.added) {
+      otherIndex += part.value.length;
+    } else if (part.removed) {
+      part.value.forEach(() => matches.push(-1));
+    } else {
+      part.value.forEach(() => matches.push(otherIndex++));
+    }
+  }
+  return matches;
+};
+
+const isSameLines = (a: string[], b: string[]): boolean => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merges the changes made to a file in the project since a proposal was made with the
+ * proposal's own changes (a three-way merge, like git's). Lines changed on one side only
+ * are taken from that side; lines both sides changed differently become conflicts.
+ * @param base The content the proposal was made against.
+ * @param current The content the file has in the project now.
+ * @param proposed The proposed content.
+ * @returns The merged file as clean and conflicting regions, in file order.
+ */
+export const mergeThreeWay = (base: string, current: string, proposed: string): MergeRegion[] => {
+  const baseLines = splitLines(base);
+  const currentLines = splitLines(current);
+  const proposedLines = splitLines(proposed);
+  const currentMatches = matchLines(baseLines, currentLines);
+  const proposedMatches = matchLines(baseLines, proposedLines);
+
+  const regions: MergeRegion[] = [];
+  let conflictCount = 0;
+  const addClean = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = regions[regions.length - 1];
+    if (last?.type === 'clean') {
+      last.value += lines.join('');
+    } else {
+      regions.push({ type: 'clean', value: lines.join('') });
+    }
+  };
+
+  let baseIndex = 0;
+  let currentIndex = 0;
+  let proposedIndex = 0;
+  while (baseIndex < baseLines.length || currentIndex < currentLines.length || proposedIndex < proposedLines.length) {
+    // A line that is unchanged on both sides, right where both sides are, is merged as is.
+    if (currentMatches[baseIndex] === currentIndex && proposedMatches[baseIndex] === proposedIndex && baseIndex < baseLines.length) {
+      addClean([baseLines[baseIndex]]);
+      baseIndex++;
+      currentIndex++;
+      proposedIndex++;
+      continue;
+    }
+
+    // Otherwise, the changed stretch runs up to the next base line both sides kept.
+    let nextStable = baseIndex;
+    while (nextStable < baseLines.length && (currentMatches[nextStable] === -1 || proposedMatches[nextStable] === -1)) {
+      nextStable++;
+    }
+    const currentEnd = nextStable < baseLines.length ? currentMatches[nextStable] : currentLines.length;
+    const proposedEnd = nextStable < baseLines.length ? proposedMatches[nextStable] : proposedLines.length;
+    const baseChunk = baseLines.slice(baseIndex, nextStable);
+    const currentChunk = currentLines.slice(currentIndex, currentEnd);
+    const proposedChunk = proposedLines.slice(proposedIndex, proposedEnd);
+
+    if (isSameLines(currentChunk, baseChunk)) {
+      addClean(proposedChunk);
+    } else if (isSameLines(proposedChunk, baseChunk) || isSameLines(proposedChunk, currentChunk)) {
+      addClean(currentChunk);
+    } else {
+      regions.push({
+        type: 'conflict',
+        conflictIndex: conflictCount++,
+        base: baseChunk.join(''),
+        current: currentChunk.join(''),
+        proposed: proposedChunk.join(''),
+      });
+    }
+    baseIndex = nextStable;
+    currentIndex = currentEnd;
+    proposedIndex = proposedEnd;
+  }
+  return regions;
+};
+
+export const countConflicts = (regions: MergeRegion[]): number => regions.filter(region => region.type === 'conflict').length;
+
+/**
+ * Writes out a merged file.
+ * @param regions The merge result.
+ * @param choices How each conflict is resolved, by conflict index. Every conflict needs a choice.
+ * @returns The merged content. Empty content means the file is deleted.
+ */
+export const resolveMerge = (regions: MergeRegion[], choices: ConflictChoice[]): string => regions.map(region => {
+  if (region.type === 'clean') return region.value;
+  const choice = choices[region.conflictIndex];
+  if (choice === 'current') return region.current;
+  if (choice === 'proposed') return region.proposed;
+  // Both: the project's lines, then the proposal's, on a line of their own.
+  const separator = region.current && region.proposed && !region.current.endsWith('\n') ? '\n' : '';
+  return region.current + separator + region.proposed;
+}).join('');
+
+/**
+ * Merges the proposed changes to files whose project content changed after they were proposed.
+ * @param changes The changes to apply, with the content they were proposed against.
+ * @param currentFiles The project's files now.
+ * @returns A merge for every such file; files that still match the proposal's base are left out.
+ */
+export const findStaleChanges = (
+  changes: { filePath: string; oldContent: string; newContent: string; renamedFrom?: string }[],
+  currentFiles: { path: string; content: string }[]
+): FileMerge[] => {
+  const currentByPath = new Map(currentFiles.map(file => [file.path, file.content]));
+  return changes.flatMap(change => {
+    // A file that doesn't exist (any more) has empty content, like a file the proposal creates.
+    // A renamed file is compared at its old path, where the proposal found it.
+    const current = currentByPath.get(change.renamedFrom ?? change.filePath) ?? '';
+    // Nothing to merge when the file hasn't moved on, or already is what the proposal wants.
+    if (current === change.oldContent || current === change.newContent) return [];
+    const regions = mergeThreeWay(change.oldContent, current, change.newContent);
+    return [{ filePath: change.filePath, current, regions, conflictCount: countConflicts(regions) }];
+  });
+};
@@ -0,0 +1,298 @@
+// Patterns applied to every upload in addition to the project's own .gitignore files.
+// They use .gitignore syntax and can be changed by the user in the upload dialog.
+export const DEFAULT_IGNORE_PATTERNS: string[] = [
+  '.git/',
+  'node_modules/',
+  'bower_components/',
+  'dist/',
+  'build/',
+  'out/',
+  'coverage/',
+  '.next/',
+  '.nuxt/',
+  '.cache/',
+  '.turbo/',
+  '__pycache__/',
+  '.venv/',
+  'venv/',
+  'target/',
+  '.idea/',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'Cargo.lock',
+  'poetry.lock',
+  '*.min.js',
+  '*.map',
+  '.DS_Store',
+  'Thumbs.db',
+];
+
+// Files at the top of the upload (not in any folder) are grouped under this name.
+export const ROOT_GROUP_NAME = '(top-level files)';
+
+interface IgnoreRule {
+  // The folder the rule applies within; '' for the whole upload.
+  basePath: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+export interface UploadGroup {
+  name: string;
+  files: File[];
+  totalBytes: number;
+  ignoredCount: number;
+}
+
+export interface UploadPlan {
+  groups: UploadGroup[];
+  ignoredCount: number;
+  ignoredBytes: number;
+  // Binary files (images, archives, ...) that can't be read as text.
+  unreadableCount: number;
+  gitignoreCount: number;
+}
+
+export const getUploadPath = (file: File): string => file.webkitRelativePath || file.name;
+
+/**
+ * A simple utility to guess if a file is text-based from its MIME type.
+ * This helps prevent trying to read binary files as text.
+ * @param file The file to check.
+ * @returns True if the file is likely text-based, false otherwise.
+ */
+export const isLikelyTextFile = (file: File): boolean => {
+    const type = file.type;
+
+    // Allow all standard text types
+    if (type.startsWith('text/')) return true;
+
+    // Explicitly block known binary types/supertypes
+    if (type.startsWith('image/') ||
+        type.startsWith('audio/') ||
+        type.startsWith('video/') ||
+        type.startsWith('font/')) {
+        // Make an exception for SVG, which is XML/text.
+        return type === 'image/svg+xml';
+    }
+
+    // Block other common binary application types
+    if (['application/pdf', 'application/zip', 'application/octet-stream'].some(b => type.startsWith(b))) {
+      return false;
+    }
+
+    // For other types like application/json, application/javascript, or unknown types (''),
+    // we optimistically assume they are text and attempt to read them.
+    return true;
+};
+
+/**
+ * Converts a .gitignore glob into a regular expression over paths relative to the rule's folder.
+ * Supports `*`, `?`, `**`, character classes, and anchoring by a leading or inner slash.
+ */
+const globToRegex = (glob: string, anchored: boolean): RegExp => {
+  let body = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          body += '(?:.*/)?'; // "**/" matches zero or more folders.
+          i += 2;
+        } else {
+          body += '.*';
+          i += 1;
+        }
+      } else {
+        body += '[^/]*';
+      }
+    } else if (char === '?') {
+      body += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        body += '\\[';
+      } else {
+        const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        body += `[${set}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      body += glob[i + 1].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      i += 1;
+    } else {
+      body += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  // A pattern that matches a folder also covers everything inside it.
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${body}(?:/.*)?$`);
+};
+
+/**
+ * Parses the patterns of a .gitignore file.
+ * @param content The file's content, or a list of patterns joined by newlines.
+ * @param basePath The folder containing the .gitignore, relative to the upload; '' for the root.
+ * @returns The rules, in file order.
+ */
+const parseIgnorePatterns = (content: string, basePath: string): IgnoreRule[] => {
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach(line => {
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) return;
+
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+    if (pattern.startsWith('\\')) pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    // A slash anywhere but the end ties the pattern to the .gitignore's folder.
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    if (!pattern) return;
+
+    rules.push({ basePath, regex: globToRegex(pattern, anchored), negate, directoryOnly });
+  });
+  return rules;
+};
+
+/**
+ * Checks a single path against the rules. As in git, the last matching rule wins.
+ */
+const matchesRules = (path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean => {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    let relativePath = path;
+    if (rule.basePath) {
+      if (!path.startsWith(`${rule.basePath}/`)) continue;
+      relativePath = path.slice(rule.basePath.length + 1);
+    }
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+};
+
+/**
+ * Checks whether a file is ignored. Like git, a file inside an ignored folder stays
+ * ignored even if a later rule re-includes the file itself.
+ */
+const isIgnored = (path: string, rules: IgnoreRule[]): boolean => {
+  const segments = path.split('/');
+  for (let depth = 1; depth < segments.length; depth++) {
+    if (matchesRules(segments.slice(0, depth).join('/'), true, rules)) {
+      return true;
+    }
+  }
+  return matchesRules(path, false, rules);
+};
+
+/**
+ * Builds a check for folders that the given patterns ignore, so that a walk over a folder
+ * on disk can skip them (e.g. node_modules) instead of listing every file inside.
+ * @param patterns Patterns in .gitignore syntax.
+ * @param basePath The folder the patterns are relative to.
+ * @returns A function that takes a folder path and says whether it is ignored.
+ */
+export const createIgnoredFolderMatcher = (patterns: string[], basePath: string): ((path: string) => boolean) => {
+  const rules = parseIgnorePatterns(patterns.join('\n'), basePath);
+  return (path: string) => matchesRules(path, true, rules);
+};
+
+/**
+ * Builds a check for project paths that match any of the given globs, e.g. the include
+ * and exclude filters of a search. A glob may be written relative to the project folder
+ * ("src/**") or include it ("my-app/src/**"); a glob matching a folder covers its files.
+ * @param patterns Globs in .gitignore syntax.
+ * @returns A function that takes a file path and says whether a glob matches it.
+ */
+export const createPathMatcher = (patterns: string[]): ((path: string) => boolean) => {
+  const rules = parseIgnorePatterns(patterns.join('\n'), '');
+  return (path: string) => isIgnored(path, rules) || (path.includes('/') && isIgnored(path.slice(path.indexOf('/') + 1), rules));
+};
+
+/**
+ * Returns the folder shared by every uploaded file, e.g. the project folder chosen in
+ * the folder picker, or '' when the files don't share one.
+ */
+const getCommonRoot = (paths: string[]): string => {
+  const roots = new Set(paths.map(path => (path.includes('/') ? path.split('/')[0] : '')));
+  return roots.size === 1 ? [...roots][0] : '';
+};
+
+/**
+ * Works out which uploaded files to read: applies the default ignore patterns and every
+ * .gitignore in the upload (each to its own folder), skips binary files, and groups
+ * what's left by top-level folder so the user can review it before anything is read.
+ * @param files The files the browser handed over.
+ * @param defaultPatterns The default ignore patterns, in .gitignore syntax.
+ * @returns The upload plan.
+ */
+export const planUpload = async (files: File[], defaultPatterns: string[]): Promise<UploadPlan> => {
+  const commonRoot = getCommonRoot(files.map(getUploadPath));
+
+  const gitignoreFiles = files
+    .filter(file => getUploadPath(file).split('/').pop() === '.gitignore')
+    // Parent folders first, so rules in nested .gitignore files take precedence.
+    .sort((a, b) => getUploadPath(a).split('/').length - getUploadPath(b).split('/').length);
+
+  const rules = parseIgnorePatterns(defaultPatterns.join('\n'), commonRoot);
+  for (const file of gitignoreFiles) {
+    const path = getUploadPath(file);
+    const basePath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+    rules.push(...parseIgnorePatterns(await file.text(), basePath));
+  }
+
+  const groups = new Map<string, UploadGroup>();
+  let ignoredCount = 0;
+  let ignoredBytes = 0;
+  let unreadableCount = 0;
+
+  files.forEach(file => {
+    const path = getUploadPath(file);
+    const relativePath = commonRoot ? path.slice(commonRoot.length + 1) : path;
+    const name = relativePath.includes('/') ? relativePath.split('/')[0] : ROOT_GROUP_NAME;
+    if (!groups.has(name)) {
+      groups.set(name, { name, files: [], totalBytes: 0, ignoredCount: 0 });
+    }
+    const group = groups.get(name)!;
+
+    if (isIgnored(path, rules)) {
+      group.ignoredCount++;
+      ignoredCount++;
+      ignoredBytes += file.size;
+    } else if (!isLikelyTextFile(file)) {
+      unreadableCount++;
+    } else {
+      group.files.push(file);
+      group.totalBytes += file.size;
+    }
+  });
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => {
+      // Keep loose top-level files first, then folders alphabetically.
+      if (a.name === ROOT_GROUP_NAME) return -1;
+      if (b.name === ROOT_GROUP_NAME) return 1;
+      return a.name.localeCompare(b.name);
+    }),
+    ignoredCount,
+    ignoredBytes,
+    unreadableCount,
+    gitignoreCount: gitignoreFiles.length,
+  };
+};
+
+/**
+ * Formats a byte count for display, e.g. 512 B, 12.3 KB, 4.5 MB.
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
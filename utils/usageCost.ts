@@ -0,0 +1,120 @@
+import type { ModelId, ModelPrice, PriceTable, TokenUsage, UsageRecord } from '../types';
+
+// Gemini API list prices for prompts of up to 200k tokens, in US dollars per million tokens.
+// Prices change, so the table can be edited in the usage panel.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-pro': { input: 1.25, cachedInput: 0.31, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, cachedInput: 0.075, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+};
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  // The estimated cost of the priced calls, in US dollars.
+  cost: number;
+  // Calls of models missing from the price table, which the cost leaves out.
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  // Totals per model, most expensive first.
+  byModel: { model: ModelId; totals: UsageTotals }[];
+}
+
+/**
+ * Returns the model name of a ModelId ("<providerId>:<model>"), which is what prices are listed by.
+ */
+export const getModelName = (model: ModelId): string => model.slice(model.indexOf(':') + 1);
+
+/**
+ * Estimates what a model call cost. Cached input tokens are billed at the cached rate
+ * and thinking tokens as output.
+ * @returns The cost in US dollars, or null if the model has no price.
+ */
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null => {
+  if (!price) return null;
+  const uncachedTokens = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (
+    uncachedTokens * price.input +
+    usage.cachedTokens * price.cachedInput +
+    (usage.outputTokens + usage.thinkingTokens) * price.output
+  ) / 1_000_000;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, promptTokens: 0, cachedTokens: 0, outputTokens: 0, thinkingTokens: 0, cost: 0, unpricedCalls: 0,
+});
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord, prices: PriceTable): void => {
+  const cost = estimateCost(record, prices[getModelName(record.model)]);
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.cachedTokens += record.cachedTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.thinkingTokens += record.thinkingTokens;
+  if (cost === null) {
+    totals.unpricedCalls++;
+  } else {
+    totals.cost += cost;
+  }
+};
+
+/**
+ * Adds up the tokens and estimated cost of model calls, overall and per model.
+ * @param records The calls, e.g. a session's usage log or one message's calls.
+ * @param prices The price table.
+ */
+export const summarizeUsage = (records: UsageRecord[], prices: PriceTable): UsageSummary => {
+  const total = emptyTotals();
+  const byModel = new Map<ModelId, UsageTotals>();
+  records.forEach(record => {
+    addToTotals(total, record, prices);
+    if (!byModel.has(record.model)) byModel.set(record.model, emptyTotals());
+    addToTotals(byModel.get(record.model)!, record, prices);
+  });
+  return {
+    total,
+    byModel: Array.from(byModel.entries())
+      .map(([model, totals]) => ({ model, totals }))
+      .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls),
+  };
+};
+
+/**
+ * Formats a cost in US dollars, with more decimals for the small amounts single calls cost.
+ */
+export const formatCost = (dollars: number): string => {
+  if (dollars === 0) return '$0.00';
+  if (dollars < 0.01) return `$${dollars.toFixed(4)}`;
+  return `$${dollars.toFixed(2)}`;
+};
+
+const escapeCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats a usage log as CSV, one row per model call, for spreadsheets.
+ * @param records The calls.
+ * @param prices The price table used for the cost column; unpriced calls leave it empty.
+ */
+export const formatUsageCsv = (records: UsageRecord[], prices: PriceTable): string => {
+  const header = ['timestamp', 'thread', 'kind', 'model', 'prompt_tokens', 'cached_tokens', 'output_tokens', 'thinking_tokens', 'estimated_cost_usd'];
+  const rows = records.map(record => {
+    const cost = estimateCost(record, prices[getModelName(record.model)]);
+    return [
+      new Date(record.timestamp).toISOString(),
+      record.threadName,
+      record.kind,
+      record.model,
+      record.promptTokens,
+      record.cachedTokens,
+      record.outputTokens,
+      record.thinkingTokens,
+      cost === null ? '' : cost.toFixed(6),
+    ].map(escapeCsvField).join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
@@ -6,7 +6,17 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_COMPATIBLE_BASE_URL': JSON.stringify(env.OPENAI_COMPATIBLE_BASE_URL ?? ''),
+        'process.env.OPENAI_COMPATIBLE_API_KEY': JSON.stringify(env.OPENAI_COMPATIBLE_API_KEY ?? ''),
+        'process.env.OPENAI_COMPATIBLE_MODELS': JSON.stringify(env.OPENAI_COMPATIBLE_MODELS ?? ''),
+        'process.env.OPENAI_COMPATIBLE_LABEL': JSON.stringify(env.OPENAI_COMPATIBLE_LABEL ?? ''),
+        'process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW': JSON.stringify(env.OPENAI_COMPATIBLE_CONTEXT_WINDOW ?? ''),
+        'process.env.OPENAI_COMPATIBLE_MAX_OUTPUT_TOKENS': JSON.stringify(env.OPENAI_COMPATIBLE_MAX_OUTPUT_TOKENS ?? '')
+      },
+      worker: {
+        // The validation worker loads the TypeScript compiler on demand, which needs an ES module worker.
+        format: 'es',
       },
       resolve: {
         alias: {